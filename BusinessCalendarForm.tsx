@@ -0,0 +1,307 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Card } from '../../common/Card';
+import { Button } from '../../common/Button';
+import { Input } from '../../common/Input';
+import { Alert } from '../../common/Alert';
+import useApiQuery from './useApiQuery';
+import useApiMutation from './useApiMutation';
+import { queryKeys } from './query-cache';
+import {
+  BusinessCalendar,
+  Holiday,
+  getBusinessCalendar,
+  createBusinessCalendar,
+  updateBusinessCalendar
+} from './business-calendar-api';
+import {
+  DEFAULT_WORKING_DAYS,
+  HolidayImport,
+  mergeHolidays,
+  parseHolidayFile,
+  validateBusinessCalendar
+} from './business-calendar';
+import { DAY_LABELS } from './cron-expression';
+import './BusinessCalendarForm.css';
+
+// Weekdays in the order people read a working week
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const EMPTY_CALENDAR: BusinessCalendar = {
+  name: '',
+  description: '',
+  workingDays: DEFAULT_WORKING_DAYS,
+  holidays: []
+};
+
+const BusinessCalendarForm: React.FC = () => {
+  const { id } = useParams<{ id?: string }>();
+  const navigate = useNavigate();
+  const isEditMode = Boolean(id);
+
+  // Form state
+  const [formData, setFormData] = useState<BusinessCalendar>(EMPTY_CALENDAR);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [importResult, setImportResult] = useState<(HolidayImport & { fileName: string; added: number }) | null>(null);
+
+  // API hooks
+  const {
+    data: calendarData,
+    isLoading,
+    error: loadError
+  } = useApiQuery([...queryKeys.businessCalendars, id], signal => getBusinessCalendar(id as string, signal), {
+    enabled: isEditMode
+  });
+
+  // Schedules show their next runs through the calendar, so refresh them too
+  const {
+    isLoading: isSaving,
+    error: saveError,
+    execute: saveCalendar
+  } = useApiMutation(isEditMode ? updateBusinessCalendar : createBusinessCalendar, {
+    invalidates: [queryKeys.businessCalendars, queryKeys.schedules]
+  });
+
+  // Load the calendar when editing
+  useEffect(() => {
+    if (isEditMode && calendarData?.data) {
+      setFormData({ ...EMPTY_CALENDAR, ...calendarData.data });
+    }
+  }, [isEditMode, calendarData]);
+
+  const clearError = (name: string) => {
+    if (formErrors[name]) {
+      setFormErrors(prev => {
+        const newErrors = { ...prev };
+        delete newErrors[name];
+        return newErrors;
+      });
+    }
+  };
+
+  const updateFormData = (changes: Partial<BusinessCalendar>) => {
+    setFormData(prev => ({ ...prev, ...changes }));
+    Object.keys(changes).forEach(clearError);
+  };
+
+  // Handle input changes
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    updateFormData({ [name]: value } as Partial<BusinessCalendar>);
+  };
+
+  const toggleWorkingDay = (day: number) => {
+    updateFormData({
+      workingDays: formData.workingDays.includes(day)
+        ? formData.workingDays.filter(workingDay => workingDay !== day)
+        : [...formData.workingDays, day].sort((a, b) => a - b)
+    });
+  };
+
+  // Holidays
+  const holidays = formData.holidays;
+
+  const updateHoliday = (index: number, changes: Partial<Holiday>) => {
+    updateFormData({
+      holidays: holidays.map((holiday, holidayIndex) => holidayIndex === index ? { ...holiday, ...changes } : holiday)
+    });
+  };
+
+  // Files are read in the browser; only the resulting dates are saved
+  const handleImportFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const input = e.target;
+    const file = input.files?.[0];
+    if (!file) return;
+
+    const result = parseHolidayFile(file.name, await file.text());
+    const merged = mergeHolidays(holidays, result.holidays);
+    updateFormData({ holidays: merged });
+    setImportResult({ ...result, fileName: file.name, added: merged.length - holidays.length });
+
+    // Let the same file be picked again after editing it
+    input.value = '';
+  };
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const errors = validateBusinessCalendar(formData);
+    setFormErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      return;
+    }
+
+    const response = await saveCalendar({
+      ...formData,
+      id: isEditMode ? id : undefined,
+      name: formData.name.trim(),
+      holidays: mergeHolidays(holidays.map(holiday => ({ ...holiday, name: holiday.name.trim() })))
+    });
+
+    if (response.data) {
+      navigate('/calendars');
+    }
+  };
+
+  if (isEditMode && isLoading) {
+    return <div className="loading">Loading...</div>;
+  }
+
+  return (
+    <div className="business-calendar-form">
+      <h2>{isEditMode ? 'Edit Business Calendar' : 'Create Business Calendar'}</h2>
+
+      {(loadError || saveError) && (
+        <Alert type="error" className="mb-4">
+          {loadError || saveError}
+        </Alert>
+      )}
+
+      <Card>
+        <form onSubmit={handleSubmit}>
+          <div className="form-grid">
+            <div className="form-column">
+              <Input
+                label="Name"
+                name="name"
+                value={formData.name}
+                onChange={handleInputChange}
+                error={formErrors.name}
+                placeholder="US bank holidays"
+                required
+              />
+
+              <div className="working-days">
+                <span className="working-days-label">Working Days</span>
+                <div className="working-days-options">
+                  {WEEKDAY_ORDER.map(day => (
+                    <label key={day} className="working-day">
+                      <input
+                        type="checkbox"
+                        checked={formData.workingDays.includes(day)}
+                        onChange={() => toggleWorkingDay(day)}
+                      />
+                      {DAY_LABELS[day].slice(0, 3)}
+                    </label>
+                  ))}
+                </div>
+                {formErrors.workingDays && <p className="business-calendar-error">{formErrors.workingDays}</p>}
+              </div>
+            </div>
+
+            <div className="form-column">
+              <Input
+                label="Description"
+                name="description"
+                value={formData.description}
+                onChange={handleInputChange}
+                type="textarea"
+              />
+            </div>
+          </div>
+
+          <div className="business-calendar-holidays-section">
+            <h3>Holidays</h3>
+            <p className="business-calendar-hint">
+              Dates are read in each schedule's own time zone. Import a CSV file with a date
+              (yyyy-MM-dd) and a name per line, or an iCalendar (.ics) file of all-day events.
+            </p>
+
+            <div className="holiday-import">
+              <input type="file" accept=".csv,.ics,text/csv,text/calendar" onChange={handleImportFileChange} />
+              {importResult && (
+                <span className="holiday-import-status">
+                  {importResult.fileName} — {importResult.added} new holiday{importResult.added === 1 ? '' : 's'}
+                </span>
+              )}
+            </div>
+            {importResult && importResult.errors.length > 0 && (
+              <Alert type="warning" className="mb-4">
+                <ul className="holiday-import-errors">
+                  {importResult.errors.map(message => <li key={message}>{message}</li>)}
+                </ul>
+              </Alert>
+            )}
+
+            {holidays.length > 0 && (
+              <table className="holiday-table">
+                <thead>
+                  <tr>
+                    <th>Date</th>
+                    <th>Name</th>
+                    <th />
+                  </tr>
+                </thead>
+                <tbody>
+                  {holidays.map((holiday, index) => (
+                    <tr key={index}>
+                      <td>
+                        <input
+                          type="date"
+                          value={holiday.date}
+                          onChange={e => updateHoliday(index, { date: e.target.value })}
+                        />
+                      </td>
+                      <td>
+                        <input
+                          value={holiday.name}
+                          onChange={e => updateHoliday(index, { name: e.target.value })}
+                          placeholder="New Year's Day"
+                        />
+                      </td>
+                      <td>
+                        <Button
+                          type="button"
+                          variant="icon"
+                          icon="trash"
+                          onClick={() => updateFormData({
+                            holidays: holidays.filter((_, holidayIndex) => holidayIndex !== index)
+                          })}
+                          title="Remove holiday"
+                        />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            {formErrors.holidays && <p className="business-calendar-error">{formErrors.holidays}</p>}
+
+            <div className="holiday-actions">
+              <Button
+                type="button"
+                variant="outline"
+                icon="plus"
+                onClick={() => updateFormData({ holidays: [...holidays, { date: '', name: '' }] })}
+              >
+                Add Holiday
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => updateFormData({
+                  holidays: [...holidays].sort((a, b) => a.date.localeCompare(b.date))
+                })}
+                disabled={holidays.length < 2}
+              >
+                Sort by Date
+              </Button>
+            </div>
+          </div>
+
+          <div className="form-actions">
+            <Button type="button" variant="outline" onClick={() => navigate('/calendars')}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" isLoading={isSaving}>
+              {isEditMode ? 'Update Calendar' : 'Create Calendar'}
+            </Button>
+          </div>
+        </form>
+      </Card>
+    </div>
+  );
+};
+
+export default BusinessCalendarForm;
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card } from '../../common/Card';
+import { Button } from '../../common/Button';
+import { Table } from '../../common/Table';
+import { Alert } from '../../common/Alert';
+import { Badge } from '../../common/Badge';
+import { Modal } from '../../common/Modal';
+import useApiQuery from './useApiQuery';
+import useApiMutation from './useApiMutation';
+import { queryKeys } from './query-cache';
+import {
+  BusinessCalendar,
+  getBusinessCalendars,
+  deleteBusinessCalendar
+} from './business-calendar-api';
+import { describeWorkingDays } from './business-calendar';
+import { formatLifetimeDate } from './schedule-lifetime';
+import './BusinessCalendarList.css';
+
+/**
+ * The first holiday from today on, compared as yyyy-MM-dd in the viewer's zone.
+ */
+const getNextHoliday = (calendar: BusinessCalendar) => {
+  const now = new Date();
+  const today = `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+  return [...calendar.holidays]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .find(holiday => holiday.date >= today);
+};
+
+const BusinessCalendarList: React.FC = () => {
+  const navigate = useNavigate();
+
+  // State
+  const [selectedCalendar, setSelectedCalendar] = useState<BusinessCalendar | null>(null);
+
+  // API hooks
+  const {
+    data: calendarsData,
+    isLoading,
+    error
+  } = useApiQuery(queryKeys.businessCalendars, signal => getBusinessCalendars(signal));
+
+  const {
+    isLoading: isDeleting,
+    error: deleteError,
+    execute: executeDelete
+  } = useApiMutation(deleteBusinessCalendar, {
+    invalidates: [queryKeys.businessCalendars, queryKeys.schedules]
+  });
+
+  const handleDeleteConfirm = async () => {
+    if (selectedCalendar?.id) {
+      const response = await executeDelete(selectedCalendar.id);
+      if (!response.error) {
+        setSelectedCalendar(null);
+      }
+    }
+  };
+
+  const columns = [
+    {
+      header: 'Name',
+      accessor: 'name',
+      cell: (calendar: BusinessCalendar) => (
+        <div className="business-calendar-name">
+          <span>{calendar.name}</span>
+          {calendar.description && <small>{calendar.description}</small>}
+        </div>
+      )
+    },
+    {
+      header: 'Working Days',
+      accessor: 'workingDays',
+      cell: (calendar: BusinessCalendar) => (
+        <Badge color="info">{describeWorkingDays(calendar.workingDays)}</Badge>
+      )
+    },
+    {
+      header: 'Holidays',
+      accessor: 'holidays',
+      cell: (calendar: BusinessCalendar) => {
+        const nextHoliday = getNextHoliday(calendar);
+        return (
+          <div className="business-calendar-holidays">
+            <span>{calendar.holidays.length} holiday{calendar.holidays.length === 1 ? '' : 's'}</span>
+            {nextHoliday && (
+              <small>
+                Next: {formatLifetimeDate(nextHoliday.date)}
+                {nextHoliday.name && ` — ${nextHoliday.name}`}
+              </small>
+            )}
+          </div>
+        );
+      }
+    },
+    {
+      header: 'Actions',
+      accessor: 'actions',
+      cell: (calendar: BusinessCalendar) => (
+        <div className="actions-cell">
+          <Button
+            variant="icon"
+            icon="edit"
+            onClick={() => navigate(`/calendars/${calendar.id}/edit`)}
+            title="Edit"
+          />
+          <Button
+            variant="icon"
+            icon="trash"
+            onClick={() => setSelectedCalendar(calendar)}
+            title="Delete"
+          />
+        </div>
+      )
+    }
+  ];
+
+  return (
+    <div className="business-calendar-list">
+      <div className="header-actions">
+        <h2>Business Calendars</h2>
+        <Button variant="primary" icon="plus" onClick={() => navigate('/calendars/new')}>
+          New Calendar
+        </Button>
+      </div>
+
+      {(error || deleteError) && (
+        <Alert type="error" className="mb-4">
+          {error || deleteError}
+        </Alert>
+      )}
+
+      <Card>
+        <Table
+          columns={columns}
+          data={calendarsData?.data || []}
+          isLoading={isLoading}
+          emptyMessage="No business calendars defined"
+        />
+      </Card>
+
+      <Modal
+        isOpen={Boolean(selectedCalendar)}
+        onClose={() => setSelectedCalendar(null)}
+        title="Confirm Delete"
+      >
+        <p>
+          Are you sure you want to delete the calendar "{selectedCalendar?.name}"?
+          Schedules that use it will run on every day their cron expression allows.
+        </p>
+        <div className="modal-actions">
+          <Button variant="outline" onClick={() => setSelectedCalendar(null)}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={handleDeleteConfirm} isLoading={isDeleting}>
+            Delete Calendar
+          </Button>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default BusinessCalendarList;
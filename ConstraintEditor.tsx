@@ -0,0 +1,155 @@
+import React, { useMemo } from 'react';
+import { Input } from '../../common/Input';
+import { Select } from '../../common/Select';
+import {
+  ConstraintDefinition,
+  ConstraintValues,
+  ConstraintSchema,
+  validateConstraints
+} from './constraint-schema';
+import useValidationReport from './useValidationReport';
+import './ConstraintEditor.css';
+
+interface ConstraintEditorProps {
+  schema: ConstraintSchema;
+  value: ConstraintValues;
+  onChange: (values: ConstraintValues) => void;
+  onValidationChange?: (errors: Record<string, string>) => void;
+  title?: string;
+}
+
+/**
+ * Renders an input for each constraint of a generator and shows validation
+ * errors next to the offending field.
+ */
+const ConstraintEditor: React.FC<ConstraintEditorProps> = ({
+  schema,
+  value,
+  onChange,
+  onValidationChange,
+  title = 'Constraints'
+}) => {
+  const errors = useMemo(() => validateConstraints(schema, value), [schema, value]);
+
+  useValidationReport(errors, onValidationChange);
+
+  if (schema.length === 0) {
+    return null;
+  }
+
+  const handleValueChange = (definition: ConstraintDefinition, rawValue: string | boolean) => {
+    const nextValues = { ...value };
+
+    if (rawValue === '') {
+      delete nextValues[definition.name];
+    } else if (definition.kind === 'number' && typeof rawValue === 'string' && !isNaN(Number(rawValue))) {
+      nextValues[definition.name] = Number(rawValue);
+    } else {
+      nextValues[definition.name] = rawValue;
+    }
+
+    onChange(nextValues);
+  };
+
+  const renderField = (definition: ConstraintDefinition) => {
+    const fieldValue = value[definition.name];
+    const error = errors[definition.name];
+    const textValue = fieldValue === undefined ? '' : String(fieldValue);
+    const placeholder = definition.defaultValue !== undefined ? `Default: ${definition.defaultValue}` : undefined;
+
+    const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+      handleValueChange(definition, e.target.value);
+    };
+
+    switch (definition.kind) {
+      case 'boolean':
+        return (
+          <>
+            <label className="constraint-checkbox">
+              <input
+                type="checkbox"
+                checked={fieldValue === true || fieldValue === 'true'}
+                onChange={e => handleValueChange(definition, e.target.checked)}
+              />
+              <span className="checkmark" />
+              {definition.label}
+            </label>
+            {error && <span className="constraint-error">{error}</span>}
+          </>
+        );
+      case 'enum':
+        return (
+          <Select
+            label={definition.label}
+            name={definition.name}
+            value={textValue}
+            onChange={handleInputChange}
+            options={(definition.allowedValues || []).map(option => ({ value: option, label: option }))}
+            placeholder={definition.required ? undefined : 'Any'}
+            error={error}
+            required={definition.required}
+          />
+        );
+      case 'number':
+        return (
+          <Input
+            label={definition.label}
+            name={definition.name}
+            type="number"
+            value={textValue}
+            onChange={handleInputChange}
+            min={definition.min?.toString()}
+            max={definition.max?.toString()}
+            placeholder={placeholder}
+            error={error}
+            required={definition.required}
+          />
+        );
+      case 'date':
+        return (
+          <Input
+            label={definition.label}
+            name={definition.name}
+            type="date"
+            value={textValue}
+            onChange={handleInputChange}
+            min={definition.min?.toString()}
+            max={definition.max?.toString()}
+            error={error}
+            required={definition.required}
+          />
+        );
+      default:
+        return (
+          <Input
+            label={definition.label}
+            name={definition.name}
+            value={textValue}
+            onChange={handleInputChange}
+            placeholder={placeholder}
+            className={definition.kind === 'regex' ? 'constraint-regex-input' : undefined}
+            error={error}
+            required={definition.required}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="column-constraints constraint-editor">
+      <h4 className="constraint-section-title">{title}</h4>
+      <div className="constraint-fields">
+        {schema.map(definition => (
+          <div key={definition.name} className={`constraint-field ${errors[definition.name] ? 'has-error' : ''}`}>
+            {renderField(definition)}
+            {definition.description && (
+              <span className="constraint-description">{definition.description}</span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ConstraintEditor;
@@ -0,0 +1,345 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  CRON_FIELDS,
+  CronFieldDefinition,
+  CronFieldName,
+  CronFieldSpec,
+  CronFieldMode,
+  DEFAULT_CRON_EXPRESSION,
+  DAY_LABELS,
+  MONTH_LABELS,
+  splitCronExpression,
+  joinCronFields,
+  parseCronExpression,
+  validateCronExpression,
+  getNextFireTimes,
+  describeCronExpression,
+  toCronFieldSpec,
+  fromCronFieldSpec
+} from './cron-expression';
+import { formatInTimeZone, getBrowserTimeZone } from './time-zone';
+import { BusinessCalendar, CalendarAdjustment } from './business-calendar-api';
+import { CALENDAR_ADJUSTMENT_LABELS, getCalendarFireTimes } from './business-calendar';
+import './CronBuilder.css';
+
+interface CronBuilderProps {
+  value: string;
+  onChange: (expression: string) => void;
+  timeZone?: string;
+  previewCount?: number;
+  // Runs on days the calendar excludes are moved or skipped in the preview
+  calendar?: BusinessCalendar | null;
+  calendarAdjustment?: CalendarAdjustment;
+}
+
+// Fields exposed as pickers; the optional year field is preserved as-is
+const BUILDER_FIELDS: CronFieldName[] = ['seconds', 'minutes', 'hours', 'dayOfMonth', 'month', 'dayOfWeek'];
+
+const DAY_FIELDS: CronFieldName[] = ['dayOfMonth', 'dayOfWeek'];
+
+const getValueLabel = (definition: CronFieldDefinition, value: number): string => {
+  switch (definition.name) {
+    case 'month':
+      return MONTH_LABELS[value - 1].slice(0, 3);
+    case 'dayOfWeek':
+      return DAY_LABELS[value - 1].slice(0, 3);
+    default:
+      return value.toString();
+  }
+};
+
+const getModeOptions = (name: CronFieldName): { value: CronFieldMode; label: string }[] => {
+  const options: { value: CronFieldMode; label: string }[] = [
+    { value: 'every', label: 'Every' },
+    { value: 'specific', label: 'Specific values' },
+    { value: 'range', label: 'Range' },
+    { value: 'step', label: 'Interval' },
+    { value: 'custom', label: 'Custom' }
+  ];
+
+  if (DAY_FIELDS.includes(name)) {
+    options.splice(1, 0, { value: 'any', label: 'No specific value (?)' });
+  }
+
+  return options;
+};
+
+interface CronFieldPickerProps {
+  definition: CronFieldDefinition;
+  spec: CronFieldSpec;
+  onChange: (spec: CronFieldSpec) => void;
+  error?: string;
+}
+
+const CronFieldPicker: React.FC<CronFieldPickerProps> = ({ definition, spec, onChange, error }) => {
+  const values: number[] = [];
+  for (let value = definition.min; value <= definition.max; value++) {
+    values.push(value);
+  }
+
+  // Custom text is applied on blur, so it can be edited freely. An emptied
+  // field or selection is reported instead of turning into a default value.
+  const [customDraft, setCustomDraft] = useState(spec.raw);
+  const [pickerError, setPickerError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCustomDraft(spec.raw);
+    setPickerError(null);
+  }, [spec.raw, spec.mode]);
+
+  const commitCustomDraft = () => {
+    // Fields are separated by spaces, so a field can't contain any
+    const raw = customDraft.replace(/\s+/g, '');
+    if (!raw) {
+      setPickerError(`${definition.label} needs a value, e.g. *`);
+      return;
+    }
+
+    setCustomDraft(raw);
+    setPickerError(null);
+    if (raw !== spec.raw) {
+      onChange({ ...spec, raw });
+    }
+  };
+
+  const fieldError = pickerError || error;
+
+  const toggleValue = (value: number) => {
+    const selected = spec.values.includes(value)
+      ? spec.values.filter(existing => existing !== value)
+      : [...spec.values, value];
+
+    // Keep the last value selected until another one is picked
+    if (selected.length === 0) {
+      setPickerError(`${definition.label} needs at least one value`);
+      return;
+    }
+
+    setPickerError(null);
+    onChange({ ...spec, values: selected });
+  };
+
+  const renderValueSelect = (selected: number, onSelect: (value: number) => void) => (
+    <select
+      value={selected}
+      onChange={e => onSelect(parseInt(e.target.value, 10))}
+    >
+      {values.map(value => (
+        <option key={value} value={value}>
+          {getValueLabel(definition, value)}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className={`cron-field-picker ${fieldError ? 'has-error' : ''}`}>
+      <div className="cron-field-header">
+        <label>{definition.label}</label>
+        <select
+          value={spec.mode}
+          onChange={e => onChange({ ...spec, mode: e.target.value as CronFieldMode })}
+        >
+          {getModeOptions(definition.name).map(option => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {spec.mode === 'specific' && (
+        <div className={`cron-value-grid cron-value-grid-${definition.name}`}>
+          {values.map(value => (
+            <button
+              key={value}
+              type="button"
+              className={`cron-value-toggle ${spec.values.includes(value) ? 'selected' : ''}`}
+              onClick={() => toggleValue(value)}
+            >
+              {getValueLabel(definition, value)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {spec.mode === 'range' && (
+        <div className="cron-field-inline">
+          <span>From</span>
+          {renderValueSelect(spec.rangeStart, value => onChange({ ...spec, rangeStart: value }))}
+          <span>through</span>
+          {renderValueSelect(spec.rangeEnd, value => onChange({ ...spec, rangeEnd: value }))}
+        </div>
+      )}
+
+      {spec.mode === 'step' && (
+        <div className="cron-field-inline">
+          <span>Every</span>
+          <input
+            type="number"
+            min="1"
+            max={definition.max}
+            value={spec.stepInterval}
+            onChange={e => onChange({ ...spec, stepInterval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+          />
+          <span>starting at</span>
+          {renderValueSelect(spec.stepStart, value => onChange({ ...spec, stepStart: value }))}
+        </div>
+      )}
+
+      {spec.mode === 'custom' && (
+        <div className="cron-field-inline">
+          <input
+            type="text"
+            value={customDraft}
+            onChange={e => setCustomDraft(e.target.value)}
+            onBlur={commitCustomDraft}
+            onKeyDown={e => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                commitCustomDraft();
+              }
+            }}
+            placeholder="*"
+          />
+        </div>
+      )}
+      
+      {fieldError && <span className="cron-field-error">{fieldError}</span>}
+    </div>
+  );
+};
+
+const CronBuilder: React.FC<CronBuilderProps> = ({
+  value,
+  onChange,
+  timeZone = getBrowserTimeZone(),
+  previewCount = 10,
+  calendar,
+  calendarAdjustment = 'ROLL_FORWARD'
+}) => {
+  const fields = splitCronExpression(value || DEFAULT_CRON_EXPRESSION);
+  
+  // Fields the user switched to free-text editing
+  const [customFields, setCustomFields] = useState<CronFieldName[]>([]);
+
+  // Validate and parse the current expression for the description and fire time preview
+  const preview = useMemo(() => {
+    if (!value) {
+      return null;
+    }
+
+    const validation = validateCronExpression(value);
+    if (!validation.valid) {
+      return { description: '', fireTimes: [], errors: validation.errors };
+    }
+
+    const parsed = parseCronExpression(value);
+    return {
+      description: describeCronExpression(parsed),
+      fireTimes: calendar
+        ? getCalendarFireTimes(parsed, previewCount, new Date(), calendar, calendarAdjustment, timeZone)
+        : getNextFireTimes(parsed, previewCount, new Date(), timeZone),
+      errors: []
+    };
+  }, [value, previewCount, timeZone, calendar, calendarAdjustment]);
+  
+  const viewerTimeZone = getBrowserTimeZone();
+
+  const getFieldError = (name: CronFieldName): string | undefined =>
+    preview?.errors.find(error => error.field === name)?.message;
+
+  const getFieldSpec = (name: CronFieldName, token: string): CronFieldSpec => {
+    const spec = toCronFieldSpec(token, name);
+    return customFields.includes(name) ? { ...spec, mode: 'custom', raw: token } : spec;
+  };
+
+  const handleFieldChange = (name: CronFieldName, spec: CronFieldSpec) => {
+    if (!fields) {
+      return;
+    }
+
+    setCustomFields(prev => spec.mode === 'custom'
+      ? Array.from(new Set([...prev, name]))
+      : prev.filter(field => field !== name)
+    );
+
+    const updatedFields = { ...fields, [name]: fromCronFieldSpec(spec, name) };
+
+    // Quartz requires exactly one of the day fields to be "?"
+    if (DAY_FIELDS.includes(name)) {
+      const otherField = name === 'dayOfMonth' ? 'dayOfWeek' : 'dayOfMonth';
+      if (spec.mode === 'any') {
+        if (updatedFields[otherField] === '?') {
+          updatedFields[otherField] = '*';
+        }
+      } else {
+        updatedFields[otherField] = '?';
+      }
+    }
+
+    onChange(joinCronFields(updatedFields));
+  };
+
+  return (
+    <div className="cron-builder">
+      {fields ? (
+        <div className="cron-builder-fields">
+          {CRON_FIELDS.filter(definition => BUILDER_FIELDS.includes(definition.name)).map(definition => (
+            <CronFieldPicker
+              key={definition.name}
+              definition={definition}
+              spec={getFieldSpec(definition.name, fields[definition.name])}
+              onChange={spec => handleFieldChange(definition.name, spec)}
+              error={getFieldError(definition.name)}
+            />
+          ))}
+        </div>
+      ) : (
+        <p className="cron-builder-message">
+          This expression cannot be edited with the builder. Expressions need 6 or 7 fields.
+        </p>
+      )}
+
+      {preview && (
+        <div className="cron-builder-preview">
+          {preview.errors.length > 0 ? (
+            <ul className="cron-builder-errors">
+              {preview.errors.map(error => (
+                <li key={error.message}>{error.message}</li>
+              ))}
+            </ul>
+          ) : (
+            <>
+              <p className="cron-builder-description">{preview.description}</p>
+              {calendar && (
+                <p className="cron-builder-calendar">
+                  Business days of {calendar.name}; other days: {CALENDAR_ADJUSTMENT_LABELS[calendarAdjustment].toLowerCase()}
+                </p>
+              )}
+              <h5>Next {preview.fireTimes.length} runs</h5>
+              {preview.fireTimes.length > 0 ? (
+                <ol className="cron-fire-times">
+                  {preview.fireTimes.map(fireTime => (
+                    <li key={fireTime.getTime()}>
+                      {formatInTimeZone(fireTime, timeZone)}
+                      {timeZone !== viewerTimeZone && (
+                        <span className="cron-fire-time-local">
+                          {' '}({formatInTimeZone(fireTime, viewerTimeZone)} your time)
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <p className="cron-builder-message">This expression will not fire again.</p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CronBuilder;
@@ -0,0 +1,570 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Card } from '../../common/Card';
+import { Button } from '../../common/Button';
+import { Input } from '../../common/Input';
+import { Select } from '../../common/Select';
+import { Alert } from '../../common/Alert';
+import useApiQuery from './useApiQuery';
+import useApiMutation from './useApiMutation';
+import { queryKeys } from './query-cache';
+import { TEMPLATE_COLUMN_CATEGORY, useDataTypes } from './DataTypesContext';
+import {
+  CustomTypeDefinition,
+  CustomTypeKind,
+  CompositePart,
+  CUSTOM_TYPE_CATEGORY,
+  CUSTOM_TYPE_KIND_LABELS,
+  getCustomType,
+  getCustomTypes,
+  createCustomType,
+  updateCustomType,
+  uploadCustomTypeLookup
+} from './custom-type-api';
+import { resolveDependencyOrder, formatCycle } from './dependency-order';
+import './CustomTypeForm.css';
+
+// Type keys end up in template column definitions, so keep them identifier-like
+const TYPE_KEY_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]*$/;
+
+const EMPTY_DEFINITION: CustomTypeDefinition = {
+  type: '',
+  displayName: '',
+  description: '',
+  kind: 'PATTERN',
+  pattern: '',
+  values: [{ value: '', weight: 1 }],
+  parts: []
+};
+
+const getPartTypes = (definition: CustomTypeDefinition): string[] =>
+  definition.kind === 'COMPOSITE'
+    ? (definition.parts || []).filter(part => part.kind === 'TYPE').map(part => part.value)
+    : [];
+
+/**
+ * The cycle a composite would close through the parts of the other custom
+ * types, e.g. A → B → A, starting from the composite itself.
+ */
+const findCompositeCycle = (
+  definition: CustomTypeDefinition,
+  others: CustomTypeDefinition[]
+): string[] | null => {
+  const partTypes = new Map([
+    [definition.type, getPartTypes(definition)],
+    ...others
+      .filter(other => other.type !== definition.type)
+      .map(other => [other.type, getPartTypes(other)] as [string, string[]])
+  ]);
+  const { cycles } = resolveDependencyOrder([...partTypes.keys()], type => partTypes.get(type) || []);
+
+  return cycles.find(cycle => cycle[0] === definition.type) || null;
+};
+
+const CustomTypeForm: React.FC = () => {
+  const { id } = useParams<{ id?: string }>();
+  const navigate = useNavigate();
+  const isEditMode = Boolean(id);
+  const { dataTypes, getDataType } = useDataTypes();
+
+  // Form state
+  const [formData, setFormData] = useState<CustomTypeDefinition>(EMPTY_DEFINITION);
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [lookupColumns, setLookupColumns] = useState<string[]>([]);
+  const [lookupRowCount, setLookupRowCount] = useState<number | null>(null);
+
+  // API hooks
+  const {
+    data: customTypeData,
+    isLoading,
+    error: loadError
+  } = useApiQuery([...queryKeys.customTypes, id], signal => getCustomType(id as string, signal), {
+    enabled: isEditMode
+  });
+
+  // Composites can include each other, so cycles are checked against all of them
+  const { data: customTypesData } = useApiQuery(queryKeys.customTypes, signal => getCustomTypes(signal));
+
+  const {
+    isLoading: isSaving,
+    error: saveError,
+    execute: saveCustomType
+  } = useApiMutation(isEditMode ? updateCustomType : createCustomType, {
+    invalidates: [queryKeys.customTypes]
+  });
+
+  const {
+    isLoading: isUploading,
+    error: uploadError,
+    execute: uploadLookup
+  } = useApiMutation(uploadCustomTypeLookup);
+
+  // Load the definition when editing
+  useEffect(() => {
+    if (isEditMode && customTypeData?.data) {
+      const definition = customTypeData.data;
+      setFormData({
+        ...EMPTY_DEFINITION,
+        ...definition,
+        values: definition.values?.length ? definition.values : EMPTY_DEFINITION.values
+      });
+      setLookupColumns(definition.lookupColumn ? [definition.lookupColumn] : []);
+    }
+  }, [isEditMode, customTypeData]);
+
+  const clearError = (name: string) => {
+    if (formErrors[name]) {
+      setFormErrors(prev => {
+        const newErrors = { ...prev };
+        delete newErrors[name];
+        return newErrors;
+      });
+    }
+  };
+
+  const updateFormData = (changes: Partial<CustomTypeDefinition>) => {
+    setFormData(prev => ({ ...prev, ...changes }));
+    Object.keys(changes).forEach(clearError);
+  };
+
+  // Handle input changes
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target;
+    updateFormData({ [name]: value } as Partial<CustomTypeDefinition>);
+  };
+
+  // Weighted values
+  const values = formData.values || [];
+  const totalWeight = values.reduce((sum, item) => sum + (item.weight > 0 ? item.weight : 0), 0);
+
+  const updateValue = (index: number, changes: Partial<{ value: string; weight: number }>) => {
+    updateFormData({
+      values: values.map((item, itemIndex) => itemIndex === index ? { ...item, ...changes } : item)
+    });
+  };
+
+  // Composite parts
+  const parts = formData.parts || [];
+
+  const updatePart = (index: number, changes: Partial<CompositePart>) => {
+    updateFormData({
+      parts: parts.map((part, partIndex) => partIndex === index ? { ...part, ...changes } : part)
+    });
+  };
+
+  const movePart = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= parts.length) return;
+
+    const reordered = [...parts];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    updateFormData({ parts: reordered });
+  };
+
+  // A composite can't contain itself; longer cycles are caught on validation.
+  // Derived and reference columns need their row or batch, so they can't be parts either.
+  const partTypeOptions = dataTypes.filter(dataType =>
+    dataType.type !== formData.type && dataType.category !== TEMPLATE_COLUMN_CATEGORY
+  );
+
+  // Lookup file
+  const handleLookupFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const response = await uploadLookup(file);
+
+    if (response.data) {
+      const upload = response.data;
+      setLookupColumns(upload.columns);
+      setLookupRowCount(upload.rowCount);
+      updateFormData({
+        lookupFileId: upload.fileId,
+        lookupFileName: upload.fileName,
+        lookupColumn: upload.columns[0] || ''
+      });
+    }
+  };
+
+  // Validate form before submission
+  const validateForm = (): boolean => {
+    const errors: Record<string, string> = {};
+    const originalType = customTypeData?.data?.type;
+
+    if (!formData.type.trim()) {
+      errors.type = 'Type key is required';
+    } else if (!TYPE_KEY_PATTERN.test(formData.type)) {
+      errors.type = 'Type key must start with a letter and contain only letters, digits and underscores';
+    } else if (formData.type !== originalType && getDataType(formData.type)) {
+      errors.type = getDataType(formData.type)?.category === CUSTOM_TYPE_CATEGORY
+        ? 'Another custom type already uses this key'
+        : 'A built-in data type already uses this key';
+    }
+
+    if (!formData.displayName.trim()) {
+      errors.displayName = 'Display name is required';
+    }
+
+    switch (formData.kind) {
+      case 'PATTERN':
+        if (!formData.pattern) {
+          errors.pattern = 'Pattern is required';
+        } else {
+          try {
+            new RegExp(formData.pattern);
+          } catch (err) {
+            errors.pattern = 'Pattern is not a valid regular expression';
+          }
+        }
+        break;
+      case 'WEIGHTED_LIST':
+        if (values.length === 0 || values.some(item => !item.value)) {
+          errors.values = 'Every row needs a value';
+        } else if (values.some(item => isNaN(item.weight) || item.weight <= 0)) {
+          errors.values = 'Weights must be greater than 0';
+        } else if (new Set(values.map(item => item.value)).size !== values.length) {
+          errors.values = 'Values must be unique';
+        }
+        break;
+      case 'LOOKUP':
+        if (!formData.lookupFileId) {
+          errors.lookupFileId = 'Upload a CSV file';
+        } else if (!formData.lookupColumn) {
+          errors.lookupColumn = 'Choose the column to take values from';
+        }
+        break;
+      case 'COMPOSITE': {
+        const otherCustomTypes = (customTypesData?.data || []).filter(other => !isEditMode || other.id !== id);
+        const cycle = findCompositeCycle(formData, otherCustomTypes);
+
+        if (!parts.some(part => part.kind === 'TYPE')) {
+          errors.parts = 'Add at least one data type part';
+        } else if (parts.some(part => part.kind === 'TYPE' && !getDataType(part.value))) {
+          errors.parts = 'Every data type part must use a registered type';
+        } else if (parts.some(part => part.kind === 'LITERAL' && !part.value)) {
+          errors.parts = 'Text parts cannot be empty';
+        } else if (cycle) {
+          errors.parts = `A composite cannot include itself: ${formatCycle(cycle)}`;
+        }
+        break;
+      }
+      default:
+        break;
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  // Handle form submission
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) {
+      return;
+    }
+
+    // Only send the fields used by the chosen kind
+    const { kind } = formData;
+    const response = await saveCustomType({
+      id: isEditMode ? id : undefined,
+      type: formData.type.trim(),
+      displayName: formData.displayName.trim(),
+      description: formData.description,
+      kind,
+      pattern: kind === 'PATTERN' ? formData.pattern : undefined,
+      values: kind === 'WEIGHTED_LIST' ? values : undefined,
+      lookupFileId: kind === 'LOOKUP' ? formData.lookupFileId : undefined,
+      lookupFileName: kind === 'LOOKUP' ? formData.lookupFileName : undefined,
+      lookupColumn: kind === 'LOOKUP' ? formData.lookupColumn : undefined,
+      parts: kind === 'COMPOSITE' ? parts : undefined
+    });
+
+    if (response.data) {
+      navigate('/custom-types');
+    }
+  };
+
+  const kindOptions = (Object.keys(CUSTOM_TYPE_KIND_LABELS) as CustomTypeKind[]).map(kind => ({
+    value: kind,
+    label: CUSTOM_TYPE_KIND_LABELS[kind]
+  }));
+
+  if (isEditMode && isLoading) {
+    return <div className="loading">Loading...</div>;
+  }
+
+  return (
+    <div className="custom-type-form">
+      <h2>{isEditMode ? 'Edit Custom Type' : 'Create Custom Type'}</h2>
+
+      {(loadError || saveError) && (
+        <Alert type="error" className="mb-4">
+          {loadError || saveError}
+        </Alert>
+      )}
+
+      <Card>
+        <form onSubmit={handleSubmit}>
+          <div className="form-grid">
+            <div className="form-column">
+              <Input
+                label="Display Name"
+                name="displayName"
+                value={formData.displayName}
+                onChange={handleInputChange}
+                error={formErrors.displayName}
+                required
+              />
+
+              <Input
+                label="Type Key"
+                name="type"
+                value={formData.type}
+                onChange={handleInputChange}
+                error={formErrors.type}
+                helperText="Used in template column definitions, e.g. productCode"
+                required
+              />
+            </div>
+
+            <div className="form-column">
+              <Select
+                label="Kind"
+                name="kind"
+                value={formData.kind}
+                onChange={handleInputChange}
+                options={kindOptions}
+                required
+              />
+
+              <Input
+                label="Description"
+                name="description"
+                value={formData.description}
+                onChange={handleInputChange}
+                type="textarea"
+              />
+            </div>
+          </div>
+
+          <div className="custom-type-definition">
+            {formData.kind === 'PATTERN' && (
+              <Input
+                label="Pattern"
+                name="pattern"
+                value={formData.pattern || ''}
+                onChange={handleInputChange}
+                error={formErrors.pattern}
+                placeholder="PRD-[A-Z]{3}-\d{4}"
+                helperText="Each value is a random string matching this regular expression"
+                required
+              />
+            )}
+
+            {formData.kind === 'WEIGHTED_LIST' && (
+              <>
+                <h3>Values</h3>
+                <table className="weighted-values">
+                  <thead>
+                    <tr>
+                      <th>Value</th>
+                      <th>Weight</th>
+                      <th>Share</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {values.map((item, index) => (
+                      <tr key={index}>
+                        <td>
+                          <input
+                            value={item.value}
+                            onChange={e => updateValue(index, { value: e.target.value })}
+                            placeholder="ACTIVE"
+                          />
+                        </td>
+                        <td>
+                          <input
+                            type="number"
+                            min="0"
+                            step="any"
+                            value={isNaN(item.weight) ? '' : item.weight}
+                            onChange={e => updateValue(index, { weight: parseFloat(e.target.value) })}
+                          />
+                        </td>
+                        <td className="weighted-share">
+                          {totalWeight > 0 && item.weight > 0
+                            ? `${(item.weight / totalWeight * 100).toFixed(1)}%`
+                            : '—'}
+                        </td>
+                        <td>
+                          <Button
+                            type="button"
+                            variant="icon"
+                            icon="trash"
+                            onClick={() => updateFormData({
+                              values: values.filter((_, itemIndex) => itemIndex !== index)
+                            })}
+                            title="Remove value"
+                            disabled={values.length === 1}
+                          />
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {formErrors.values && <p className="custom-type-error">{formErrors.values}</p>}
+                <Button
+                  type="button"
+                  variant="outline"
+                  icon="plus"
+                  onClick={() => updateFormData({ values: [...values, { value: '', weight: 1 }] })}
+                >
+                  Add Value
+                </Button>
+              </>
+            )}
+
+            {formData.kind === 'LOOKUP' && (
+              <>
+                <h3>Lookup File</h3>
+                <div className="lookup-upload">
+                  <input
+                    type="file"
+                    accept=".csv,text/csv"
+                    onChange={handleLookupFileChange}
+                    disabled={isUploading}
+                  />
+                  {isUploading && <span className="lookup-status">Uploading...</span>}
+                  {!isUploading && formData.lookupFileName && (
+                    <span className="lookup-status">
+                      {formData.lookupFileName}
+                      {lookupRowCount !== null && ` — ${lookupRowCount} rows`}
+                    </span>
+                  )}
+                </div>
+                {(uploadError || formErrors.lookupFileId) && (
+                  <p className="custom-type-error">{uploadError || formErrors.lookupFileId}</p>
+                )}
+
+                {lookupColumns.length > 0 && (
+                  <Select
+                    label="Value Column"
+                    name="lookupColumn"
+                    value={formData.lookupColumn || ''}
+                    onChange={handleInputChange}
+                    options={lookupColumns.map(column => ({ value: column, label: column }))}
+                    error={formErrors.lookupColumn}
+                    helperText="Values are picked at random from this column"
+                    required
+                  />
+                )}
+              </>
+            )}
+
+            {formData.kind === 'COMPOSITE' && (
+              <>
+                <h3>Parts</h3>
+                <p className="custom-type-hint">
+                  Values are built by joining the parts in order, e.g. a state code, "-" and a number.
+                </p>
+                <ol className="composite-parts">
+                  {parts.map((part, index) => (
+                    <li key={index} className="composite-part">
+                      <select
+                        value={part.kind}
+                        onChange={e => updatePart(index, { kind: e.target.value as CompositePart['kind'], value: '' })}
+                      >
+                        <option value="TYPE">Data type</option>
+                        <option value="LITERAL">Text</option>
+                      </select>
+
+                      {part.kind === 'TYPE' ? (
+                        <select
+                          value={part.value}
+                          onChange={e => updatePart(index, { value: e.target.value })}
+                        >
+                          <option value="">Select a data type...</option>
+                          {partTypeOptions.map(dataType => (
+                            <option key={dataType.type} value={dataType.type}>
+                              {dataType.displayName} ({dataType.category})
+                            </option>
+                          ))}
+                        </select>
+                      ) : (
+                        <input
+                          value={part.value}
+                          onChange={e => updatePart(index, { value: e.target.value })}
+                          placeholder="-"
+                        />
+                      )}
+
+                      <div className="composite-part-actions">
+                        <Button
+                          type="button"
+                          variant="icon"
+                          icon="arrow-up"
+                          onClick={() => movePart(index, -1)}
+                          title="Move up"
+                          disabled={index === 0}
+                        />
+                        <Button
+                          type="button"
+                          variant="icon"
+                          icon="arrow-down"
+                          onClick={() => movePart(index, 1)}
+                          title="Move down"
+                          disabled={index === parts.length - 1}
+                        />
+                        <Button
+                          type="button"
+                          variant="icon"
+                          icon="trash"
+                          onClick={() => updateFormData({
+                            parts: parts.filter((_, partIndex) => partIndex !== index)
+                          })}
+                          title="Remove part"
+                        />
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+                {formErrors.parts && <p className="custom-type-error">{formErrors.parts}</p>}
+                <div className="composite-add">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    icon="plus"
+                    onClick={() => updateFormData({ parts: [...parts, { kind: 'TYPE', value: '' }] })}
+                  >
+                    Add Data Type
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    icon="plus"
+                    onClick={() => updateFormData({ parts: [...parts, { kind: 'LITERAL', value: '' }] })}
+                  >
+                    Add Text
+                  </Button>
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="form-actions">
+            <Button type="button" variant="outline" onClick={() => navigate('/custom-types')}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="primary" isLoading={isSaving}>
+              {isEditMode ? 'Update Custom Type' : 'Create Custom Type'}
+            </Button>
+          </div>
+        </form>
+      </Card>
+    </div>
+  );
+};
+
+export default CustomTypeForm;
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card } from '../../common/Card';
+import { Button } from '../../common/Button';
+import { Table } from '../../common/Table';
+import { Alert } from '../../common/Alert';
+import { Badge } from '../../common/Badge';
+import { Modal } from '../../common/Modal';
+import useApiQuery from './useApiQuery';
+import useApiMutation from './useApiMutation';
+import { queryKeys } from './query-cache';
+import {
+  CustomTypeDefinition,
+  CUSTOM_TYPE_KIND_LABELS,
+  getCustomTypes,
+  deleteCustomType
+} from './custom-type-api';
+import './CustomTypeList.css';
+
+/**
+ * Summarise what a custom type generates in one line.
+ */
+const describeDefinition = (definition: CustomTypeDefinition): string => {
+  switch (definition.kind) {
+    case 'PATTERN':
+      return definition.pattern || '';
+    case 'WEIGHTED_LIST':
+      return (definition.values || []).map(item => item.value).join(', ');
+    case 'LOOKUP':
+      return `${definition.lookupFileName || 'lookup file'} → ${definition.lookupColumn || ''}`;
+    case 'COMPOSITE':
+      return (definition.parts || [])
+        .map(part => part.kind === 'TYPE' ? `{${part.value}}` : part.value)
+        .join('');
+    default:
+      return '';
+  }
+};
+
+const CustomTypeList: React.FC = () => {
+  const navigate = useNavigate();
+
+  // State
+  const [selectedType, setSelectedType] = useState<CustomTypeDefinition | null>(null);
+
+  // API hooks
+  const {
+    data: customTypesData,
+    isLoading,
+    error
+  } = useApiQuery(queryKeys.customTypes, signal => getCustomTypes(signal));
+
+  // DataTypesProvider reads the same query, so the selectors update too
+  const {
+    isLoading: isDeleting,
+    error: deleteError,
+    execute: executeDelete
+  } = useApiMutation(deleteCustomType, {
+    invalidates: [queryKeys.customTypes]
+  });
+
+  const handleDeleteConfirm = async () => {
+    if (selectedType?.id) {
+      const response = await executeDelete(selectedType.id);
+      if (!response.error) {
+        setSelectedType(null);
+      }
+    }
+  };
+
+  const columns = [
+    {
+      header: 'Name',
+      accessor: 'displayName',
+      cell: (definition: CustomTypeDefinition) => (
+        <div className="custom-type-name">
+          <span>{definition.displayName}</span>
+          <code>{definition.type}</code>
+        </div>
+      )
+    },
+    {
+      header: 'Kind',
+      accessor: 'kind',
+      cell: (definition: CustomTypeDefinition) => (
+        <Badge color="info">{CUSTOM_TYPE_KIND_LABELS[definition.kind]}</Badge>
+      )
+    },
+    {
+      header: 'Definition',
+      accessor: 'definition',
+      cell: (definition: CustomTypeDefinition) => (
+        <span className="custom-type-summary" title={describeDefinition(definition)}>
+          {describeDefinition(definition)}
+        </span>
+      )
+    },
+    {
+      header: 'Actions',
+      accessor: 'actions',
+      cell: (definition: CustomTypeDefinition) => (
+        <div className="actions-cell">
+          <Button
+            variant="icon"
+            icon="edit"
+            onClick={() => navigate(`/custom-types/${definition.id}/edit`)}
+            title="Edit"
+          />
+          <Button
+            variant="icon"
+            icon="trash"
+            onClick={() => setSelectedType(definition)}
+            title="Delete"
+          />
+        </div>
+      )
+    }
+  ];
+
+  return (
+    <div className="custom-type-list">
+      <div className="header-actions">
+        <h2>Custom Data Types</h2>
+        <Button variant="primary" icon="plus" onClick={() => navigate('/custom-types/new')}>
+          New Custom Type
+        </Button>
+      </div>
+
+      {(error || deleteError) && (
+        <Alert type="error" className="mb-4">
+          {error || deleteError}
+        </Alert>
+      )}
+
+      <Card>
+        <Table
+          columns={columns}
+          data={customTypesData?.data || []}
+          isLoading={isLoading}
+          emptyMessage="No custom types defined"
+        />
+      </Card>
+
+      <Modal
+        isOpen={Boolean(selectedType)}
+        onClose={() => setSelectedType(null)}
+        title="Confirm Delete"
+      >
+        <p>
+          Are you sure you want to delete the custom type "{selectedType?.displayName}"?
+          Templates that use it will no longer generate values for those columns.
+        </p>
+        <div className="modal-actions">
+          <Button variant="outline" onClick={() => setSelectedType(null)}>
+            Cancel
+          </Button>
+          <Button variant="danger" onClick={handleDeleteConfirm} isLoading={isDeleting}>
+            Delete Custom Type
+          </Button>
+        </div>
+      </Modal>
+    </div>
+  );
+};
+
+export default CustomTypeList;
@@ -0,0 +1,334 @@
+import React, { useState, useMemo, useRef, useEffect } from 'react';
+import { DataTypeMetadata, useDataTypes } from './DataTypesContext';
+import { fuzzyMatchFields } from './fuzzy-match';
+import useDataTypePreferences from './useDataTypePreferences';
+import './DataTypeCombobox.css';
+
+interface DataTypeComboboxProps {
+  value: string;
+  onChange: (type: string) => void;
+  label?: string;
+  placeholder?: string;
+  required?: boolean;
+  disabled?: boolean;
+  error?: string;
+  userId?: string;
+}
+
+interface ComboboxItem {
+  id: string;
+  dataType: DataTypeMetadata;
+  indices: Record<string, number[]>;
+}
+
+interface ComboboxGroup {
+  id: string;
+  label: string;
+  items: ComboboxItem[];
+}
+
+let comboboxCount = 0;
+
+const toItem = (groupId: string, dataType: DataTypeMetadata, indices: Record<string, number[]> = {}): ComboboxItem => ({
+  id: `${groupId}-${dataType.type}`,
+  dataType,
+  indices
+});
+
+/**
+ * Wrap the matched characters of a label in <mark>.
+ */
+const renderHighlighted = (text: string, indices: number[] = []) => {
+  if (indices.length === 0) return text;
+
+  const matched = new Set(indices);
+  const parts: React.ReactNode[] = [];
+  let current = '';
+  let isMatch = false;
+
+  const flush = () => {
+    if (current) {
+      parts.push(isMatch ? <mark key={parts.length}>{current}</mark> : current);
+    }
+  };
+
+  Array.from(text).forEach((char, index) => {
+    if (matched.has(index) !== isMatch) {
+      flush();
+      current = '';
+      isMatch = matched.has(index);
+    }
+    current += char;
+  });
+  flush();
+
+  return parts;
+};
+
+/**
+ * Type-ahead picker for data types. Results are fuzzy matched on type, name,
+ * description and category, grouped by category, with the user's favorites
+ * and recently used types pinned at the top.
+ */
+const DataTypeCombobox: React.FC<DataTypeComboboxProps> = ({
+  value,
+  onChange,
+  label = 'Data Type',
+  placeholder = 'Search data types...',
+  required = false,
+  disabled = false,
+  error,
+  userId
+}) => {
+  const { dataTypes, categories, getDataType, isLoading } = useDataTypes();
+  const { favorites, recents, toggleFavorite, recordRecent } = useDataTypePreferences(userId);
+
+  const [query, setQuery] = useState('');
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const idRef = useRef(`data-type-combobox-${++comboboxCount}`);
+  const listboxRef = useRef<HTMLUListElement>(null);
+  const baseId = idRef.current;
+
+  const selectedType = value ? getDataType(value) : null;
+
+  const groups = useMemo<ComboboxGroup[]>(() => {
+    const favoriteTypes = favorites.map(getDataType).filter(Boolean) as DataTypeMetadata[];
+
+    if (!query.trim()) {
+      const recentTypes = recents
+        .filter(type => !favorites.includes(type))
+        .map(getDataType)
+        .filter(Boolean) as DataTypeMetadata[];
+
+      return [
+        { id: 'favorites', label: 'Favorites', items: favoriteTypes.map(type => toItem('favorites', type)) },
+        { id: 'recent', label: 'Recently Used', items: recentTypes.map(type => toItem('recent', type)) },
+        ...categories.map(category => ({
+          id: `category-${category.label}`,
+          label: category.label,
+          items: category.dataTypes.map(type => toItem(`category-${category.label}`, type))
+        }))
+      ].filter(group => group.items.length > 0);
+    }
+
+    const matches = dataTypes
+      .map(dataType => ({
+        dataType,
+        match: fuzzyMatchFields(query, [
+          { name: 'displayName', text: dataType.displayName, weight: 1 },
+          { name: 'type', text: dataType.type, weight: 0.9 },
+          { name: 'category', text: dataType.category || '', weight: 0.5 },
+          { name: 'description', text: dataType.description || '', weight: 0.3 }
+        ])
+      }))
+      .filter(result => result.match)
+      .sort((a, b) => b.match!.score - a.match!.score);
+
+    const favoriteMatches = matches.filter(result => favorites.includes(result.dataType.type));
+    const grouped: Record<string, ComboboxGroup> = {};
+    const order: string[] = [];
+
+    matches
+      .filter(result => !favorites.includes(result.dataType.type))
+      .forEach(result => {
+        const category = result.dataType.category || 'Other';
+        if (!grouped[category]) {
+          grouped[category] = { id: `category-${category}`, label: category, items: [] };
+          order.push(category);
+        }
+        grouped[category].items.push(toItem(grouped[category].id, result.dataType, result.match!.indices));
+      });
+
+    return [
+      {
+        id: 'favorites',
+        label: 'Favorites',
+        items: favoriteMatches.map(result => toItem('favorites', result.dataType, result.match!.indices))
+      },
+      // Categories are ordered by their best match
+      ...order.map(category => grouped[category])
+    ].filter(group => group.items.length > 0);
+  }, [query, dataTypes, categories, favorites, recents, getDataType]);
+
+  const options = useMemo(() => groups.flatMap(group => group.items), [groups]);
+  const activeOption = isOpen ? options[activeIndex] : undefined;
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  // Keep the highlighted option in view while moving with the keyboard
+  useEffect(() => {
+    if (activeOption && listboxRef.current) {
+      const element = listboxRef.current.querySelector(`[id="${baseId}-${activeOption.id}"]`);
+      element?.scrollIntoView({ block: 'nearest' });
+    }
+  }, [activeOption, baseId]);
+
+  const close = () => {
+    setIsOpen(false);
+    setQuery('');
+  };
+
+  const handleSelect = (dataType: DataTypeMetadata) => {
+    onChange(dataType.type);
+    recordRecent(dataType.type);
+    close();
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    switch (e.key) {
+      case 'ArrowDown':
+        e.preventDefault();
+        if (!isOpen) {
+          setIsOpen(true);
+        } else {
+          setActiveIndex(index => Math.min(index + 1, options.length - 1));
+        }
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        setActiveIndex(index => Math.max(index - 1, 0));
+        break;
+      case 'Home':
+        if (isOpen) {
+          e.preventDefault();
+          setActiveIndex(0);
+        }
+        break;
+      case 'End':
+        if (isOpen) {
+          e.preventDefault();
+          setActiveIndex(Math.max(options.length - 1, 0));
+        }
+        break;
+      case 'Enter':
+        if (isOpen && activeOption) {
+          e.preventDefault();
+          handleSelect(activeOption.dataType);
+        }
+        break;
+      case 'Escape':
+        if (isOpen) {
+          e.preventDefault();
+          close();
+        }
+        break;
+      case 'Tab':
+        close();
+        break;
+      default:
+        break;
+    }
+  };
+
+  const inputValue = isOpen ? query : selectedType?.displayName || value;
+
+  return (
+    <div className={`data-type-combobox ${error ? 'has-error' : ''}`}>
+      <label htmlFor={`${baseId}-input`} className="data-type-combobox-label">
+        {label}
+        {required && <span className="required-indicator">*</span>}
+      </label>
+
+      <input
+        id={`${baseId}-input`}
+        type="text"
+        role="combobox"
+        aria-expanded={isOpen}
+        aria-controls={`${baseId}-listbox`}
+        aria-autocomplete="list"
+        aria-activedescendant={activeOption ? `${baseId}-${activeOption.id}` : undefined}
+        aria-invalid={Boolean(error)}
+        className="data-type-combobox-input"
+        value={inputValue}
+        placeholder={placeholder}
+        disabled={disabled}
+        required={required}
+        autoComplete="off"
+        onChange={e => {
+          setQuery(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onClick={() => setIsOpen(true)}
+        onBlur={close}
+        onKeyDown={handleKeyDown}
+      />
+
+      {isOpen && (
+        <ul
+          id={`${baseId}-listbox`}
+          ref={listboxRef}
+          role="listbox"
+          aria-label={label}
+          className="data-type-combobox-listbox"
+        >
+          {isLoading && options.length === 0 && (
+            <li className="data-type-combobox-empty">Loading data types...</li>
+          )}
+          {!isLoading && options.length === 0 && (
+            <li className="data-type-combobox-empty">No data types match "{query}"</li>
+          )}
+
+          {groups.map(group => (
+            <li key={group.id} role="presentation">
+              <div id={`${baseId}-${group.id}`} className="data-type-combobox-group-label">
+                {group.label}
+              </div>
+              <ul role="group" aria-labelledby={`${baseId}-${group.id}`}>
+                {group.items.map(item => {
+                  const isFavorite = favorites.includes(item.dataType.type);
+
+                  return (
+                    <li
+                      key={item.id}
+                      id={`${baseId}-${item.id}`}
+                      role="option"
+                      aria-selected={item.dataType.type === value}
+                      className={`data-type-combobox-option ${activeOption?.id === item.id ? 'active' : ''}`}
+                      onMouseDown={e => e.preventDefault()}
+                      onMouseEnter={() => setActiveIndex(options.indexOf(item))}
+                      onClick={() => handleSelect(item.dataType)}
+                    >
+                      <div className="data-type-combobox-option-text">
+                        <span className="data-type-combobox-option-name">
+                          {renderHighlighted(item.dataType.displayName, item.indices.displayName)}
+                          {item.dataType.deprecation && (
+                            <span className="data-type-combobox-deprecated">deprecated</span>
+                          )}
+                        </span>
+                        <span className="data-type-combobox-option-type">
+                          {renderHighlighted(item.dataType.type, item.indices.type)}
+                        </span>
+                      </div>
+                      <button
+                        type="button"
+                        tabIndex={-1}
+                        className={`favorite-toggle ${isFavorite ? 'active' : ''}`}
+                        aria-label={isFavorite ? `Remove ${item.dataType.displayName} from favorites` : `Add ${item.dataType.displayName} to favorites`}
+                        aria-pressed={isFavorite}
+                        onClick={e => {
+                          e.stopPropagation();
+                          toggleFavorite(item.dataType.type);
+                        }}
+                      >
+                        {isFavorite ? '★' : '☆'}
+                      </button>
+                    </li>
+                  );
+                })}
+              </ul>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <span className="data-type-combobox-error">{error}</span>}
+    </div>
+  );
+};
+
+export default DataTypeCombobox;
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Button } from '../../common/Button';
+import useApiQuery from './useApiQuery';
+import { queryKeys } from './query-cache';
+import { previewDataType } from './data-type-api';
+import { ConstraintValues } from './constraint-schema';
+import './DataTypePreview.css';
+
+interface DataTypePreviewProps {
+  type: string;
+  constraints: ConstraintValues;
+  count?: number;
+  disabled?: boolean;
+}
+
+const newSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+/**
+ * Sample values from one generator, refreshed as the constraints change.
+ */
+const DataTypePreview: React.FC<DataTypePreviewProps> = ({
+  type,
+  constraints,
+  count = 10,
+  disabled = false
+}) => {
+  // The same seed gives the same samples; re-rolling picks a new one
+  const [seed, setSeed] = useState(newSeed);
+
+  const request = { type, constraints, count, seed };
+
+  const {
+    data: previewData,
+    isLoading,
+    isFetching,
+    error
+  } = useApiQuery(
+    [...queryKeys.dataTypePreview, request],
+    signal => previewDataType(request, signal),
+    { enabled: Boolean(type) && !disabled, debounceMs: 400, staleTime: Infinity }
+  );
+
+  const values = previewData?.data?.values || [];
+
+  return (
+    <div className="data-type-preview">
+      <div className="data-type-preview-header">
+        <h5>Sample Values</h5>
+        <Button
+          variant="text"
+          size="small"
+          icon="refresh-cw"
+          onClick={() => setSeed(newSeed())}
+          disabled={disabled || isFetching}
+        >
+          Re-roll
+        </Button>
+      </div>
+
+      {disabled ? (
+        <p className="data-type-preview-message">Fix the constraint errors to see sample values.</p>
+      ) : error ? (
+        <p className="data-type-preview-message error">{error}</p>
+      ) : isLoading ? (
+        <p className="data-type-preview-message">Generating samples...</p>
+      ) : (
+        <ol className={`data-type-preview-values ${isFetching ? 'is-refreshing' : ''}`}>
+          {values.map((sample, index) => (
+            <li key={index}>
+              {sample === '' ? <span className="data-type-preview-empty">(empty)</span> : sample}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default DataTypePreview;
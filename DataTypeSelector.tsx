@@ -1,111 +1,146 @@
-import React, { useEffect, useState } from 'react';
-import { getDataTypes } from '../../../api/template-api';
+import React, { useEffect, useState, useMemo } from 'react';
 import { Card } from '../../common/Card';
-import { Select } from '../../common/Select';
 import { Alert } from '../../common/Alert';
 import { Badge } from '../../common/Badge';
-import useApi from '../../../hooks/useApi';
+import { DataTypeMetadata, useDataTypes } from './DataTypesContext';
+import DataTypeCombobox from './DataTypeCombobox';
+import ConstraintEditor from './ConstraintEditor';
+import DataTypePreview from './DataTypePreview';
+import DataTypeStatusBadge from './DataTypeStatusBadge';
+import DerivedColumnEditor from './DerivedColumnEditor';
+import ReferenceColumnEditor from './ReferenceColumnEditor';
+import DistributionEditor from './DistributionEditor';
+import { ColumnDistribution } from './value-distribution';
+import { REFERENCE_COLUMN_TYPE } from './template-references';
+import { ColumnReference, DERIVED_COLUMN_TYPE, EXPRESSION_CONSTRAINT } from './column-dependencies';
+import { getDataTypeIssue, mapConstraints } from './type-migration';
+import {
+  ConstraintValues,
+  getConstraintSchema,
+  getDefaultConstraintValues,
+  validateConstraints
+} from './constraint-schema';
 import './DataTypeSelector.css';
 
-export interface DataTypeMetadata {
-  type: string;
-  displayName: string;
-  category: string;
-  description: string;
-  constraintsMetadata: Record<string, string>;
-}
+export type { DataTypeMetadata } from './DataTypesContext';
 
-interface DataTypeOptionGroup {
-  label: string;
-  options: {
-    value: string;
-    label: string;
-  }[];
-}
+// Shared fallbacks, so the editors below see the same object on every render
+const EMPTY_CONSTRAINTS: ConstraintValues = Object.freeze({});
+const NO_COLUMNS: ColumnReference[] = [];
 
 interface DataTypeSelectorProps {
   value: string;
   onChange: (type: string) => void;
   onMetadataChange?: (metadata: DataTypeMetadata | null) => void;
   showDetails?: boolean;
+  /** Keep the details hidden until the user picks a type */
+  detailsOnSelect?: boolean;
+  /** Signed-in user, whose favorites and recent types are remembered in this browser */
+  userId?: string;
+  /** Offers the most likely types for this column name as one-click chips */
+  columnName?: string;
+  sampleValues?: string[];
+  constraints?: ConstraintValues;
+  /** Makes the constraints editable; they are reset to the generator's defaults on type change */
+  onConstraintsChange?: (constraints: ConstraintValues) => void;
+  onConstraintErrorsChange?: (errors: Record<string, string>) => void;
+  /** Columns a derived column's expression may use */
+  templateColumns?: ColumnReference[];
+  /** Template of this column, which a reference column may not point at */
+  templateId?: string;
+  distribution?: ColumnDistribution | null;
+  /** Adds the distribution and null settings, both cleared on type change */
+  onDistributionChange?: (distribution: ColumnDistribution | null) => void;
+  isNullable?: boolean;
+  nullProbability?: number;
+  onNullSettingsChange?: (isNullable: boolean, nullProbability: number) => void;
+  onDistributionErrorsChange?: (errors: Record<string, string>) => void;
 }
 
-const DataTypeSelector: React.FC<DataTypeSelectorProps> = ({
+/**
+ * Data type picker for a column, with the details and settings of the chosen
+ * type. The registry comes from the surrounding DataTypesProvider, so every
+ * row shares the same data.
+ */
+export const DataTypeSelector: React.FC<DataTypeSelectorProps> = ({
   value,
   onChange,
   onMetadataChange,
   showDetails = true,
+  detailsOnSelect = false,
+  userId,
+  columnName,
+  sampleValues,
+  constraints,
+  onConstraintsChange,
+  onConstraintErrorsChange,
+  templateColumns = NO_COLUMNS,
+  templateId,
+  distribution = null,
+  onDistributionChange,
+  isNullable = false,
+  nullProbability = 0,
+  onNullSettingsChange,
+  onDistributionErrorsChange,
 }) => {
-  const [dataTypeOptions, setDataTypeOptions] = useState<DataTypeOptionGroup[]>([]);
-  const [selectedTypeMetadata, setSelectedTypeMetadata] = useState<DataTypeMetadata | null>(null);
-  
-  const {
-    data: dataTypesData,
-    isLoading,
-    error,
-    execute: fetchDataTypes,
-  } = useApi(getDataTypes, [], { immediate: true });
+  const { getDataType, suggestDataTypes, isLoading, error } = useDataTypes();
+  const [hasSelected, setHasSelected] = useState(false);
+
+  const selectedTypeMetadata = value ? getDataType(value) : null;
+  const constraintSchema = useMemo(() => getConstraintSchema(selectedTypeMetadata), [selectedTypeMetadata]);
+  const suggestions = useMemo(
+    () => columnName ? suggestDataTypes(columnName, sampleValues) : [],
+    [columnName, sampleValues, suggestDataTypes]
+  );
+  const typeIssue = value && !isLoading && !error ? getDataTypeIssue(value, selectedTypeMetadata) : null;
+  const replacementMetadata = typeIssue?.replacedBy ? getDataType(typeIssue.replacedBy) : null;
+  const hasConstraintErrors = useMemo(
+    () => Object.keys(validateConstraints(constraintSchema, constraints || EMPTY_CONSTRAINTS)).length > 0,
+    [constraintSchema, constraints]
+  );
 
   useEffect(() => {
-    if (dataTypesData?.data) {
-      // Group data types by category
-      const groupedOptions: Record<string, DataTypeOptionGroup> = {};
-      
-      dataTypesData.data.forEach((dataType: DataTypeMetadata) => {
-        const category = dataType.category || 'Other';
-        
-        if (!groupedOptions[category]) {
-          groupedOptions[category] = {
-            label: category,
-            options: [],
-          };
-        }
-        
-        groupedOptions[category].options.push({
-          value: dataType.type,
-          label: dataType.displayName,
-        });
-      });
-      
-      // Sort options within each group
-      Object.values(groupedOptions).forEach(group => {
-        group.options.sort((a, b) => a.label.localeCompare(b.label));
-      });
-      
-      // Sort groups by category name
-      const sortedGroups = Object.values(groupedOptions).sort((a, b) => 
-        a.label.localeCompare(b.label)
-      );
-      
-      setDataTypeOptions(sortedGroups);
-      
-      // Find and set metadata for currently selected type
-      if (value) {
-        const selectedType = dataTypesData.data.find(
-          (dataType: DataTypeMetadata) => dataType.type === value
-        );
-        setSelectedTypeMetadata(selectedType || null);
-        if (onMetadataChange) {
-          onMetadataChange(selectedType || null);
-        }
-      }
+    if (onMetadataChange && value) {
+      onMetadataChange(selectedTypeMetadata);
     }
-  }, [dataTypesData, value, onMetadataChange]);
-  
+  }, [selectedTypeMetadata, value, onMetadataChange]);
+
   const handleTypeChange = (selectedValue: string) => {
     onChange(selectedValue);
-    
-    if (dataTypesData?.data) {
-      const selectedType = dataTypesData.data.find(
-        (dataType: DataTypeMetadata) => dataType.type === selectedValue
-      );
-      setSelectedTypeMetadata(selectedType || null);
-      if (onMetadataChange) {
-        onMetadataChange(selectedType || null);
-      }
+    setHasSelected(true);
+
+    // Picking the current type again keeps what was already set up for it
+    if (selectedValue === value) return;
+
+    if (onConstraintsChange) {
+      onConstraintsChange(getDefaultConstraintValues(getConstraintSchema(getDataType(selectedValue))));
+    }
+    if (onDistributionChange) {
+      onDistributionChange(null);
+    }
+    if (onNullSettingsChange) {
+      onNullSettingsChange(false, 0);
     }
   };
-  
+
+  // Keep whatever constraints the successor understands
+  const handleReplace = () => {
+    if (!replacementMetadata) return;
+
+    onChange(replacementMetadata.type);
+    setHasSelected(true);
+
+    if (onConstraintsChange) {
+      const mapping = selectedTypeMetadata?.deprecation?.constraintMapping;
+      onConstraintsChange(mapConstraints(constraints || EMPTY_CONSTRAINTS, replacementMetadata, mapping).constraints);
+    }
+  };
+
+  const isDerived = value === DERIVED_COLUMN_TYPE;
+  const isReference = value === REFERENCE_COLUMN_TYPE;
+
+  const isDetailsVisible = showDetails && (!detailsOnSelect || hasSelected);
+
   return (
     <div className="data-type-selector">
       {error && (
@@ -113,40 +148,120 @@ const DataTypeSelector: React.FC<DataTypeSelectorProps> = ({
           Failed to load data types: {error}
         </Alert>
       )}
-      
-      <Select
-        label="Data Type"
+
+      {suggestions.length > 0 && (
+        <div className="data-type-suggestions">
+          <span className="data-type-suggestions-label">Suggested:</span>
+          {suggestions.map(suggestion => (
+            <button
+              key={suggestion.type}
+              type="button"
+              className={`data-type-suggestion ${suggestion.type === value ? 'active' : ''}`}
+              title={suggestion.reasons.join('; ')}
+              onClick={() => handleTypeChange(suggestion.type)}
+            >
+              {getDataType(suggestion.type)?.displayName || suggestion.type}
+              <span className="data-type-suggestion-confidence">
+                {Math.round(suggestion.confidence * 100)}%
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {typeIssue && (
+        <Alert type="warning" className="data-type-issue">
+          {typeIssue.message}.
+          {typeIssue.kind === 'UNKNOWN' && ' Generation will fail until another type is chosen.'}
+          {replacementMetadata && (
+            <button type="button" className="data-type-issue-replace" onClick={handleReplace}>
+              Switch to {replacementMetadata.displayName}
+            </button>
+          )}
+        </Alert>
+      )}
+
+      <DataTypeCombobox
         value={value}
         onChange={handleTypeChange}
-        options={dataTypeOptions}
-        isLoading={isLoading}
-        placeholder="Select a data type..."
+        userId={userId}
         required
       />
-      
-      {showDetails && selectedTypeMetadata && (
+
+      {isDetailsVisible && selectedTypeMetadata && (
         <Card className="data-type-details mt-4">
           <div className="data-type-header">
-            <h4 className="data-type-name">{selectedTypeMetadata.displayName}</h4>
+            <h4 className="data-type-name">
+              {selectedTypeMetadata.displayName} <DataTypeStatusBadge type={selectedTypeMetadata.type} />
+            </h4>
             <Badge color="primary">{selectedTypeMetadata.category}</Badge>
           </div>
-          
+
           <p className="data-type-description">{selectedTypeMetadata.description}</p>
-          
-          {Object.keys(selectedTypeMetadata.constraintsMetadata).length > 0 && (
+
+          {!onConstraintsChange && constraintSchema.length > 0 && (
             <div className="data-type-constraints">
               <h5>Available Constraints:</h5>
               <ul>
-                {Object.entries(selectedTypeMetadata.constraintsMetadata).map(([key, description]) => (
-                  <li key={key}>
-                    <strong>{key}</strong>: {description}
+                {constraintSchema.map(definition => (
+                  <li key={definition.name}>
+                    <strong>{definition.name}</strong> ({definition.kind}{definition.required ? ', required' : ''})
+                    {definition.description && `: ${definition.description}`}
                   </li>
                 ))}
               </ul>
             </div>
           )}
+
+          {/* Derived and referenced values come from other columns, so there is nothing to sample */}
+          {!isDerived && !isReference && (
+            <DataTypePreview
+              type={selectedTypeMetadata.type}
+              constraints={constraints || EMPTY_CONSTRAINTS}
+              disabled={hasConstraintErrors}
+            />
+          )}
         </Card>
       )}
+
+      {onConstraintsChange && isDerived && (
+        <DerivedColumnEditor
+          columnName={columnName || ''}
+          expression={String(constraints?.[EXPRESSION_CONSTRAINT] || '')}
+          onChange={expression => onConstraintsChange({ ...constraints, [EXPRESSION_CONSTRAINT]: expression })}
+          columns={templateColumns}
+          onValidationChange={onConstraintErrorsChange}
+        />
+      )}
+
+      {onConstraintsChange && isReference && (
+        <ReferenceColumnEditor
+          constraints={constraints || EMPTY_CONSTRAINTS}
+          onChange={onConstraintsChange}
+          templateId={templateId}
+          onValidationChange={onConstraintErrorsChange}
+        />
+      )}
+
+      {onConstraintsChange && !isDerived && !isReference && (
+        <ConstraintEditor
+          schema={constraintSchema}
+          value={constraints || EMPTY_CONSTRAINTS}
+          onChange={onConstraintsChange}
+          onValidationChange={onConstraintErrorsChange}
+        />
+      )}
+
+      {onDistributionChange && onNullSettingsChange && !isDerived && !isReference && (
+        <DistributionEditor
+          distribution={distribution}
+          onChange={onDistributionChange}
+          isNullable={isNullable}
+          nullProbability={nullProbability}
+          onNullSettingsChange={onNullSettingsChange}
+          onValidationChange={onDistributionErrorsChange}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,31 @@
+import React from 'react';
+import { Badge } from '../../common/Badge';
+import { useDataTypes } from './DataTypesContext';
+import { getDataTypeIssue } from './type-migration';
+
+interface DataTypeStatusBadgeProps {
+  type: string;
+}
+
+/**
+ * Warns on a column whose type is not registered or is deprecated.
+ * Renders nothing for healthy types or while the registry is loading.
+ */
+const DataTypeStatusBadge: React.FC<DataTypeStatusBadgeProps> = ({ type }) => {
+  const { getDataType, isLoading, error } = useDataTypes();
+
+  if (isLoading || error) return null;
+
+  const issue = getDataTypeIssue(type, getDataType(type));
+  if (!issue) return null;
+
+  return (
+    <span className="data-type-status" title={issue.message}>
+      <Badge color={issue.kind === 'UNKNOWN' ? 'danger' : 'warning'}>
+        {issue.kind === 'UNKNOWN' ? 'Unknown type' : 'Deprecated'}
+      </Badge>
+    </span>
+  );
+};
+
+export default DataTypeStatusBadge;
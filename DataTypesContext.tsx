@@ -0,0 +1,249 @@
+import React, { createContext, useContext, useEffect, useMemo, useRef, useCallback, useState } from 'react';
+import { getDataTypes } from '../../../api/template-api';
+import useApiQuery from './useApiQuery';
+import { queryKeys, invalidateQueries } from './query-cache';
+import { getDataTypeRegistryVersion, getTypeInferenceRules } from './data-type-api';
+import { getCustomTypes, toDataTypeMetadata } from './custom-type-api';
+import { ConstraintSchema } from './constraint-schema';
+import { DERIVED_COLUMN_TYPE } from './column-dependencies';
+import { REFERENCE_COLUMN_TYPE } from './template-references';
+import {
+  TypeInferenceRule,
+  TypeSuggestion,
+  DEFAULT_TYPE_INFERENCE_RULES,
+  inferDataTypes
+} from './type-inference';
+
+/**
+ * Set on generators that are scheduled for removal. `constraintMapping`
+ * renames constraints for the `replacedBy` generator where they differ.
+ */
+export interface DataTypeDeprecation {
+  message?: string;
+  since?: string;
+  replacedBy?: string;
+  constraintMapping?: Record<string, string>;
+}
+
+export interface DataTypeMetadata {
+  type: string;
+  displayName: string;
+  category: string;
+  description: string;
+  constraintsMetadata: Record<string, string>;
+  constraintSchema?: ConstraintSchema;
+  deprecation?: DataTypeDeprecation;
+}
+
+export interface DataTypeCategory {
+  label: string;
+  dataTypes: DataTypeMetadata[];
+}
+
+interface DataTypesContextValue {
+  dataTypes: DataTypeMetadata[];
+  categories: DataTypeCategory[];
+  getDataType: (type: string) => DataTypeMetadata | null;
+  getDataTypesByCategory: (category: string) => DataTypeMetadata[];
+  inferenceRules: TypeInferenceRule[];
+  suggestDataTypes: (columnName: string, sampleValues?: string[]) => TypeSuggestion[];
+  isLoading: boolean;
+  error: string | null;
+  refresh: () => void;
+}
+
+interface DataTypesProviderProps {
+  children: React.ReactNode;
+  versionCheckInterval?: number;
+}
+
+export const TEMPLATE_COLUMN_CATEGORY = 'Template';
+
+// Column types the generator resolves itself instead of through a registered
+// DataGenerator, listed so they can be picked and described like the others
+const TEMPLATE_COLUMN_TYPES: DataTypeMetadata[] = [
+  {
+    type: DERIVED_COLUMN_TYPE,
+    displayName: 'Derived',
+    category: TEMPLATE_COLUMN_CATEGORY,
+    description: 'Computed from other columns of the same row with an expression.',
+    constraintsMetadata: {}
+  },
+  {
+    type: REFERENCE_COLUMN_TYPE,
+    displayName: 'Reference',
+    category: TEMPLATE_COLUMN_CATEGORY,
+    description: 'Takes its values from a column of another template generated in the same batch.',
+    constraintsMetadata: {}
+  }
+];
+
+const DataTypesContext = createContext<DataTypesContextValue | null>(null);
+
+/**
+ * The registry endpoint has returned both a list and a map keyed by type,
+ * so accept either.
+ */
+const normalizeDataTypes = (
+  data: DataTypeMetadata[] | Record<string, DataTypeMetadata> | undefined
+): DataTypeMetadata[] => {
+  if (!data) return [];
+  if (Array.isArray(data)) return data;
+
+  return Object.entries(data).map(([type, dataType]) => ({
+    ...dataType,
+    type: dataType.type || type,
+    displayName: dataType.displayName || type,
+    constraintsMetadata: dataType.constraintsMetadata || {}
+  }));
+};
+
+/**
+ * Group data types by category, sorting categories and the types in them by name.
+ */
+const groupByCategory = (dataTypes: DataTypeMetadata[]): DataTypeCategory[] => {
+  const grouped: Record<string, DataTypeMetadata[]> = {};
+
+  dataTypes.forEach(dataType => {
+    const category = dataType.category || 'Other';
+    if (!grouped[category]) {
+      grouped[category] = [];
+    }
+    grouped[category].push(dataType);
+  });
+
+  return Object.entries(grouped)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([label, types]) => ({
+      label,
+      dataTypes: [...types].sort((a, b) => a.displayName.localeCompare(b.displayName))
+    }));
+};
+
+/**
+ * Read the data type registry and the custom types through the shared query
+ * cache. With `enabled` off, only data that is already cached is used.
+ */
+const useDataTypeRegistry = (enabled: boolean): DataTypesContextValue => {
+  const {
+    data: dataTypesData,
+    isLoading,
+    error
+  } = useApiQuery(queryKeys.dataTypes, () => getDataTypes(), { enabled, staleTime: Infinity });
+
+  // Fall back to the built-in rules until the shared ones load, or if they can't
+  const { data: rulesData } = useApiQuery(queryKeys.typeInferenceRules, signal => getTypeInferenceRules(signal), {
+    enabled,
+    staleTime: Infinity
+  });
+
+  // Custom types live alongside the generators under their own category
+  const { data: customTypesData } = useApiQuery(queryKeys.customTypes, signal => getCustomTypes(signal), {
+    enabled,
+    staleTime: Infinity
+  });
+
+  const refresh = useCallback(() => {
+    invalidateQueries(queryKeys.dataTypes);
+    invalidateQueries(queryKeys.customTypes);
+  }, []);
+
+  return useMemo<DataTypesContextValue>(() => {
+    const registered = normalizeDataTypes(dataTypesData?.data);
+    const registeredTypes = new Set(registered.map(dataType => dataType.type));
+    const builtIn = [
+      ...registered,
+      ...TEMPLATE_COLUMN_TYPES.filter(dataType => !registeredTypes.has(dataType.type))
+    ];
+    const builtInTypes = new Set(builtIn.map(dataType => dataType.type));
+    const dataTypes = [
+      ...builtIn,
+      ...(customTypesData?.data || [])
+        .filter(definition => !builtInTypes.has(definition.type))
+        .map(toDataTypeMetadata)
+    ];
+    const categories = groupByCategory(dataTypes);
+    const byType = new Map(dataTypes.map(dataType => [dataType.type, dataType]));
+    const inferenceRules = rulesData?.data?.length ? rulesData.data : DEFAULT_TYPE_INFERENCE_RULES;
+    const availableTypes = dataTypes.map(dataType => dataType.type);
+
+    return {
+      dataTypes,
+      categories,
+      getDataType: (type: string) => byType.get(type) || null,
+      getDataTypesByCategory: (category: string) =>
+        categories.find(group => group.label === category)?.dataTypes || [],
+      inferenceRules,
+      suggestDataTypes: (columnName: string, sampleValues: string[] = []) =>
+        inferDataTypes(inferenceRules, columnName, sampleValues, availableTypes),
+      isLoading,
+      error,
+      refresh
+    };
+  }, [dataTypesData, customTypesData, rulesData, isLoading, error, refresh]);
+};
+
+/**
+ * Loads the data type registry and the custom types once per session and
+ * shares them with every selector below it. The registry version is checked
+ * periodically so newly deployed generators show up without a reload.
+ */
+export const DataTypesProvider: React.FC<DataTypesProviderProps> = ({
+  children,
+  versionCheckInterval = 5 * 60 * 1000
+}) => {
+  const registry = useDataTypeRegistry(true);
+  const { refresh } = registry;
+  const [versionError, setVersionError] = useState<string | null>(null);
+
+  // Reload the registry when the set of deployed generators changes
+  const registryVersionRef = useRef<string | null>(null);
+  useEffect(() => {
+    // A failed check is reported and retried on the next interval
+    const checkVersion = async () => {
+      try {
+        const response = await getDataTypeRegistryVersion();
+        setVersionError(response.error || null);
+
+        const version = response.data?.version;
+        if (!version) return;
+
+        if (registryVersionRef.current && registryVersionRef.current !== version) {
+          refresh();
+        }
+        registryVersionRef.current = version;
+      } catch (err) {
+        setVersionError(err instanceof Error ? err.message : 'Failed to check for new data types');
+      }
+    };
+
+    checkVersion();
+    const timer = setInterval(checkVersion, versionCheckInterval);
+    return () => clearInterval(timer);
+  }, [versionCheckInterval, refresh]);
+
+  const value = useMemo(
+    () => ({ ...registry, error: registry.error || versionError }),
+    [registry, versionError]
+  );
+
+  return (
+    <DataTypesContext.Provider value={value}>
+      {children}
+    </DataTypesContext.Provider>
+  );
+};
+
+/**
+ * Access the shared data type registry. Outside a DataTypesProvider the
+ * registry is loaded here instead; the query cache still fetches it only
+ * once, but there is no periodic version check.
+ */
+export const useDataTypes = (): DataTypesContextValue => {
+  const context = useContext(DataTypesContext);
+  const registry = useDataTypeRegistry(!context);
+
+  return context || registry;
+};
+
+export default DataTypesProvider;
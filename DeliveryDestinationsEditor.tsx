@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { Button } from '../../common/Button';
+import DeliveryDestinationCard from './DeliveryDestinationCard';
+import { DeliveryDestination, DeliveryDestinationType } from './delivery-api';
+import {
+  DELIVERY_DESTINATION_LABELS,
+  PathTemplateContext,
+  createDeliveryDestination
+} from './delivery-destination';
+import './DeliveryDestinationsEditor.css';
+
+interface DeliveryDestinationsEditorProps {
+  destinations: DeliveryDestination[];
+  onChange: (destinations: DeliveryDestination[]) => void;
+  scheduleId?: string;
+  pathContext: PathTemplateContext;
+  showErrors?: boolean;
+}
+
+/**
+ * Where a schedule's runs are delivered, besides the server's own output
+ * directory. Every enabled destination gets each run's file.
+ */
+const DeliveryDestinationsEditor: React.FC<DeliveryDestinationsEditorProps> = ({
+  destinations,
+  onChange,
+  scheduleId,
+  pathContext,
+  showErrors = false
+}) => {
+  const [newType, setNewType] = useState<DeliveryDestinationType>('FOLDER');
+
+  const handleAdd = () => {
+    onChange([...destinations, createDeliveryDestination(newType)]);
+  };
+
+  const handleChange = (index: number, destination: DeliveryDestination) => {
+    onChange(destinations.map((current, currentIndex) => currentIndex === index ? destination : current));
+  };
+
+  const handleRemove = (index: number) => {
+    onChange(destinations.filter((_, currentIndex) => currentIndex !== index));
+  };
+
+  return (
+    <div className="delivery-destinations">
+      {destinations.length === 0 && (
+        <p className="delivery-destinations-empty">
+          Files are only kept in the server's output directory and the run history.
+        </p>
+      )}
+
+      {destinations.map((destination, index) => (
+        <DeliveryDestinationCard
+          key={destination.id || index}
+          destination={destination}
+          onChange={updated => handleChange(index, updated)}
+          onRemove={() => handleRemove(index)}
+          scheduleId={scheduleId}
+          pathContext={pathContext}
+          showErrors={showErrors}
+        />
+      ))}
+
+      <div className="delivery-destinations-add">
+        <select value={newType} onChange={e => setNewType(e.target.value as DeliveryDestinationType)}>
+          {(Object.keys(DELIVERY_DESTINATION_LABELS) as DeliveryDestinationType[]).map(type => (
+            <option key={type} value={type}>{DELIVERY_DESTINATION_LABELS[type]}</option>
+          ))}
+        </select>
+        <Button type="button" variant="outline" size="small" icon="plus" onClick={handleAdd}>
+          Add Destination
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default DeliveryDestinationsEditor;
@@ -0,0 +1,183 @@
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  COLUMN_EXPRESSION_FUNCTIONS,
+  ColumnExpressionError,
+  evaluateColumnExpression,
+  formatExpressionValue,
+  parseColumnExpression,
+  validateColumnExpression
+} from './column-expression';
+import {
+  ColumnReference,
+  DERIVED_COLUMN_TYPE,
+  EXPRESSION_CONSTRAINT,
+  formatColumnCycle,
+  resolveColumnOrder
+} from './column-dependencies';
+import useValidationReport from './useValidationReport';
+import './DerivedColumnEditor.css';
+
+interface DerivedColumnEditorProps {
+  columnName: string;
+  expression: string;
+  onChange: (expression: string) => void;
+  columns: ColumnReference[];
+  onValidationChange?: (errors: Record<string, string>) => void;
+}
+
+// Names that are not plain identifiers have to be quoted with backticks
+const toColumnToken = (name: string) => /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `\`${name}\``;
+
+/**
+ * Expression input for a derived column, with the row's other columns to
+ * insert, a function reference and a sample evaluation. Reports syntax
+ * errors, unknown columns and circular references through
+ * `onValidationChange`, keyed by the expression constraint.
+ */
+const DerivedColumnEditor: React.FC<DerivedColumnEditorProps> = ({
+  columnName,
+  expression,
+  onChange,
+  columns,
+  onValidationChange
+}) => {
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const [sampleRow, setSampleRow] = useState<Record<string, string>>({});
+
+  const otherColumns = useMemo(
+    () => columns.filter(column => column.name !== columnName),
+    [columns, columnName]
+  );
+
+  const validation = useMemo(
+    () => validateColumnExpression(expression, otherColumns.map(column => column.name), columnName),
+    [expression, otherColumns, columnName]
+  );
+
+  // Check the template's columns with this expression in place of the saved one
+  const cycle = useMemo(() => {
+    if (!validation.valid) return null;
+
+    const current: ColumnReference = {
+      name: columnName,
+      type: DERIVED_COLUMN_TYPE,
+      constraints: { [EXPRESSION_CONSTRAINT]: expression }
+    };
+    const { cycles } = resolveColumnOrder([...otherColumns, current]);
+    return cycles.find(members => members.includes(columnName)) || null;
+  }, [validation, otherColumns, columnName, expression]);
+
+  const errors = useMemo(() => {
+    const messages = validation.errors.map(error => error.message);
+    if (cycle) {
+      messages.push(`Circular reference: ${formatColumnCycle(cycle)}`);
+    }
+    return messages;
+  }, [validation, cycle]);
+
+  const errorMessage = errors.join('; ');
+  useValidationReport(errorMessage ? { [EXPRESSION_CONSTRAINT]: errorMessage } : {}, onValidationChange);
+
+  const sampleResult = useMemo(() => {
+    if (errors.length > 0) return null;
+    try {
+      return { value: formatExpressionValue(evaluateColumnExpression(parseColumnExpression(expression), sampleRow)) };
+    } catch (e) {
+      if (e instanceof ColumnExpressionError) return { error: e.message };
+      throw e;
+    }
+  }, [errors, expression, sampleRow]);
+
+  // Insert a column or function at the cursor
+  const insertText = (text: string) => {
+    const input = inputRef.current;
+    const start = input ? input.selectionStart : expression.length;
+    const end = input ? input.selectionEnd : expression.length;
+    onChange(expression.slice(0, start) + text + expression.slice(end));
+
+    if (input) {
+      requestAnimationFrame(() => {
+        input.focus();
+        input.setSelectionRange(start + text.length, start + text.length);
+      });
+    }
+  };
+
+  return (
+    <div className="derived-column-editor">
+      <label htmlFor={`expression-${columnName}`}>Expression</label>
+      <textarea
+        id={`expression-${columnName}`}
+        ref={inputRef}
+        className={`derived-column-expression ${errors.length > 0 ? 'has-error' : ''}`}
+        value={expression}
+        onChange={e => onChange(e.target.value)}
+        placeholder={'lower(firstName) + "." + lower(lastName) + "@example.com"'}
+        rows={3}
+        spellCheck={false}
+      />
+      {errors.map(message => (
+        <p key={message} className="derived-column-error">{message}</p>
+      ))}
+
+      {otherColumns.length > 0 && (
+        <div className="derived-column-references">
+          <span className="derived-column-label">Columns:</span>
+          {otherColumns.map(column => (
+            <button
+              key={column.name}
+              type="button"
+              className={`derived-column-chip ${validation.references.includes(column.name) ? 'used' : ''}`}
+              onClick={() => insertText(toColumnToken(column.name))}
+            >
+              {column.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <details className="derived-column-functions">
+        <summary>Functions and operators</summary>
+        <p>
+          Operators: <code>+ - * / %</code>, <code>== != &lt; &lt;= &gt; &gt;=</code>, <code>&amp;&amp; || !</code>.
+          Adding a duration such as <code>21d</code>, <code>2w</code>, <code>3m</code> or <code>1y</code> to a date
+          moves it; subtracting two dates gives the days between them.
+        </p>
+        <ul>
+          {Object.entries(COLUMN_EXPRESSION_FUNCTIONS).map(([name, fn]) => (
+            <li key={name}>
+              <button type="button" className="derived-column-function" onClick={() => insertText(`${name}(`)}>
+                {name}()
+              </button>
+              <span>{fn.description}</span>
+            </li>
+          ))}
+        </ul>
+      </details>
+
+      {validation.references.length > 0 && errors.length === 0 && (
+        <div className="derived-column-sample">
+          <h5>Try it</h5>
+          <div className="derived-column-sample-inputs">
+            {validation.references.map(name => (
+              <label key={name}>
+                <span>{name}</span>
+                <input
+                  value={sampleRow[name] || ''}
+                  onChange={e => setSampleRow(prev => ({ ...prev, [name]: e.target.value }))}
+                />
+              </label>
+            ))}
+          </div>
+          {sampleResult && (
+            <p className={`derived-column-sample-result ${sampleResult.error ? 'error' : ''}`}>
+              {sampleResult.error ? sampleResult.error : <>Result: <code>{sampleResult.value || '(empty)'}</code></>}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DerivedColumnEditor;
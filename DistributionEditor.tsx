@@ -0,0 +1,243 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '../../common/Button';
+import {
+  ColumnDistribution,
+  DateClusterAnchor,
+  DistributionKind,
+  DISTRIBUTION_KIND_LABELS,
+  DATE_CLUSTER_ANCHOR_LABELS,
+  createDistribution,
+  validateDistribution,
+  sampleDistribution,
+  buildHistogram
+} from './value-distribution';
+import useValidationReport from './useValidationReport';
+import './DistributionEditor.css';
+
+interface DistributionEditorProps {
+  distribution: ColumnDistribution | null;
+  onChange: (distribution: ColumnDistribution | null) => void;
+  isNullable: boolean;
+  nullProbability: number;
+  onNullSettingsChange: (isNullable: boolean, nullProbability: number) => void;
+  onValidationChange?: (errors: Record<string, string>) => void;
+}
+
+const PREVIEW_SAMPLE_COUNT = 1000;
+
+const newSeed = () => Math.floor(Math.random() * 2 ** 31);
+
+/**
+ * Shapes the values of a column: a distribution in place of the generator's
+ * own, the share of nulls and a histogram of what that produces. Without a
+ * distribution the generator's defaults apply.
+ */
+const DistributionEditor: React.FC<DistributionEditorProps> = ({
+  distribution,
+  onChange,
+  isNullable,
+  nullProbability,
+  onNullSettingsChange,
+  onValidationChange
+}) => {
+  const [seed, setSeed] = useState(newSeed);
+
+  const errors = useMemo(() => {
+    const validation = distribution ? validateDistribution(distribution) : {};
+    if (isNullable && (isNaN(nullProbability) || nullProbability < 0 || nullProbability > 1)) {
+      validation.nullProbability = 'Null probability must be between 0 and 1';
+    }
+    return validation;
+  }, [distribution, isNullable, nullProbability]);
+
+  useValidationReport(errors, onValidationChange);
+
+  const histogram = useMemo(() => {
+    if (!distribution || Object.keys(errors).length > 0) return [];
+    const samples = sampleDistribution(
+      distribution,
+      PREVIEW_SAMPLE_COUNT,
+      seed,
+      isNullable ? nullProbability : 0
+    );
+    return buildHistogram(distribution, samples);
+  }, [distribution, errors, seed, isNullable, nullProbability]);
+
+  const largestBin = Math.max(1, ...histogram.map(bin => bin.count));
+
+  const update = (changes: Partial<ColumnDistribution>) => {
+    if (distribution) {
+      onChange({ ...distribution, ...changes } as ColumnDistribution);
+    }
+  };
+
+  const handleKindChange = (kind: string) => {
+    onChange(kind ? createDistribution(kind as DistributionKind) : null);
+  };
+
+  const numberField = (name: string, label: string, value: number | undefined, props: Record<string, string> = {}) => (
+    <label className="distribution-field">
+      <span>{label}</span>
+      <input
+        type="number"
+        value={value === undefined || isNaN(value) ? '' : value}
+        onChange={e => update({ [name]: parseFloat(e.target.value) } as Partial<ColumnDistribution>)}
+        className={errors[name] ? 'has-error' : ''}
+        {...props}
+      />
+      {errors[name] && <span className="distribution-error">{errors[name]}</span>}
+    </label>
+  );
+
+  return (
+    <div className="distribution-editor">
+      <div className="distribution-fields">
+        <label className="distribution-field">
+          <span>Distribution</span>
+          <select value={distribution?.kind || ''} onChange={e => handleKindChange(e.target.value)}>
+            <option value="">Generator default</option>
+            {(Object.keys(DISTRIBUTION_KIND_LABELS) as DistributionKind[]).map(kind => (
+              <option key={kind} value={kind}>{DISTRIBUTION_KIND_LABELS[kind]}</option>
+            ))}
+          </select>
+        </label>
+
+        <label className="distribution-field distribution-nullable">
+          <span>Nulls</span>
+          <span className="distribution-null-controls">
+            <input
+              type="checkbox"
+              checked={isNullable}
+              onChange={e => onNullSettingsChange(e.target.checked, nullProbability)}
+            />
+            <input
+              type="range"
+              min="0"
+              max="1"
+              step="0.01"
+              value={nullProbability}
+              disabled={!isNullable}
+              onChange={e => onNullSettingsChange(isNullable, parseFloat(e.target.value))}
+            />
+            <span>{isNullable ? `${Math.round(nullProbability * 100)}%` : 'Never'}</span>
+          </span>
+          {errors.nullProbability && <span className="distribution-error">{errors.nullProbability}</span>}
+        </label>
+      </div>
+
+      {distribution && (distribution.kind === 'UNIFORM' || distribution.kind === 'NORMAL' || distribution.kind === 'SKEWED') && (
+        <div className="distribution-fields">
+          {numberField('min', 'Min', distribution.min)}
+          {numberField('max', 'Max', distribution.max)}
+          {distribution.kind === 'NORMAL' && numberField('mean', 'Mean', distribution.mean)}
+          {distribution.kind === 'NORMAL' &&
+            numberField('standardDeviation', 'Standard Deviation', distribution.standardDeviation, { min: '0' })}
+          {distribution.kind === 'SKEWED' && (
+            numberField('skew', 'Skew (-1 to 1)', distribution.skew, { min: '-1', max: '1', step: '0.1' })
+          )}
+          {numberField('decimals', 'Decimals', distribution.decimals, { min: '0', max: '10' })}
+        </div>
+      )}
+
+      {distribution?.kind === 'CATEGORICAL' && (
+        <div className="distribution-values">
+          {distribution.values.map((item, index) => (
+            <div key={index} className="distribution-value-row">
+              <input
+                value={item.value}
+                placeholder="Value"
+                onChange={e => update({
+                  values: distribution.values.map((current, currentIndex) =>
+                    currentIndex === index ? { ...current, value: e.target.value } : current)
+                })}
+              />
+              <input
+                type="number"
+                min="0"
+                step="any"
+                value={isNaN(item.weight) ? '' : item.weight}
+                onChange={e => update({
+                  values: distribution.values.map((current, currentIndex) =>
+                    currentIndex === index ? { ...current, weight: parseFloat(e.target.value) } : current)
+                })}
+              />
+              <Button
+                type="button"
+                variant="icon"
+                icon="trash"
+                title="Remove value"
+                disabled={distribution.values.length === 1}
+                onClick={() => update({ values: distribution.values.filter((_, currentIndex) => currentIndex !== index) })}
+              />
+            </div>
+          ))}
+          {errors.values && <span className="distribution-error">{errors.values}</span>}
+          <Button
+            type="button"
+            variant="text"
+            size="small"
+            icon="plus"
+            onClick={() => update({ values: [...distribution.values, { value: '', weight: 1 }] })}
+          >
+            Add Value
+          </Button>
+        </div>
+      )}
+
+      {distribution?.kind === 'DATE_CLUSTER' && (
+        <div className="distribution-fields">
+          <label className="distribution-field">
+            <span>Start</span>
+            <input type="date" value={distribution.start} onChange={e => update({ start: e.target.value })} />
+            {errors.start && <span className="distribution-error">{errors.start}</span>}
+          </label>
+          <label className="distribution-field">
+            <span>End</span>
+            <input type="date" value={distribution.end} onChange={e => update({ end: e.target.value })} />
+            {errors.end && <span className="distribution-error">{errors.end}</span>}
+          </label>
+          <label className="distribution-field">
+            <span>Cluster Around</span>
+            <select
+              value={distribution.anchor}
+              onChange={e => update({ anchor: e.target.value as DateClusterAnchor })}
+            >
+              {(Object.keys(DATE_CLUSTER_ANCHOR_LABELS) as DateClusterAnchor[]).map(anchor => (
+                <option key={anchor} value={anchor}>{DATE_CLUSTER_ANCHOR_LABELS[anchor]}</option>
+              ))}
+            </select>
+          </label>
+          {numberField('windowDays', 'Window (days)', distribution.windowDays, { min: '1', max: '15' })}
+          {numberField('strength', 'Share in Cluster (0-1)', distribution.strength, { min: '0', max: '1', step: '0.05' })}
+        </div>
+      )}
+
+      {histogram.length > 0 && (
+        <div className="distribution-preview">
+          <div className="distribution-preview-header">
+            <h5>
+              {distribution?.kind === 'DATE_CLUSTER' ? 'Day of month' : 'Distribution'} of{' '}
+              {PREVIEW_SAMPLE_COUNT.toLocaleString()} samples
+            </h5>
+            <Button variant="text" size="small" icon="refresh-cw" onClick={() => setSeed(newSeed())}>
+              Re-roll
+            </Button>
+          </div>
+          <div className="distribution-histogram" role="img" aria-label="Histogram of sample values">
+            {histogram.map(bin => (
+              <div key={bin.label} className="distribution-bin" title={`${bin.label}: ${bin.count}`}>
+                <div
+                  className={`distribution-bar ${bin.label === 'null' ? 'null' : ''}`}
+                  style={{ height: `${(bin.count / largestBin) * 100}%` }}
+                />
+                <span className="distribution-bin-label">{bin.label}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DistributionEditor;
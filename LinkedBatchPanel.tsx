@@ -0,0 +1,196 @@
+import React, { useMemo } from 'react';
+import { getTemplates } from '../../../api/template-api';
+import { Card } from '../../common/Card';
+import { Button } from '../../common/Button';
+import { Table } from '../../common/Table';
+import { Alert } from '../../common/Alert';
+import useApiQuery from './useApiQuery';
+import useApiMutation from './useApiMutation';
+import { queryKeys } from './query-cache';
+import { formatCycle } from './dependency-order';
+import { BatchTemplate, BatchRowPlan, planLinkedBatch } from './template-references';
+import { generateLinkedBatch, getLinkedBatchDownloadUrl } from './linked-batch-api';
+import './LinkedBatchPanel.css';
+
+interface LinkedBatchPanelProps {
+  templateIds: string[];
+  rowCount: number;
+  outputFormat: string;
+  onAddTemplate?: (templateId: string) => void;
+}
+
+interface PlanRow {
+  id: string;
+  position: number;
+  template: BatchTemplate;
+  rows: BatchRowPlan;
+}
+
+/**
+ * Generation plan for a batch whose templates reference each other: the
+ * order they run in and how many rows each gets. Missing referenced
+ * templates and reference cycles block generation.
+ */
+const LinkedBatchPanel: React.FC<LinkedBatchPanelProps> = ({
+  templateIds,
+  rowCount,
+  outputFormat,
+  onAddTemplate
+}) => {
+  // API hooks
+  const {
+    data: templatesData,
+    isLoading,
+    error: templatesError
+  } = useApiQuery(queryKeys.templates, () => getTemplates());
+
+  const {
+    data: batchData,
+    isLoading: isGenerating,
+    error: generateError,
+    execute: executeGenerate
+  } = useApiMutation(generateLinkedBatch);
+
+  const templates: BatchTemplate[] = useMemo(
+    () => (templatesData?.data || []).map((template: BatchTemplate) => ({
+      ...template,
+      id: String(template.id)
+    })),
+    [templatesData]
+  );
+
+  const templateName = (id: string) => templates.find(template => template.id === id)?.name || `Template ${id}`;
+
+  const plan = useMemo(() => {
+    const selected = templates.filter(template => templateIds.includes(template.id));
+    return planLinkedBatch(selected, rowCount);
+  }, [templates, templateIds, rowCount]);
+
+  const planRows: PlanRow[] = plan.order.map((id, index) => ({
+    id,
+    position: index + 1,
+    template: templates.find(template => template.id === id)!,
+    rows: plan.rows[id]
+  }));
+
+  const missingTemplateIds = Array.from(new Set(plan.missing.map(item => item.referencedTemplateId)));
+  const canGenerate = templateIds.length > 0 && plan.cycles.length === 0 && plan.missing.length === 0;
+
+  const handleGenerate = () => {
+    executeGenerate({ templateIds: plan.order, rowCount, outputFormat });
+  };
+
+  const describeRows = (rows: BatchRowPlan) => {
+    if (rows.kind === 'FIXED') return rows.rows.toLocaleString();
+    if (rows.min === rows.max) return rows.min.toLocaleString();
+    return `${rows.min.toLocaleString()}–${rows.max.toLocaleString()}`;
+  };
+
+  const columns = [
+    {
+      header: '#',
+      accessor: 'position',
+      cell: (row: PlanRow) => row.position
+    },
+    {
+      header: 'Template',
+      accessor: 'template',
+      cell: (row: PlanRow) => row.template.name
+    },
+    {
+      header: 'Rows',
+      accessor: 'rows',
+      cell: (row: PlanRow) => describeRows(row.rows)
+    },
+    {
+      header: 'Values From',
+      accessor: 'reference',
+      cell: (row: PlanRow) => row.rows.kind === 'RANGE' ? (
+        <span className="linked-batch-reference">
+          <code>{row.rows.reference.column}</code> → {templateName(row.rows.parentId)}.
+          <code>{row.rows.reference.referencedColumn}</code>
+          {row.rows.reference.cardinality === 'ONE_TO_ONE'
+            ? ' (1:1)'
+            : ` (1:${row.rows.reference.minChildren}–${row.rows.reference.maxChildren})`}
+        </span>
+      ) : '—'
+    }
+  ];
+
+  if (isLoading) {
+    return <div className="loading">Loading...</div>;
+  }
+
+  return (
+    <Card className="linked-batch-panel">
+      <h3>Linked Generation</h3>
+
+      {(templatesError || generateError) && (
+        <Alert type="error" className="mb-4">
+          {templatesError || generateError}
+        </Alert>
+      )}
+
+      {missingTemplateIds.length > 0 && (
+        <Alert type="warning" className="mb-4">
+          Some columns reference templates that are not in this batch:
+          <ul className="linked-batch-missing">
+            {missingTemplateIds.map(id => (
+              <li key={id}>
+                {templateName(id)}, used by{' '}
+                {plan.missing
+                  .filter(item => item.referencedTemplateId === id)
+                  .map(item => `${templateName(item.templateId)}.${item.column}`)
+                  .join(', ')}
+                {onAddTemplate && templates.some(template => template.id === id) && (
+                  <Button variant="text" size="small" onClick={() => onAddTemplate(id)}>
+                    Add to batch
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </Alert>
+      )}
+
+      {plan.cycles.length > 0 && (
+        <Alert type="error" className="mb-4">
+          These templates reference each other and cannot be generated:{' '}
+          {plan.cycles.map(cycle => formatCycle(cycle.map(templateName))).join('; ')}
+        </Alert>
+      )}
+
+      <Table
+        columns={columns}
+        data={planRows}
+        emptyMessage="Select templates to see the generation order"
+      />
+
+      <div className="linked-batch-actions">
+        <Button
+          variant="primary"
+          icon="download"
+          onClick={handleGenerate}
+          isLoading={isGenerating}
+          disabled={!canGenerate}
+        >
+          Generate Linked Set
+        </Button>
+      </div>
+
+      {batchData?.data && (
+        <div className="linked-batch-result">
+          <p>
+            Generated {batchData.data.files.length} file{batchData.data.files.length === 1 ? '' : 's'}:{' '}
+            {batchData.data.files.map(file => `${file.fileName} (${file.rowCount.toLocaleString()} rows)`).join(', ')}
+          </p>
+          <a href={getLinkedBatchDownloadUrl(batchData.data.batchId)} download={batchData.data.archiveFileName}>
+            Download {batchData.data.archiveFileName}
+          </a>
+        </div>
+      )}
+    </Card>
+  );
+};
+
+export default LinkedBatchPanel;
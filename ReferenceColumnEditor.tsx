@@ -0,0 +1,187 @@
+import React, { useMemo } from 'react';
+import { getTemplates } from '../../../api/template-api';
+import useApiQuery from './useApiQuery';
+import { queryKeys } from './query-cache';
+import { ConstraintValues } from './constraint-schema';
+import {
+  BatchTemplate,
+  REFERENCE_CONSTRAINTS,
+  ReferenceCardinality,
+  validateReferenceConstraints
+} from './template-references';
+import useValidationReport from './useValidationReport';
+import './ReferenceColumnEditor.css';
+
+interface ReferenceColumnEditorProps {
+  constraints: ConstraintValues;
+  onChange: (constraints: ConstraintValues) => void;
+  templateId?: string;
+  onValidationChange?: (errors: Record<string, string>) => void;
+}
+
+/**
+ * Settings of a reference column: the template and column its values come
+ * from, and how many rows may share each referenced value.
+ */
+const ReferenceColumnEditor: React.FC<ReferenceColumnEditorProps> = ({
+  constraints,
+  onChange,
+  templateId,
+  onValidationChange
+}) => {
+  const {
+    data: templatesData,
+    isLoading,
+    error: templatesError
+  } = useApiQuery(queryKeys.templates, () => getTemplates());
+
+  const templates: BatchTemplate[] = useMemo(
+    () => (templatesData?.data || []).map((template: BatchTemplate) => ({
+      ...template,
+      id: String(template.id)
+    })),
+    [templatesData]
+  );
+
+  const referencedTemplateId = String(constraints[REFERENCE_CONSTRAINTS.templateId] || '');
+  const referencedTemplate = templates.find(template => template.id === referencedTemplateId);
+  const cardinality: ReferenceCardinality =
+    constraints[REFERENCE_CONSTRAINTS.cardinality] === 'ONE_TO_MANY' ? 'ONE_TO_MANY' : 'ONE_TO_ONE';
+
+  const errors = useMemo(
+    () => isLoading ? {} : validateReferenceConstraints(constraints, templates, templateId),
+    [isLoading, constraints, templates, templateId]
+  );
+
+  useValidationReport(errors, onValidationChange);
+
+  const update = (changes: ConstraintValues) => onChange({ ...constraints, ...changes });
+
+  const handleTemplateChange = (id: string) => {
+    // Keep the column when the new template has one of the same name
+    const template = templates.find(candidate => candidate.id === id);
+    const column = constraints[REFERENCE_CONSTRAINTS.column];
+    const keepColumn = template?.columnDefinitions?.some(candidate => candidate.name === column);
+    update({
+      [REFERENCE_CONSTRAINTS.templateId]: id,
+      [REFERENCE_CONSTRAINTS.column]: keepColumn ? column : template?.columnDefinitions?.[0]?.name || ''
+    });
+  };
+
+  const handleCardinalityChange = (value: ReferenceCardinality) => {
+    update(value === 'ONE_TO_MANY'
+      ? {
+        [REFERENCE_CONSTRAINTS.cardinality]: value,
+        [REFERENCE_CONSTRAINTS.minChildren]: constraints[REFERENCE_CONSTRAINTS.minChildren] ?? 1,
+        [REFERENCE_CONSTRAINTS.maxChildren]: constraints[REFERENCE_CONSTRAINTS.maxChildren] ?? 5
+      }
+      : {
+        [REFERENCE_CONSTRAINTS.cardinality]: value,
+        [REFERENCE_CONSTRAINTS.minChildren]: undefined,
+        [REFERENCE_CONSTRAINTS.maxChildren]: undefined
+      });
+  };
+
+  if (isLoading) {
+    return <div className="reference-column-editor loading">Loading templates...</div>;
+  }
+
+  return (
+    <div className="reference-column-editor">
+      {templatesError && <p className="reference-column-error">{templatesError}</p>}
+
+      <div className="reference-column-target">
+        <label>
+          <span>Referenced Template</span>
+          <select
+            value={referencedTemplateId}
+            onChange={e => handleTemplateChange(e.target.value)}
+            className={errors[REFERENCE_CONSTRAINTS.templateId] ? 'has-error' : ''}
+          >
+            <option value="">Select a template...</option>
+            {templates
+              .filter(template => template.id !== templateId)
+              .map(template => (
+                <option key={template.id} value={template.id}>{template.name}</option>
+              ))}
+          </select>
+          {errors[REFERENCE_CONSTRAINTS.templateId] && (
+            <span className="reference-column-error">{errors[REFERENCE_CONSTRAINTS.templateId]}</span>
+          )}
+        </label>
+
+        <label>
+          <span>Referenced Column</span>
+          <select
+            value={String(constraints[REFERENCE_CONSTRAINTS.column] || '')}
+            onChange={e => update({ [REFERENCE_CONSTRAINTS.column]: e.target.value })}
+            disabled={!referencedTemplate}
+            className={errors[REFERENCE_CONSTRAINTS.column] ? 'has-error' : ''}
+          >
+            <option value="">Select a column...</option>
+            {(referencedTemplate?.columnDefinitions || []).map(column => (
+              <option key={column.name} value={column.name}>{column.name} ({column.type})</option>
+            ))}
+          </select>
+          {errors[REFERENCE_CONSTRAINTS.column] && (
+            <span className="reference-column-error">{errors[REFERENCE_CONSTRAINTS.column]}</span>
+          )}
+        </label>
+      </div>
+
+      <fieldset className="reference-column-cardinality">
+        <legend>Cardinality</legend>
+        <label>
+          <input
+            type="radio"
+            checked={cardinality === 'ONE_TO_ONE'}
+            onChange={() => handleCardinalityChange('ONE_TO_ONE')}
+          />
+          One to one — each referenced value is used exactly once
+        </label>
+        <label>
+          <input
+            type="radio"
+            checked={cardinality === 'ONE_TO_MANY'}
+            onChange={() => handleCardinalityChange('ONE_TO_MANY')}
+          />
+          One to many — each referenced value gets several rows
+        </label>
+
+        {cardinality === 'ONE_TO_MANY' && (
+          <div className="reference-column-children">
+            <label>
+              <span>Min children</span>
+              <input
+                type="number"
+                min="0"
+                value={String(constraints[REFERENCE_CONSTRAINTS.minChildren] ?? '')}
+                onChange={e => update({ [REFERENCE_CONSTRAINTS.minChildren]: parseInt(e.target.value, 10) })}
+              />
+            </label>
+            <label>
+              <span>Max children</span>
+              <input
+                type="number"
+                min="1"
+                value={String(constraints[REFERENCE_CONSTRAINTS.maxChildren] ?? '')}
+                onChange={e => update({ [REFERENCE_CONSTRAINTS.maxChildren]: parseInt(e.target.value, 10) })}
+              />
+            </label>
+            {(errors[REFERENCE_CONSTRAINTS.minChildren] || errors[REFERENCE_CONSTRAINTS.maxChildren]) && (
+              <span className="reference-column-error">
+                {errors[REFERENCE_CONSTRAINTS.minChildren] || errors[REFERENCE_CONSTRAINTS.maxChildren]}
+              </span>
+            )}
+          </div>
+        )}
+      </fieldset>
+
+      <p className="reference-column-hint">
+        Both templates must be generated in the same batch. The referenced template is generated first.
+      </p>
+    </div>
+  );
+};
+
+export default ReferenceColumnEditor;
@@ -0,0 +1,216 @@
+import React, { useState, useEffect } from 'react';
+import { Modal } from '../../common/Modal';
+import { Input } from '../../common/Input';
+import { Select } from '../../common/Select';
+import { Button } from '../../common/Button';
+import { Alert } from '../../common/Alert';
+import useApiMutation from './useApiMutation';
+import { queryKeys } from './query-cache';
+import { ScheduleRunOverrides, runScheduleNow } from './schedule-run-api';
+import { parseSeed, validateSeed } from './generation-seed';
+import { FILENAME_PATTERN_TOKENS, validateFilenamePattern } from './filename-pattern';
+import './RunNowModal.css';
+
+interface RunNowModalProps {
+  schedule: {
+    id: string;
+    name: string;
+    rowCount: number;
+    outputFormat: string;
+  } | null;
+  isOpen: boolean;
+  onClose: () => void;
+  onStarted?: () => void;
+}
+
+interface RunNowFormData {
+  rowCount: string;
+  outputFormat: string;
+  fileName: string;
+  seed: string;
+}
+
+const outputFormatOptions = [
+  { value: 'CSV', label: 'CSV' },
+  { value: 'JSON', label: 'JSON' },
+  { value: 'XML', label: 'XML' }
+];
+
+const RunNowModal: React.FC<RunNowModalProps> = ({
+  schedule,
+  isOpen,
+  onClose,
+  onStarted
+}) => {
+  const [formData, setFormData] = useState<RunNowFormData>({
+    rowCount: '',
+    outputFormat: '',
+    fileName: '',
+    seed: ''
+  });
+  const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+
+  const {
+    isLoading: isStarting,
+    error: runError,
+    execute: executeRunNow,
+    reset: resetRunNow
+  } = useApiMutation(runScheduleNow, {
+    invalidates: [[...queryKeys.scheduleRuns, schedule?.id]]
+  });
+
+  // Start from the schedule's own settings each time the modal opens
+  useEffect(() => {
+    if (isOpen && schedule) {
+      setFormData({
+        rowCount: schedule.rowCount.toString(),
+        outputFormat: schedule.outputFormat,
+        fileName: '',
+        seed: ''
+      });
+      setFormErrors({});
+      resetRunNow();
+    }
+  }, [isOpen, schedule?.id, resetRunNow]);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value } = e.target;
+    setFormData(prev => ({ ...prev, [name]: value }));
+
+    if (formErrors[name]) {
+      setFormErrors(prev => {
+        const newErrors = { ...prev };
+        delete newErrors[name];
+        return newErrors;
+      });
+    }
+  };
+
+  const validateForm = () => {
+    const errors: Record<string, string> = {};
+    const rowCount = parseInt(formData.rowCount, 10);
+
+    if (isNaN(rowCount) || rowCount < 1) {
+      errors.rowCount = 'Row count must be at least 1';
+    }
+
+    const fileNameError = validateFilenamePattern(formData.fileName);
+    if (fileNameError) {
+      errors.fileName = fileNameError;
+    }
+
+    const seedError = validateSeed(formData.seed);
+    if (seedError) {
+      errors.seed = seedError;
+    }
+
+    setFormErrors(errors);
+    return Object.keys(errors).length === 0;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!schedule || !validateForm()) {
+      return;
+    }
+
+    // Only send what differs from the schedule
+    const overrides: ScheduleRunOverrides = {};
+    const rowCount = parseInt(formData.rowCount, 10);
+    if (rowCount !== schedule.rowCount) overrides.rowCount = rowCount;
+    if (formData.outputFormat !== schedule.outputFormat) overrides.outputFormat = formData.outputFormat;
+    if (formData.fileName.trim()) overrides.fileName = formData.fileName.trim();
+    if (formData.seed.trim()) overrides.seed = parseSeed(formData.seed);
+
+    const response = await executeRunNow(schedule.id, overrides);
+
+    if (!response.error) {
+      onClose();
+      if (onStarted) {
+        onStarted();
+      }
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen && Boolean(schedule)}
+      onClose={onClose}
+      title={`Run "${schedule?.name}" now`}
+    >
+      <form className="run-now-form" onSubmit={handleSubmit}>
+        <p className="run-now-hint">
+          These settings apply to this run only. The schedule itself is not changed.
+        </p>
+
+        {runError && (
+          <Alert type="error" className="mb-4">
+            {runError}
+          </Alert>
+        )}
+
+        <Input
+          label="Row Count"
+          name="rowCount"
+          value={formData.rowCount}
+          onChange={handleInputChange}
+          type="number"
+          min="1"
+          error={formErrors.rowCount}
+          required
+        />
+
+        <Select
+          label="Output Format"
+          name="outputFormat"
+          value={formData.outputFormat}
+          onChange={handleInputChange}
+          options={outputFormatOptions}
+          required
+        />
+
+        <Input
+          label="File Name"
+          name="fileName"
+          value={formData.fileName}
+          onChange={handleInputChange}
+          placeholder="Use the schedule's file name pattern"
+          helperText={`Placeholders: ${Object.keys(FILENAME_PATTERN_TOKENS).join(' ')}`}
+          error={formErrors.fileName}
+        />
+
+        <Input
+          label="Seed"
+          name="seed"
+          value={formData.seed}
+          onChange={handleInputChange}
+          inputMode="numeric"
+          placeholder="Use the schedule's seed"
+          helperText="Enter the seed of an earlier run to rebuild its data"
+          error={formErrors.seed}
+        />
+
+        <div className="modal-actions">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onClose}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            variant="primary"
+            icon="play"
+            isLoading={isStarting}
+          >
+            Run Now
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
+
+export default RunNowModal;
@@ -0,0 +1,433 @@
+import React, { useState, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Card } from '../../common/Card';
+import { Button } from '../../common/Button';
+import { Alert } from '../../common/Alert';
+import useApiQuery from './useApiQuery';
+import { queryKeys } from './query-cache';
+import { getSchedules } from '../../../api/schedule-api';
+import { BusinessCalendar, CalendarAdjustment, getBusinessCalendars } from './business-calendar-api';
+import { MAX_ROLL_DAYS, adjustFireTime, adjustFireTimes } from './business-calendar';
+import { parseCronExpression, validateCronExpression } from './cron-expression';
+import { getLifetimeFireTimes } from './schedule-lifetime';
+import { parseScheduleDateTime } from './time-zone';
+import './ScheduleCalendar.css';
+
+// Interfaces
+interface CalendarSchedule {
+  id: string;
+  name: string;
+  status: 'ACTIVE' | 'PAUSED' | 'COMPLETED' | 'ERROR';
+  nextRunTime: string;
+  cronExpression?: string;
+  timeZone?: string;
+  rowCount: number;
+  startDate?: string;
+  endDate?: string;
+  maxRuns?: number;
+  runCount?: number;
+  calendarId?: string;
+  calendarAdjustment?: CalendarAdjustment;
+}
+
+interface CalendarRun {
+  schedule: CalendarSchedule;
+  time: Date;
+}
+
+interface LoadWarning {
+  windowStart: Date;
+  windowEnd: Date;
+  runs: CalendarRun[];
+  heavyCount: number;
+  totalRows: number;
+}
+
+type CalendarView = 'month' | 'week' | 'day';
+
+interface ScheduleCalendarProps {
+  heavyRowCount?: number;
+  maxRowsPerWindow?: number;
+  loadWindowMinutes?: number;
+}
+
+// Caps the runs expanded per schedule so second-level crons stay cheap
+const MAX_RUNS_PER_SCHEDULE = 500;
+
+// Runs listed in a month cell before collapsing into "+N more"
+const MAX_RUNS_PER_CELL = 3;
+
+const DAY_HEADERS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const startOfDay = (date: Date): Date => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const startOfWeek = (date: Date): Date => addDays(startOfDay(date), -date.getDay());
+
+const getDayKey = (date: Date): string => `${date.getFullYear()}-${date.getMonth()}-${date.getDate()}`;
+
+const getViewRange = (view: CalendarView, anchor: Date): { start: Date; end: Date } => {
+  switch (view) {
+    case 'month': {
+      // Six full weeks starting on the Sunday before the 1st
+      const start = startOfWeek(new Date(anchor.getFullYear(), anchor.getMonth(), 1));
+      return { start, end: new Date(addDays(start, 42).getTime() - 1) };
+    }
+    case 'week': {
+      const start = startOfWeek(anchor);
+      return { start, end: new Date(addDays(start, 7).getTime() - 1) };
+    }
+    default: {
+      const start = startOfDay(anchor);
+      return { start, end: new Date(addDays(start, 1).getTime() - 1) };
+    }
+  }
+};
+
+/**
+ * Expand each schedule into the runs it will make within the range.
+ * Recurring schedules stop at their end date and run limit. Runs on days
+ * a schedule's business calendar excludes are moved or dropped; runs
+ * moved into the range may come from just outside it.
+ */
+const expandScheduleRuns = (
+  schedules: CalendarSchedule[],
+  businessCalendars: BusinessCalendar[],
+  start: Date,
+  end: Date
+): CalendarRun[] => {
+  const runs: CalendarRun[] = [];
+  const rollWindow = MAX_ROLL_DAYS * 24 * 60 * 60 * 1000;
+
+  schedules.forEach(schedule => {
+    const calendar = schedule.calendarId
+      ? businessCalendars.find(businessCalendar => businessCalendar.id === schedule.calendarId)
+      : undefined;
+    const adjustment = schedule.calendarAdjustment || 'ROLL_FORWARD';
+
+    if (schedule.cronExpression) {
+      if (!validateCronExpression(schedule.cronExpression).valid) {
+        return;
+      }
+
+      const parsed = parseCronExpression(schedule.cronExpression);
+      const times = calendar
+        ? adjustFireTimes(
+          getLifetimeFireTimes(
+            parsed,
+            schedule,
+            new Date(start.getTime() - rollWindow),
+            new Date(end.getTime() + rollWindow),
+            schedule.timeZone,
+            MAX_RUNS_PER_SCHEDULE
+          ),
+          calendar,
+          adjustment,
+          schedule.timeZone
+        )
+        : getLifetimeFireTimes(parsed, schedule, start, end, schedule.timeZone, MAX_RUNS_PER_SCHEDULE);
+
+      times.filter(time => time >= start && time <= end).forEach(time => {
+        runs.push({ schedule, time });
+      });
+    } else {
+      const scheduledTime = parseScheduleDateTime(schedule.nextRunTime, schedule.timeZone);
+      const time = scheduledTime && calendar
+        ? adjustFireTime(scheduledTime, calendar, adjustment, schedule.timeZone)
+        : scheduledTime;
+      if (time && time >= start && time <= end) {
+        runs.push({ schedule, time });
+      }
+    }
+  });
+
+  return runs.sort((a, b) => a.time.getTime() - b.time.getTime());
+};
+
+/**
+ * Find time windows where heavy schedules pile up.
+ */
+const findLoadWarnings = (
+  runs: CalendarRun[],
+  heavyRowCount: number,
+  maxRowsPerWindow: number,
+  loadWindowMinutes: number
+): LoadWarning[] => {
+  const windowMs = loadWindowMinutes * 60 * 1000;
+  const windows: Record<number, CalendarRun[]> = {};
+
+  runs.forEach(run => {
+    const windowIndex = Math.floor(run.time.getTime() / windowMs);
+    if (!windows[windowIndex]) {
+      windows[windowIndex] = [];
+    }
+    windows[windowIndex].push(run);
+  });
+
+  return Object.entries(windows)
+    .map(([windowIndex, windowRuns]) => {
+      const windowStart = new Date(parseInt(windowIndex, 10) * windowMs);
+      return {
+        windowStart,
+        windowEnd: new Date(windowStart.getTime() + windowMs),
+        runs: windowRuns,
+        heavyCount: windowRuns.filter(run => run.schedule.rowCount >= heavyRowCount).length,
+        totalRows: windowRuns.reduce((total, run) => total + run.schedule.rowCount, 0)
+      };
+    })
+    .filter(warning => warning.heavyCount >= 2 || warning.totalRows > maxRowsPerWindow)
+    .sort((a, b) => a.windowStart.getTime() - b.windowStart.getTime());
+};
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatRowCount = (rows: number) => rows.toLocaleString();
+
+const ScheduleCalendar: React.FC<ScheduleCalendarProps> = ({
+  heavyRowCount = 100000,
+  maxRowsPerWindow = 500000,
+  loadWindowMinutes = 60
+}) => {
+  const navigate = useNavigate();
+
+  // State
+  const [view, setView] = useState<CalendarView>('month');
+  const [anchorDate, setAnchorDate] = useState<Date>(() => startOfDay(new Date()));
+
+  // API hooks
+  const {
+    data: schedulesData,
+    isLoading,
+    error
+  } = useApiQuery([...queryKeys.schedules, 'calendar'], () =>
+    getSchedules({ page: 0, size: 1000, search: '', status: 'ACTIVE' })
+  );
+
+  const { data: businessCalendarsData } = useApiQuery(queryKeys.businessCalendars, signal => getBusinessCalendars(signal));
+
+  const schedules: CalendarSchedule[] = schedulesData?.data?.content || [];
+  const businessCalendars = businessCalendarsData?.data || [];
+  const range = useMemo(() => getViewRange(view, anchorDate), [view, anchorDate]);
+
+  const runs = useMemo(
+    () => expandScheduleRuns(schedules, businessCalendars, range.start, range.end),
+    [schedules, businessCalendars, range]
+  );
+
+  const loadWarnings = useMemo(
+    () => findLoadWarnings(runs, heavyRowCount, maxRowsPerWindow, loadWindowMinutes),
+    [runs, heavyRowCount, maxRowsPerWindow, loadWindowMinutes]
+  );
+
+  const runsByDay = useMemo(() => {
+    const grouped: Record<string, CalendarRun[]> = {};
+    runs.forEach(run => {
+      const key = getDayKey(run.time);
+      if (!grouped[key]) {
+        grouped[key] = [];
+      }
+      grouped[key].push(run);
+    });
+    return grouped;
+  }, [runs]);
+
+  const warningDays = useMemo(
+    () => new Set(loadWarnings.flatMap(warning => warning.runs.map(run => getDayKey(run.time)))),
+    [loadWarnings]
+  );
+
+  // Navigation handlers
+  const handlePrevious = () => {
+    if (view === 'month') {
+      setAnchorDate(new Date(anchorDate.getFullYear(), anchorDate.getMonth() - 1, 1));
+    } else {
+      setAnchorDate(addDays(anchorDate, view === 'week' ? -7 : -1));
+    }
+  };
+
+  const handleNext = () => {
+    if (view === 'month') {
+      setAnchorDate(new Date(anchorDate.getFullYear(), anchorDate.getMonth() + 1, 1));
+    } else {
+      setAnchorDate(addDays(anchorDate, view === 'week' ? 7 : 1));
+    }
+  };
+
+  const handleShowDay = (date: Date) => {
+    setAnchorDate(startOfDay(date));
+    setView('day');
+  };
+
+  const getTitle = () => {
+    switch (view) {
+      case 'month':
+        return anchorDate.toLocaleDateString([], { month: 'long', year: 'numeric' });
+      case 'week': {
+        const weekStart = startOfWeek(anchorDate);
+        const weekEnd = addDays(weekStart, 6);
+        return `${weekStart.toLocaleDateString([], { month: 'short', day: 'numeric' })} – ${weekEnd.toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}`;
+      }
+      default:
+        return anchorDate.toLocaleDateString([], { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+    }
+  };
+
+  const renderRun = (run: CalendarRun) => (
+    <button
+      key={`${run.schedule.id}-${run.time.getTime()}`}
+      type="button"
+      className={`calendar-run status-${run.schedule.status.toLowerCase()} ${run.schedule.rowCount >= heavyRowCount ? 'heavy' : ''}`}
+      onClick={() => navigate(`/schedules/${run.schedule.id}`)}
+      title={`${run.schedule.name} — ${run.time.toLocaleString()} — ${formatRowCount(run.schedule.rowCount)} rows`}
+    >
+      <span className="calendar-run-time">{formatTime(run.time)}</span>
+      <span className="calendar-run-name">{run.schedule.name}</span>
+    </button>
+  );
+
+  const renderMonth = () => {
+    const days = Array.from({ length: 42 }, (_, index) => addDays(range.start, index));
+
+    return (
+      <div className="calendar-month">
+        {DAY_HEADERS.map(header => (
+          <div key={header} className="calendar-day-header">{header}</div>
+        ))}
+        {days.map(day => {
+          const dayRuns = runsByDay[getDayKey(day)] || [];
+          const isOutsideMonth = day.getMonth() !== anchorDate.getMonth();
+          const isToday = getDayKey(day) === getDayKey(new Date());
+
+          return (
+            <div
+              key={getDayKey(day)}
+              className={`calendar-cell ${isOutsideMonth ? 'outside' : ''} ${isToday ? 'today' : ''} ${warningDays.has(getDayKey(day)) ? 'has-load-warning' : ''}`}
+            >
+              <button type="button" className="calendar-date" onClick={() => handleShowDay(day)}>
+                {day.getDate()}
+              </button>
+              {dayRuns.slice(0, MAX_RUNS_PER_CELL).map(renderRun)}
+              {dayRuns.length > MAX_RUNS_PER_CELL && (
+                <button type="button" className="calendar-more" onClick={() => handleShowDay(day)}>
+                  +{dayRuns.length - MAX_RUNS_PER_CELL} more
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderWeek = () => {
+    const days = Array.from({ length: 7 }, (_, index) => addDays(range.start, index));
+
+    return (
+      <div className="calendar-week">
+        {days.map(day => (
+          <div
+            key={getDayKey(day)}
+            className={`calendar-week-day ${warningDays.has(getDayKey(day)) ? 'has-load-warning' : ''}`}
+          >
+            <button type="button" className="calendar-day-header" onClick={() => handleShowDay(day)}>
+              {day.toLocaleDateString([], { weekday: 'short', day: 'numeric' })}
+            </button>
+            {(runsByDay[getDayKey(day)] || []).map(renderRun)}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  const renderDay = () => {
+    const dayRuns = runsByDay[getDayKey(anchorDate)] || [];
+    const hours = Array.from(new Set(dayRuns.map(run => run.time.getHours())));
+
+    if (dayRuns.length === 0) {
+      return <p className="calendar-empty">No runs scheduled for this day</p>;
+    }
+
+    return (
+      <div className="calendar-day">
+        {hours.map(hour => (
+          <div key={hour} className="calendar-hour">
+            <div className="calendar-hour-label">{`${hour.toString().padStart(2, '0')}:00`}</div>
+            <div className="calendar-hour-runs">
+              {dayRuns.filter(run => run.time.getHours() === hour).map(renderRun)}
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <Card className="schedule-calendar">
+      <div className="calendar-toolbar">
+        <div className="calendar-navigation">
+          <Button variant="outline" size="small" onClick={handlePrevious} title="Previous">
+            ‹
+          </Button>
+          <Button variant="outline" size="small" onClick={() => setAnchorDate(startOfDay(new Date()))}>
+            Today
+          </Button>
+          <Button variant="outline" size="small" onClick={handleNext} title="Next">
+            ›
+          </Button>
+          <h3 className="calendar-title">{getTitle()}</h3>
+        </div>
+
+        <div className="calendar-view-toggle">
+          {(['month', 'week', 'day'] as CalendarView[]).map(option => (
+            <button
+              key={option}
+              type="button"
+              className={view === option ? 'active' : ''}
+              onClick={() => setView(option)}
+            >
+              {option.charAt(0).toUpperCase() + option.slice(1)}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {error && (
+        <Alert type="error" className="mb-4">
+          {error}
+        </Alert>
+      )}
+
+      {loadWarnings.length > 0 && (
+        <Alert type="warning" className="mb-4">
+          <strong>Generation load is piling up:</strong>
+          <ul className="calendar-load-warnings">
+            {loadWarnings.slice(0, 5).map(warning => (
+              <li key={warning.windowStart.getTime()}>
+                {warning.windowStart.toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                {' – '}
+                {formatTime(warning.windowEnd)}: {warning.runs.length} runs
+                {warning.heavyCount > 0 && `, ${warning.heavyCount} heavy`}
+                {' '}({formatRowCount(warning.totalRows)} rows)
+              </li>
+            ))}
+            {loadWarnings.length > 5 && <li>…and {loadWarnings.length - 5} more windows</li>}
+          </ul>
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <div className="loading">Loading...</div>
+      ) : (
+        <>
+          {view === 'month' && renderMonth()}
+          {view === 'week' && renderWeek()}
+          {view === 'day' && renderDay()}
+        </>
+      )}
+    </Card>
+  );
+};
+
+export default ScheduleCalendar;
@@ -1,14 +1,47 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
 import { Card } from '../../common/Card';
 import { Button } from '../../common/Button';
 import { Input } from '../../common/Input';
 import { Select } from '../../common/Select';
 import { Alert } from '../../common/Alert';
 import { Modal } from '../../common/Modal';
-import useApi from '../../../hooks/useApi';
+import useApiQuery from './useApiQuery';
+import useApiMutation from './useApiMutation';
+import { queryKeys } from './query-cache';
 import { getTemplates } from '../../../api/template-api';
 import { getSchedule, createSchedule, updateSchedule } from '../../../api/schedule-api';
+import CronBuilder from './CronBuilder';
+import { getNextFireTimes, parseCronExpression, validateCronExpression } from './cron-expression';
+import DeliveryDestinationsEditor from './DeliveryDestinationsEditor';
+import { DeliveryDestination } from './delivery-api';
+import { validateDeliveryDestination } from './delivery-destination';
+import { generateSeed, parseSeed, validateSeed } from './generation-seed';
+import { BusinessCalendar, CalendarAdjustment, getBusinessCalendars } from './business-calendar-api';
+import { CALENDAR_ADJUSTMENT_LABELS, adjustFireTime, getCalendarFireTimes } from './business-calendar';
+import {
+  ScheduleLifetime,
+  describeRunProgress,
+  getFinalRunTime,
+  hasLifetimeLimits,
+  validateScheduleLifetime
+} from './schedule-lifetime';
+import {
+  DEFAULT_FILENAME_PATTERN,
+  FILENAME_PATTERN_TOKENS,
+  insertFilenameToken,
+  resolveFilenamePattern,
+  validateFilenamePattern
+} from './filename-pattern';
+import {
+  getBrowserTimeZone,
+  getSupportedTimeZones,
+  getTimeZoneLabel,
+  isValidTimeZone,
+  parseScheduleDateTime,
+  formatInTimeZone,
+  toDateTimeLocalValue
+} from './time-zone';
 import './ScheduleForm.css';
 
 // Interfaces for the component
@@ -22,11 +55,20 @@ interface ScheduleFormData {
   templateId: string;
   description?: string;
   outputFormat: string;
+  fileNamePattern: string;
   rowCount: number;
   scheduleType: 'ONE_TIME' | 'RECURRING';
   nextRunTime?: string;
   cronExpression?: string;
+  startDate: string;
+  endDate: string;
+  maxRuns: string;
+  timeZone: string;
+  calendarId: string;
+  calendarAdjustment: CalendarAdjustment;
   active: boolean;
+  seed: string;
+  deliveryDestinations: DeliveryDestination[];
 }
 
 const ScheduleForm: React.FC = () => {
@@ -34,17 +76,31 @@ const ScheduleForm: React.FC = () => {
   const navigate = useNavigate();
   const isEditMode = Boolean(id);
   
+  // Cloning prefills a new schedule from an existing one
+  const [searchParams] = useSearchParams();
+  const cloneFromId = isEditMode ? null : searchParams.get('cloneFrom');
+  const sourceId = id || cloneFromId;
+  
   // Form state
   const [formData, setFormData] = useState<ScheduleFormData>({
     name: '',
     templateId: '',
     description: '',
     outputFormat: 'CSV',
+    fileNamePattern: '',
     rowCount: 100,
     scheduleType: 'ONE_TIME',
     nextRunTime: '',
     cronExpression: '',
-    active: true
+    startDate: '',
+    endDate: '',
+    maxRuns: '',
+    timeZone: getBrowserTimeZone(),
+    calendarId: '',
+    calendarAdjustment: 'ROLL_FORWARD',
+    active: true,
+    seed: '',
+    deliveryDestinations: []
   });
   
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
@@ -54,40 +110,61 @@ const ScheduleForm: React.FC = () => {
   const {
     data: templatesData,
     isLoading: isLoadingTemplates,
-    error: templatesError,
-    execute: fetchTemplates
-  } = useApi(getTemplates, [], { immediate: true });
+    error: templatesError
+  } = useApiQuery(queryKeys.templates, () => getTemplates());
   
+  // Kept under the schedules key so saving or toggling a schedule refreshes it too
   const {
     data: scheduleData,
     isLoading: isLoadingSchedule,
-    error: scheduleError,
-    execute: fetchSchedule
-  } = useApi(getSchedule, isEditMode ? [id] : [], { immediate: isEditMode });
+    error: scheduleError
+  } = useApiQuery([...queryKeys.schedules, 'detail', sourceId], () => getSchedule(sourceId as string), {
+    enabled: Boolean(sourceId)
+  });
+  
+  const {
+    data: businessCalendarsData,
+    error: businessCalendarsError
+  } = useApiQuery(queryKeys.businessCalendars, signal => getBusinessCalendars(signal));
   
   const {
     isLoading: isSaving,
     error: saveError,
     execute: saveSchedule
-  } = useApi(isEditMode ? updateSchedule : createSchedule);
+  } = useApiMutation(isEditMode ? updateSchedule : createSchedule, {
+    invalidates: [queryKeys.schedules]
+  });
   
-  // Load schedule data if in edit mode
+  // Load schedule data when editing or cloning
   useEffect(() => {
-    if (isEditMode && scheduleData?.data) {
+    if (sourceId && scheduleData?.data) {
       const schedule = scheduleData.data;
+      const timeZone = schedule.timeZone || getBrowserTimeZone();
       setFormData({
-        name: schedule.name,
+        name: cloneFromId ? `${schedule.name} (copy)` : schedule.name,
         templateId: schedule.templateId,
         description: schedule.description || '',
         outputFormat: schedule.outputFormat,
+        fileNamePattern: schedule.fileNamePattern || '',
         rowCount: schedule.rowCount,
         scheduleType: schedule.cronExpression ? 'RECURRING' : 'ONE_TIME',
-        nextRunTime: schedule.nextRunTime ? new Date(schedule.nextRunTime).toISOString().slice(0, 16) : '',
+        // A clone has not run yet, and the source's next run may already be past
+        nextRunTime: cloneFromId ? '' : toDateTimeLocalValue(schedule.nextRunTime, timeZone),
         cronExpression: schedule.cronExpression || '',
-        active: schedule.active
+        startDate: schedule.startDate || '',
+        endDate: schedule.endDate || '',
+        maxRuns: schedule.maxRuns ? String(schedule.maxRuns) : '',
+        timeZone,
+        calendarId: schedule.calendarId || '',
+        calendarAdjustment: schedule.calendarAdjustment || 'ROLL_FORWARD',
+        active: schedule.active,
+        seed: schedule.seed !== undefined && schedule.seed !== null ? String(schedule.seed) : '',
+        // A clone gets its own destinations, so their secrets have to be entered again
+        deliveryDestinations: (schedule.deliveryDestinations || []).map((destination: DeliveryDestination) =>
+          cloneFromId ? { ...destination, id: undefined } : destination)
       });
     }
-  }, [isEditMode, scheduleData]);
+  }, [sourceId, cloneFromId, scheduleData]);
   
   // Handle input changes
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
@@ -108,6 +185,25 @@ const ScheduleForm: React.FC = () => {
     }
   };
   
+  const parsedCronExpression = useMemo(
+    () => formData.cronExpression && validateCronExpression(formData.cronExpression).valid
+      ? parseCronExpression(formData.cronExpression)
+      : null,
+    [formData.cronExpression]
+  );
+  
+  const businessCalendars: BusinessCalendar[] = businessCalendarsData?.data || [];
+  const selectedCalendar = businessCalendars.find(calendar => calendar.id === formData.calendarId) || null;
+  
+  // Start date, end date and run limit only apply to recurring schedules
+  const lifetime: ScheduleLifetime = {
+    startDate: formData.startDate || undefined,
+    endDate: formData.endDate || undefined,
+    maxRuns: formData.maxRuns.trim() ? Number(formData.maxRuns) : undefined,
+    // New schedules and clones start counting from zero
+    runCount: isEditMode ? scheduleData?.data?.runCount || 0 : 0
+  };
+  
   // Validate form before submission
   const validateForm = (): boolean => {
     const errors: Record<string, string> = {};
@@ -120,16 +216,53 @@ const ScheduleForm: React.FC = () => {
       errors.templateId = 'Template is required';
     }
     
+    const fileNamePatternError = validateFilenamePattern(formData.fileNamePattern);
+    if (fileNamePatternError) {
+      errors.fileNamePattern = fileNamePatternError;
+    }
+    
     if (formData.rowCount <= 0) {
       errors.rowCount = 'Row count must be greater than 0';
     }
     
+    if (!formData.timeZone || !isValidTimeZone(formData.timeZone)) {
+      errors.timeZone = 'A valid time zone is required';
+    }
+    
+    if (formData.calendarId && businessCalendarsData?.data && !selectedCalendar) {
+      errors.calendarId = 'This calendar no longer exists';
+    }
+    
     if (formData.scheduleType === 'ONE_TIME' && !formData.nextRunTime) {
       errors.nextRunTime = 'Run time is required for one-time schedules';
     }
     
-    if (formData.scheduleType === 'RECURRING' && !formData.cronExpression) {
-      errors.cronExpression = 'Cron expression is required for recurring schedules';
+    if (formData.scheduleType === 'RECURRING') {
+      if (!formData.cronExpression) {
+        errors.cronExpression = 'Cron expression is required for recurring schedules';
+      } else {
+        const cronValidation = validateCronExpression(formData.cronExpression);
+        if (!cronValidation.valid) {
+          errors.cronExpression = cronValidation.errors.map(error => error.message).join('; ');
+        }
+      }
+      
+      const lifetimeErrors = validateScheduleLifetime(
+        lifetime,
+        errors.cronExpression ? null : parsedCronExpression,
+        formData.timeZone
+      );
+      Object.assign(errors, lifetimeErrors);
+    }
+    
+    const seedError = validateSeed(formData.seed);
+    if (seedError) {
+      errors.seed = seedError;
+    }
+    
+    if (formData.deliveryDestinations.some(destination =>
+      Object.keys(validateDeliveryDestination(destination)).length > 0)) {
+      errors.deliveryDestinations = 'Some delivery destinations are incomplete';
     }
     
     setFormErrors(errors);
@@ -149,7 +282,14 @@ const ScheduleForm: React.FC = () => {
       ...formData,
       id: isEditMode ? id : undefined,
       nextRunTime: formData.scheduleType === 'ONE_TIME' ? formData.nextRunTime : undefined,
-      cronExpression: formData.scheduleType === 'RECURRING' ? formData.cronExpression : undefined
+      cronExpression: formData.scheduleType === 'RECURRING' ? formData.cronExpression : undefined,
+      startDate: formData.scheduleType === 'RECURRING' ? lifetime.startDate : undefined,
+      endDate: formData.scheduleType === 'RECURRING' ? lifetime.endDate : undefined,
+      maxRuns: formData.scheduleType === 'RECURRING' ? lifetime.maxRuns : undefined,
+      calendarId: formData.calendarId || undefined,
+      calendarAdjustment: formData.calendarId ? formData.calendarAdjustment : undefined,
+      fileNamePattern: formData.fileNamePattern.trim() || undefined,
+      seed: parseSeed(formData.seed)
     };
     
     const response = await saveSchedule(schedulePayload);
@@ -180,6 +320,39 @@ const ScheduleForm: React.FC = () => {
     { value: 'XML', label: 'XML' }
   ];
   
+  const timeZoneOptions = useMemo(() => getSupportedTimeZones().map(timeZone => ({
+    value: timeZone,
+    label: getTimeZoneLabel(timeZone)
+  })), []);
+  
+  const calendarOptions = [
+    { value: '', label: 'None — run on any day' },
+    ...businessCalendars.map(calendar => ({ value: calendar.id as string, label: calendar.name }))
+  ];
+  
+  const calendarAdjustmentOptions = (Object.keys(CALENDAR_ADJUSTMENT_LABELS) as CalendarAdjustment[]).map(adjustment => ({
+    value: adjustment,
+    label: CALENDAR_ADJUSTMENT_LABELS[adjustment]
+  }));
+  
+  // Show a one-time run in the viewer's zone when it differs from the schedule's,
+  // and where the calendar moves it
+  const viewerTimeZone = getBrowserTimeZone();
+  const nextRunInstant = formData.nextRunTime
+    ? parseScheduleDateTime(formData.nextRunTime, formData.timeZone)
+    : null;
+  const adjustedRunInstant = nextRunInstant && selectedCalendar
+    ? adjustFireTime(nextRunInstant, selectedCalendar, formData.calendarAdjustment, formData.timeZone)
+    : nextRunInstant;
+  let nextRunHelperText: string | undefined;
+  if (nextRunInstant && !adjustedRunInstant) {
+    nextRunHelperText = `Not a business day in ${selectedCalendar?.name}, so the run is skipped`;
+  } else if (adjustedRunInstant && adjustedRunInstant.getTime() !== nextRunInstant?.getTime()) {
+    nextRunHelperText = `Not a business day in ${selectedCalendar?.name}; runs on ${formatInTimeZone(adjustedRunInstant, formData.timeZone)}`;
+  } else if (adjustedRunInstant && formData.timeZone !== viewerTimeZone) {
+    nextRunHelperText = `Runs at ${formatInTimeZone(adjustedRunInstant, viewerTimeZone)} your time`;
+  }
+  
   const scheduleTypeOptions = [
     { value: 'ONE_TIME', label: 'One-time Schedule' },
     { value: 'RECURRING', label: 'Recurring Schedule' }
@@ -190,15 +363,110 @@ const ScheduleForm: React.FC = () => {
     { label: 'Every day at midnight', value: '0 0 0 * * ?' },
     { label: 'Every hour', value: '0 0 * * * ?' },
     { label: 'Every Monday at 9am', value: '0 0 9 ? * MON' },
-    { label: 'First day of month at 2am', value: '0 0 2 1 * ?' }
+    { label: 'First day of month at 2am', value: '0 0 2 1 * ?' },
+    { label: 'Last day of month at 6am', value: '0 0 6 L * ?' }
   ];
   
+  const handleCronExpressionChange = (expression: string) => {
+    setFormData(prev => ({
+      ...prev,
+      cronExpression: expression
+    }));
+    
+    if (formErrors.cronExpression) {
+      setFormErrors(prev => {
+        const newErrors = { ...prev };
+        delete newErrors.cronExpression;
+        return newErrors;
+      });
+    }
+  };
+  
+  const handleRandomSeed = () => {
+    setFormData(prev => ({ ...prev, seed: String(generateSeed()) }));
+    
+    if (formErrors.seed) {
+      setFormErrors(prev => {
+        const newErrors = { ...prev };
+        delete newErrors.seed;
+        return newErrors;
+      });
+    }
+  };
+  
+  const handleDeliveryDestinationsChange = (deliveryDestinations: DeliveryDestination[]) => {
+    setFormData(prev => ({
+      ...prev,
+      deliveryDestinations
+    }));
+  };
+  
+  const handleInsertFileNameToken = (token: string) => {
+    setFormData(prev => ({
+      ...prev,
+      fileNamePattern: insertFilenameToken(prev.fileNamePattern, token)
+    }));
+  };
+  
+  // The file name and path previews use the next run, or now while there is none
+  const previewTimeZone = isValidTimeZone(formData.timeZone) ? formData.timeZone : viewerTimeZone;
+  const previewRunDate = useMemo(() => {
+    if (formData.scheduleType === 'ONE_TIME') {
+      const runTime = formData.nextRunTime && parseScheduleDateTime(formData.nextRunTime, previewTimeZone);
+      return (runTime && selectedCalendar
+        ? adjustFireTime(runTime, selectedCalendar, formData.calendarAdjustment, previewTimeZone)
+        : runTime) || new Date();
+    }
+    if (parsedCronExpression) {
+      const [fireTime] = selectedCalendar
+        ? getCalendarFireTimes(parsedCronExpression, 1, new Date(), selectedCalendar, formData.calendarAdjustment, previewTimeZone)
+        : getNextFireTimes(parsedCronExpression, 1, new Date(), previewTimeZone);
+      return fireTime || new Date();
+    }
+    return new Date();
+  }, [
+    formData.scheduleType,
+    formData.nextRunTime,
+    formData.calendarAdjustment,
+    parsedCronExpression,
+    previewTimeZone,
+    selectedCalendar
+  ]);
+  
+  const lifetimeErrors = formData.scheduleType === 'RECURRING'
+    ? validateScheduleLifetime(lifetime, parsedCronExpression, previewTimeZone)
+    : {};
+  const finalRunTime = parsedCronExpression && hasLifetimeLimits(lifetime) && Object.keys(lifetimeErrors).length === 0
+    ? getFinalRunTime(parsedCronExpression, lifetime, previewTimeZone)
+    : null;
+  
+  const templateName = templateOptions.find((option: { value: string; label: string }) => option.value === formData.templateId)?.label
+    || 'template';
+  
+  const pathContext = {
+    schedule: formData.name || 'schedule',
+    template: templateName,
+    format: formData.outputFormat,
+    runId: 'run-id',
+    date: previewRunDate,
+    timeZone: previewTimeZone
+  };
+  
+  // Checked as the user types, as the preview is useless for a broken pattern
+  const fileNamePatternError = formErrors.fileNamePattern || validateFilenamePattern(formData.fileNamePattern);
+  const fileNamePreview = resolveFilenamePattern(formData.fileNamePattern.trim() || DEFAULT_FILENAME_PATTERN, {
+    template: templateName,
+    schedule: formData.name || 'schedule',
+    format: formData.outputFormat,
+    rowCount: formData.rowCount || 0,
+    runNumber: 1,
+    date: previewRunDate,
+    timeZone: previewTimeZone
+  });
+  
   const handleCronPresetSelect = (e: React.ChangeEvent<HTMLSelectElement>) => {
     if (e.target.value) {
-      setFormData(prev => ({
-        ...prev,
-        cronExpression: e.target.value
-      }));
+      handleCronExpressionChange(e.target.value);
     }
   };
   
@@ -210,11 +478,11 @@ const ScheduleForm: React.FC = () => {
   
   return (
     <div className="schedule-form">
-      <h2>{isEditMode ? 'Edit Schedule' : 'Create Schedule'}</h2>
+      <h2>{isEditMode ? 'Edit Schedule' : cloneFromId ? 'Clone Schedule' : 'Create Schedule'}</h2>
       
-      {(templatesError || scheduleError || saveError) && (
+      {(templatesError || scheduleError || businessCalendarsError || saveError) && (
         <Alert type="error" className="mb-4">
-          {templatesError || scheduleError || saveError}
+          {templatesError || scheduleError || businessCalendarsError || saveError}
         </Alert>
       )}
       
@@ -242,6 +510,31 @@ const ScheduleForm: React.FC = () => {
                 placeholder="Select a template..."
               />
               
+              <div className="filename-pattern-field">
+                <Input
+                  label="File Name Pattern"
+                  name="fileNamePattern"
+                  value={formData.fileNamePattern}
+                  onChange={handleInputChange}
+                  error={fileNamePatternError || undefined}
+                  placeholder={DEFAULT_FILENAME_PATTERN}
+                  helperText={fileNamePatternError ? undefined : `Next file: ${fileNamePreview}`}
+                />
+                <div className="filename-pattern-tokens">
+                  {Object.entries(FILENAME_PATTERN_TOKENS).map(([token, description]) => (
+                    <button
+                      key={token}
+                      type="button"
+                      className="filename-pattern-token"
+                      title={description}
+                      onClick={() => handleInsertFileNameToken(token)}
+                    >
+                      {token}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              
               <Input
                 label="Description"
                 name="description"
@@ -272,6 +565,22 @@ const ScheduleForm: React.FC = () => {
                 required
               />
               
+              <div className="seed-field">
+                <Input
+                  label="Seed"
+                  name="seed"
+                  value={formData.seed}
+                  onChange={handleInputChange}
+                  inputMode="numeric"
+                  error={formErrors.seed}
+                  placeholder="Random for every run"
+                  helperText="With a fixed seed, every run produces the same data until the template changes"
+                />
+                <Button type="button" variant="text" size="small" icon="shuffle" onClick={handleRandomSeed}>
+                  Pick a seed
+                </Button>
+              </div>
+              
               <Select
                 label="Schedule Type"
                 name="scheduleType"
@@ -281,6 +590,38 @@ const ScheduleForm: React.FC = () => {
                 required
               />
               
+              <Select
+                label="Time Zone"
+                name="timeZone"
+                value={formData.timeZone}
+                onChange={handleInputChange}
+                options={timeZoneOptions}
+                error={formErrors.timeZone}
+                required
+              />
+              
+              <Select
+                label="Business Calendar"
+                name="calendarId"
+                value={formData.calendarId}
+                onChange={handleInputChange}
+                options={calendarOptions}
+                error={formErrors.calendarId}
+                helperText="Holidays and non-working days of the calendar get no runs"
+              />
+              
+              {formData.calendarId && (
+                <Select
+                  label="Runs on Excluded Days"
+                  name="calendarAdjustment"
+                  value={formData.calendarAdjustment}
+                  onChange={handleInputChange}
+                  options={calendarAdjustmentOptions}
+                  helperText="For the last business day of the month, run on day L and move to the previous business day"
+                  required
+                />
+              )}
+              
               {formData.scheduleType === 'ONE_TIME' && (
                 <Input
                   label="Run Date and Time"
@@ -289,6 +630,7 @@ const ScheduleForm: React.FC = () => {
                   onChange={handleInputChange}
                   type="datetime-local"
                   error={formErrors.nextRunTime}
+                  helperText={nextRunHelperText}
                   required
                 />
               )}
@@ -324,6 +666,77 @@ const ScheduleForm: React.FC = () => {
             </div>
           </div>
           
+          {formData.scheduleType === 'RECURRING' && (
+            <div className="cron-builder-section">
+              <h3>Cron Builder</h3>
+              <CronBuilder
+                value={formData.cronExpression || ''}
+                onChange={handleCronExpressionChange}
+                timeZone={formData.timeZone}
+                calendar={selectedCalendar}
+                calendarAdjustment={formData.calendarAdjustment}
+              />
+            </div>
+          )}
+          
+          {formData.scheduleType === 'RECURRING' && (
+            <div className="lifetime-section">
+              <h3>Lifetime</h3>
+              <div className="lifetime-fields">
+                <Input
+                  label="Start Date"
+                  name="startDate"
+                  value={formData.startDate}
+                  onChange={handleInputChange}
+                  type="date"
+                  error={formErrors.startDate || lifetimeErrors.startDate}
+                  helperText="No runs before this day"
+                />
+                <Input
+                  label="End Date"
+                  name="endDate"
+                  value={formData.endDate}
+                  onChange={handleInputChange}
+                  type="date"
+                  min={formData.startDate || undefined}
+                  error={formErrors.endDate || lifetimeErrors.endDate}
+                  helperText="Last day with runs"
+                />
+                <Input
+                  label="Maximum Runs"
+                  name="maxRuns"
+                  value={formData.maxRuns}
+                  onChange={handleInputChange}
+                  inputMode="numeric"
+                  placeholder="Unlimited"
+                  error={formErrors.maxRuns || lifetimeErrors.maxRuns}
+                  helperText={lifetime.runCount ? `${describeRunProgress(lifetime)} so far` : undefined}
+                />
+              </div>
+              {parsedCronExpression && Object.keys(lifetimeErrors).length === 0 && (
+                <p className="lifetime-summary">
+                  {finalRunTime
+                    ? `The last run is on ${formatInTimeZone(finalRunTime, previewTimeZone)}. The schedule then completes on its own.`
+                    : 'Without an end date or maximum runs, the schedule runs until it is paused.'}
+                </p>
+              )}
+            </div>
+          )}
+          
+          <div className="delivery-section">
+            <h3>Delivery</h3>
+            {formErrors.deliveryDestinations && (
+              <p className="delivery-section-error">{formErrors.deliveryDestinations}</p>
+            )}
+            <DeliveryDestinationsEditor
+              destinations={formData.deliveryDestinations}
+              onChange={handleDeliveryDestinationsChange}
+              scheduleId={isEditMode ? id : undefined}
+              pathContext={pathContext}
+              showErrors={Boolean(formErrors.deliveryDestinations)}
+            />
+          </div>
+          
           <div className="form-actions">
             <Button
               type="button"
@@ -7,13 +7,27 @@ import { Alert } from '../../common/Alert';
 import { Badge } from '../../common/Badge';
 import { Modal } from '../../common/Modal';
 import { Input } from '../../common/Input';
-import useApi from '../../../hooks/useApi';
+import useApiQuery from './useApiQuery';
+import useApiMutation from './useApiMutation';
+import { queryKeys, invalidateQueries, updateQueryData } from './query-cache';
 import { 
   getSchedules, 
   activateSchedule, 
   pauseSchedule, 
   deleteSchedule 
 } from '../../../api/schedule-api';
+import {
+  ScheduleBatchAction,
+  ScheduleBatchResult,
+  executeScheduleBatch
+} from './schedule-batch-api';
+import ScheduleRunHistory from './ScheduleRunHistory';
+import ScheduleCalendar from './ScheduleCalendar';
+import RunNowModal from './RunNowModal';
+import useScheduleEvents from './useScheduleEvents';
+import { ScheduleEvent } from './schedule-event-api';
+import { getBrowserTimeZone, parseScheduleDateTime, formatInTimeZone } from './time-zone';
+import { describeRunProgress, formatLifetimeDate } from './schedule-lifetime';
 import './ScheduleList.css';
 
 // Interfaces
@@ -27,8 +41,26 @@ interface Schedule {
   nextRunTime: string;
   lastRunTime?: string;
   cronExpression?: string;
+  timeZone?: string;
   outputFormat: string;
   rowCount: number;
+  startDate?: string;
+  endDate?: string;
+  maxRuns?: number;
+  runCount?: number;
+}
+
+const BULK_ACTION_LABELS: Record<ScheduleBatchAction, string> = {
+  ACTIVATE: 'Activate',
+  PAUSE: 'Pause',
+  DELETE: 'Delete',
+  RUN_NOW: 'Run Now'
+};
+
+interface SchedulePage {
+  content: Schedule[];
+  totalPages: number;
+  totalElements: number;
 }
 
 interface ScheduleListProps {
@@ -41,59 +73,143 @@ const ScheduleList: React.FC<ScheduleListProps> = () => {
   // State
   const [selectedSchedule, setSelectedSchedule] = useState<Schedule | null>(null);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
+  const [historySchedule, setHistorySchedule] = useState<Schedule | null>(null);
+  const [runNowSchedule, setRunNowSchedule] = useState<Schedule | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('');
   const [currentPage, setCurrentPage] = useState(0);
   const [pageSize, setPageSize] = useState(10);
+  const [viewMode, setViewMode] = useState<'table' | 'calendar'>('table');
+  
+  // Bulk selection state
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [selectAllMatching, setSelectAllMatching] = useState(false);
+  const [showBulkDeleteModal, setShowBulkDeleteModal] = useState(false);
+  const [bulkResult, setBulkResult] = useState<ScheduleBatchResult | null>(null);
+  const [runningBulkAction, setRunningBulkAction] = useState<ScheduleBatchAction | null>(null);
+  
+  // Live update state, layered over the last fetched page
+  const [liveUpdates, setLiveUpdates] = useState<Record<string, Partial<Schedule>>>({});
+  const [runningIds, setRunningIds] = useState<string[]>([]);
+  
+  // Per-row state for optimistic status changes
+  const [pendingStatusIds, setPendingStatusIds] = useState<string[]>([]);
+  const [rowErrors, setRowErrors] = useState<Record<string, string>>({});
   
   // API hooks
+  const scheduleQuery = { page: currentPage, size: pageSize, search: searchTerm, status: statusFilter };
+  
+  // Typing in the search box only fetches once the input settles
   const {
     data: schedulesData,
     isLoading,
-    error,
-    execute: fetchSchedules
-  } = useApi(getSchedules, [{ page: currentPage, size: pageSize, search: searchTerm, status: statusFilter }], { 
-    immediate: true 
+    error
+  } = useApiQuery([...queryKeys.schedules, 'list', scheduleQuery], () => getSchedules(scheduleQuery), {
+    debounceMs: 300
   });
   
-  const {
-    isLoading: isActivating,
-    error: activateError,
-    execute: executeActivate
-  } = useApi(activateSchedule);
+  // Successful mutations refresh every schedule query on screen
+  const mutationOptions = { invalidates: [queryKeys.schedules] };
   
-  const {
-    isLoading: isPausing,
-    error: pauseError,
-    execute: executePause
-  } = useApi(pauseSchedule);
+  // Status changes report their errors on the row, not in the page alert
+  const { execute: executeActivate } = useApiMutation(activateSchedule, mutationOptions);
+  const { execute: executePause } = useApiMutation(pauseSchedule, mutationOptions);
   
   const {
     isLoading: isDeleting,
     error: deleteError,
     execute: executeDelete
-  } = useApi(deleteSchedule);
+  } = useApiMutation(deleteSchedule, mutationOptions);
+  
+  const {
+    isLoading: isBulkRunning,
+    error: bulkError,
+    execute: executeBulk
+  } = useApiMutation(executeScheduleBatch, mutationOptions);
   
-  // Refresh schedules when page, filters change
+  // A fresh page already reflects every event received so far
   useEffect(() => {
-    fetchSchedules({ page: currentPage, size: pageSize, search: searchTerm, status: statusFilter });
-  }, [currentPage, pageSize, searchTerm, statusFilter, fetchSchedules]);
+    setLiveUpdates({});
+  }, [schedulesData]);
   
-  // Action handlers
-  const handleActivate = async (schedule: Schedule) => {
-    const response = await executeActivate(schedule.id);
-    if (response.data) {
-      fetchSchedules({ page: currentPage, size: pageSize, search: searchTerm, status: statusFilter });
+  // Apply lifecycle events to the rows in place
+  const handleScheduleEvent = (event: ScheduleEvent) => {
+    const changes: Partial<Schedule> = {};
+    if (event.status) changes.status = event.status;
+    if (event.nextRunTime) changes.nextRunTime = event.nextRunTime;
+    if (event.lastRunTime) changes.lastRunTime = event.lastRunTime;
+    if (event.runCount !== undefined) changes.runCount = event.runCount;
+    
+    switch (event.type) {
+      case 'JOB_STARTED':
+        setRunningIds(prev => prev.includes(event.scheduleId) ? prev : [...prev, event.scheduleId]);
+        break;
+      case 'JOB_FAILED':
+        changes.status = event.status || 'ERROR';
+        setRunningIds(prev => prev.filter(id => id !== event.scheduleId));
+        invalidateQueries([...queryKeys.scheduleRuns, event.scheduleId]);
+        break;
+      case 'JOB_COMPLETED':
+        setRunningIds(prev => prev.filter(id => id !== event.scheduleId));
+        invalidateQueries([...queryKeys.scheduleRuns, event.scheduleId]);
+        break;
+      default:
+        break;
     }
+    
+    setLiveUpdates(prev => ({
+      ...prev,
+      [event.scheduleId]: { ...prev[event.scheduleId], ...changes }
+    }));
   };
   
-  const handlePause = async (schedule: Schedule) => {
-    const response = await executePause(schedule.id);
-    if (response.data) {
-      fetchSchedules({ page: currentPage, size: pageSize, search: searchTerm, status: statusFilter });
+  const { connection: eventConnection, error: eventError } = useScheduleEvents(handleScheduleEvent);
+  
+  // A new filter means a new set of matching schedules, so drop the selection
+  useEffect(() => {
+    setSelectedIds([]);
+    setSelectAllMatching(false);
+  }, [searchTerm, statusFilter]);
+  
+  // Action handlers
+  // Set the status of one row in every cached schedule list and calendar; the
+  // other queries under the schedules key don't hold pages
+  const setCachedStatus = (scheduleId: string, status: Schedule['status']) => {
+    [[...queryKeys.schedules, 'list'], [...queryKeys.schedules, 'calendar']].forEach(prefix =>
+      updateQueryData<SchedulePage>(prefix, page => ({
+        ...page,
+        content: page.content.map(item => item.id === scheduleId ? { ...item, status } : item)
+      }))
+    );
+  };
+  
+  // Flip the status straight away and put back only this row's status if the call fails,
+  // so other rows changed in the meantime keep theirs
+  const changeStatus = async (schedule: Schedule, status: 'ACTIVE' | 'PAUSED') => {
+    setCachedStatus(schedule.id, status);
+    
+    setPendingStatusIds(prev => [...prev, schedule.id]);
+    setRowErrors(({ [schedule.id]: _, ...rest }) => rest);
+    
+    const response = status === 'ACTIVE'
+      ? await executeActivate(schedule.id)
+      : await executePause(schedule.id);
+    
+    setPendingStatusIds(prev => prev.filter(id => id !== schedule.id));
+    
+    if (response.error) {
+      setCachedStatus(schedule.id, schedule.status);
+      setRowErrors(prev => ({
+        ...prev,
+        [schedule.id]: `Failed to ${status === 'ACTIVE' ? 'activate' : 'pause'}: ${response.error}`
+      }));
     }
   };
   
+  const handleActivate = (schedule: Schedule) => changeStatus(schedule, 'ACTIVE');
+  
+  const handlePause = (schedule: Schedule) => changeStatus(schedule, 'PAUSED');
+  
   const handleDeleteClick = (schedule: Schedule) => {
     setSelectedSchedule(schedule);
     setShowDeleteModal(true);
@@ -104,7 +220,6 @@ const ScheduleList: React.FC<ScheduleListProps> = () => {
       const response = await executeDelete(selectedSchedule.id);
       if (response.data) {
         setShowDeleteModal(false);
-        fetchSchedules({ page: currentPage, size: pageSize, search: searchTerm, status: statusFilter });
       }
     }
   };
@@ -117,6 +232,83 @@ const ScheduleList: React.FC<ScheduleListProps> = () => {
     navigate(`/schedules/${schedule.id}`);
   };
   
+  const handleHistoryClick = (schedule: Schedule) => {
+    setHistorySchedule(schedule);
+  };
+  
+  const handleRunNowClick = (schedule: Schedule) => {
+    setRunNowSchedule(schedule);
+  };
+  
+  const handleCloneClick = (schedule: Schedule) => {
+    navigate(`/schedules/new?cloneFrom=${schedule.id}`);
+  };
+  
+  // Selection handlers
+  const pageSchedules: Schedule[] = (schedulesData?.data?.content || []).map((schedule: Schedule) => ({
+    ...schedule,
+    ...liveUpdates[schedule.id]
+  }));
+  const totalMatching: number = schedulesData?.data?.totalElements || 0;
+  const isPageSelected = pageSchedules.length > 0 &&
+    (selectAllMatching || pageSchedules.every(schedule => selectedIds.includes(schedule.id)));
+  const selectionCount = selectAllMatching ? totalMatching : selectedIds.length;
+  
+  const handleToggleSchedule = (schedule: Schedule) => {
+    if (selectAllMatching) {
+      // Leaving "all matching" mode keeps everything else on the page selected
+      setSelectAllMatching(false);
+      setSelectedIds(pageSchedules.map(item => item.id).filter(id => id !== schedule.id));
+      return;
+    }
+    
+    setSelectedIds(prev => prev.includes(schedule.id)
+      ? prev.filter(id => id !== schedule.id)
+      : [...prev, schedule.id]
+    );
+  };
+  
+  const handleTogglePage = () => {
+    const pageIds = pageSchedules.map(schedule => schedule.id);
+    
+    if (isPageSelected) {
+      setSelectAllMatching(false);
+      setSelectedIds(prev => prev.filter(id => !pageIds.includes(id)));
+    } else {
+      setSelectedIds(prev => Array.from(new Set([...prev, ...pageIds])));
+    }
+  };
+  
+  const handleClearSelection = () => {
+    setSelectedIds([]);
+    setSelectAllMatching(false);
+  };
+  
+  // Bulk action handlers
+  const runBulkAction = async (action: ScheduleBatchAction) => {
+    const request = selectAllMatching
+      ? { action, filter: { search: searchTerm, status: statusFilter } }
+      : { action, scheduleIds: selectedIds };
+    
+    setRunningBulkAction(action);
+    const response = await executeBulk(request);
+    setRunningBulkAction(null);
+    
+    if (response.data) {
+      setShowBulkDeleteModal(false);
+      setBulkResult(response.data);
+      handleClearSelection();
+    }
+  };
+  
+  const handleBulkActionClick = (action: ScheduleBatchAction) => {
+    if (action === 'DELETE') {
+      setShowBulkDeleteModal(true);
+    } else {
+      runBulkAction(action);
+    }
+  };
+  
   const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSearchTerm(e.target.value);
     setCurrentPage(0); // Reset to first page on search
@@ -127,10 +319,25 @@ const ScheduleList: React.FC<ScheduleListProps> = () => {
     setCurrentPage(0); // Reset to first page on filter change
   };
   
-  // Format date for display
-  const formatDate = (dateString: string) => {
-    if (!dateString) return 'N/A';
-    return new Date(dateString).toLocaleString();
+  const viewerTimeZone = getBrowserTimeZone();
+  
+  // Format date for display in the schedule's zone, and the viewer's zone when it differs
+  const formatDate = (dateString: string, schedule: Schedule) => {
+    const date = parseScheduleDateTime(dateString, schedule.timeZone);
+    if (!date) return 'N/A';
+    
+    const scheduleTimeZone = schedule.timeZone || viewerTimeZone;
+    
+    return (
+      <div className="schedule-time">
+        <span>{formatInTimeZone(date, scheduleTimeZone)}</span>
+        {scheduleTimeZone !== viewerTimeZone && (
+          <span className="schedule-time-local">
+            {formatInTimeZone(date, viewerTimeZone)} your time
+          </span>
+        )}
+      </div>
+    );
   };
   
   // Get status badge color
@@ -151,6 +358,25 @@ const ScheduleList: React.FC<ScheduleListProps> = () => {
   
   // Table columns
   const columns = [
+    {
+      header: (
+        <input
+          type="checkbox"
+          checked={isPageSelected}
+          onChange={handleTogglePage}
+          aria-label="Select all schedules on this page"
+        />
+      ),
+      accessor: 'select',
+      cell: (schedule: Schedule) => (
+        <input
+          type="checkbox"
+          checked={selectAllMatching || selectedIds.includes(schedule.id)}
+          onChange={() => handleToggleSchedule(schedule)}
+          aria-label={`Select ${schedule.name}`}
+        />
+      )
+    },
     {
       header: 'Schedule Name',
       accessor: 'name',
@@ -168,9 +394,22 @@ const ScheduleList: React.FC<ScheduleListProps> = () => {
       header: 'Status',
       accessor: 'status',
       cell: (schedule: Schedule) => (
-        <Badge color={getStatusBadgeColor(schedule.status)}>
-          {schedule.status}
-        </Badge>
+        <div className="schedule-status">
+          <Badge color={getStatusBadgeColor(schedule.status)}>
+            {schedule.status}
+          </Badge>
+          {runningIds.includes(schedule.id) && (
+            <span className="schedule-running" title="A generation job is running">
+              <span className="schedule-running-dot" />
+              Running
+            </span>
+          )}
+          {rowErrors[schedule.id] && (
+            <span className="schedule-row-error" title={rowErrors[schedule.id]}>
+              {rowErrors[schedule.id]}
+            </span>
+          )}
+        </div>
       )
     },
     {
@@ -182,12 +421,24 @@ const ScheduleList: React.FC<ScheduleListProps> = () => {
     {
       header: 'Next Run',
       accessor: 'nextRunTime',
-      cell: (schedule: Schedule) => formatDate(schedule.nextRunTime)
+      cell: (schedule: Schedule) => formatDate(schedule.nextRunTime, schedule)
     },
     {
       header: 'Last Run',
       accessor: 'lastRunTime',
-      cell: (schedule: Schedule) => schedule.lastRunTime ? formatDate(schedule.lastRunTime) : 'Never'
+      cell: (schedule: Schedule) => schedule.lastRunTime ? formatDate(schedule.lastRunTime, schedule) : 'Never'
+    },
+    {
+      header: 'Runs',
+      accessor: 'runCount',
+      cell: (schedule: Schedule) => (
+        <div className="schedule-lifetime">
+          <span>{describeRunProgress(schedule)}</span>
+          {schedule.endDate && (
+            <span className="schedule-lifetime-end">Ends {formatLifetimeDate(schedule.endDate)}</span>
+          )}
+        </div>
+      )
     },
     {
       header: 'Format',
@@ -210,13 +461,31 @@ const ScheduleList: React.FC<ScheduleListProps> = () => {
             onClick={() => handleEditClick(schedule)}
             title="Edit schedule"
           />
+          <Button
+            variant="icon"
+            icon="clock"
+            onClick={() => handleHistoryClick(schedule)}
+            title="Run history"
+          />
+          <Button
+            variant="icon"
+            icon="zap"
+            onClick={() => handleRunNowClick(schedule)}
+            title="Run now"
+          />
+          <Button
+            variant="icon"
+            icon="copy"
+            onClick={() => handleCloneClick(schedule)}
+            title="Clone schedule"
+          />
           
           {schedule.status === 'ACTIVE' ? (
             <Button
               variant="icon"
               icon="pause"
               onClick={() => handlePause(schedule)}
-              isLoading={isPausing}
+              disabled={pendingStatusIds.includes(schedule.id)}
               title="Pause schedule"
             />
           ) : (
@@ -224,9 +493,8 @@ const ScheduleList: React.FC<ScheduleListProps> = () => {
               variant="icon"
               icon="play"
               onClick={() => handleActivate(schedule)}
-              isLoading={isActivating}
               title="Activate schedule"
-              disabled={schedule.status === 'COMPLETED'}
+              disabled={schedule.status === 'COMPLETED' || pendingStatusIds.includes(schedule.id)}
             />
           )}
           
@@ -242,19 +510,49 @@ const ScheduleList: React.FC<ScheduleListProps> = () => {
   ];
   
   // Get aggregated error message
-  const aggregatedError = error || activateError || pauseError || deleteError;
+  const aggregatedError = error || deleteError || bulkError;
   
   return (
     <div className="schedule-list">
       <div className="header-actions">
-        <h2>Generation Schedules</h2>
-        <Button
-          variant="primary"
-          icon="plus"
-          onClick={() => navigate('/schedules/new')}
-        >
-          Create Schedule
-        </Button>
+        <div className="header-title">
+          <h2>Generation Schedules</h2>
+          <span
+            className={`live-status ${eventConnection} ${eventError ? 'failed' : ''}`}
+            title={eventError
+              ? `Checking for updates failed: ${eventError}`
+              : eventConnection === 'polling' ? 'Live updates unavailable, checking periodically' : undefined}
+          >
+            {eventConnection === 'stream'
+              ? 'Live'
+              : eventConnection === 'polling' ? (eventError ? 'Auto-refresh failing' : 'Auto-refresh') : 'Connecting...'}
+          </span>
+        </div>
+        <div className="header-buttons">
+          <div className="view-toggle">
+            <button
+              type="button"
+              className={viewMode === 'table' ? 'active' : ''}
+              onClick={() => setViewMode('table')}
+            >
+              Table
+            </button>
+            <button
+              type="button"
+              className={viewMode === 'calendar' ? 'active' : ''}
+              onClick={() => setViewMode('calendar')}
+            >
+              Calendar
+            </button>
+          </div>
+          <Button
+            variant="primary"
+            icon="plus"
+            onClick={() => navigate('/schedules/new')}
+          >
+            Create Schedule
+          </Button>
+        </div>
       </div>
       
       {aggregatedError && (
@@ -263,46 +561,102 @@ const ScheduleList: React.FC<ScheduleListProps> = () => {
         </Alert>
       )}
       
-      <Card>
-        <div className="filters">
-          <Input
-            placeholder="Search schedules..."
-            value={searchTerm}
-            onChange={handleSearchChange}
-            icon="search"
-            className="search-input"
-          />
+      {viewMode === 'calendar' ? (
+        <ScheduleCalendar />
+      ) : (
+        <Card>
+          <div className="filters">
+            <Input
+              placeholder="Search schedules..."
+              value={searchTerm}
+              onChange={handleSearchChange}
+              icon="search"
+              className="search-input"
+            />
           
-          <div className="status-filter">
-            <select 
-              value={statusFilter} 
-              onChange={handleStatusFilterChange}
-              className="status-select"
-            >
-              <option value="">All Statuses</option>
-              <option value="ACTIVE">Active</option>
-              <option value="PAUSED">Paused</option>
-              <option value="COMPLETED">Completed</option>
-              <option value="ERROR">Error</option>
-            </select>
+            <div className="status-filter">
+              <select 
+                value={statusFilter} 
+                onChange={handleStatusFilterChange}
+                className="status-select"
+              >
+                <option value="">All Statuses</option>
+                <option value="ACTIVE">Active</option>
+                <option value="PAUSED">Paused</option>
+                <option value="COMPLETED">Completed</option>
+                <option value="ERROR">Error</option>
+              </select>
+            </div>
           </div>
-        </div>
         
-        <Table
-          columns={columns}
-          data={schedulesData?.data?.content || []}
-          isLoading={isLoading}
-          pagination={{
-            currentPage,
-            totalPages: schedulesData?.data?.totalPages || 1,
-            totalItems: schedulesData?.data?.totalElements || 0,
-            pageSize,
-            onPageChange: setCurrentPage,
-            onPageSizeChange: setPageSize
-          }}
-          emptyMessage="No schedules found"
-        />
-      </Card>
+          {selectionCount > 0 && (
+            <div className="bulk-actions">
+              <span className="bulk-selection-count">
+                {selectionCount} schedule{selectionCount === 1 ? '' : 's'} selected
+              </span>
+            
+              {isPageSelected && !selectAllMatching && totalMatching > pageSchedules.length && (
+                <Button
+                  variant="text"
+                  size="small"
+                  onClick={() => setSelectAllMatching(true)}
+                >
+                  Select all {totalMatching} matching schedules
+                </Button>
+              )}
+            
+              <div className="bulk-action-buttons">
+                {(['ACTIVATE', 'PAUSE', 'RUN_NOW', 'DELETE'] as ScheduleBatchAction[]).map(action => (
+                  <Button
+                    key={action}
+                    variant={action === 'DELETE' ? 'danger' : 'outline'}
+                    size="small"
+                    onClick={() => handleBulkActionClick(action)}
+                    isLoading={runningBulkAction === action && action !== 'DELETE'}
+                    disabled={isBulkRunning}
+                  >
+                    {BULK_ACTION_LABELS[action]}
+                  </Button>
+                ))}
+                <Button
+                  variant="text"
+                  size="small"
+                  onClick={handleClearSelection}
+                >
+                  Clear
+                </Button>
+              </div>
+            </div>
+          )}
+        
+          <Table
+            columns={columns}
+            data={pageSchedules}
+            isLoading={isLoading}
+            pagination={{
+              currentPage,
+              totalPages: schedulesData?.data?.totalPages || 1,
+              totalItems: schedulesData?.data?.totalElements || 0,
+              pageSize,
+              onPageChange: setCurrentPage,
+              onPageSizeChange: setPageSize
+            }}
+            emptyMessage="No schedules found"
+          />
+        </Card>
+      )}
+      
+      <ScheduleRunHistory
+        schedule={historySchedule}
+        isOpen={Boolean(historySchedule)}
+        onClose={() => setHistorySchedule(null)}
+      />
+      
+      <RunNowModal
+        schedule={runNowSchedule}
+        isOpen={Boolean(runNowSchedule)}
+        onClose={() => setRunNowSchedule(null)}
+      />
       
       <Modal
         isOpen={showDeleteModal}
@@ -329,6 +683,78 @@ const ScheduleList: React.FC<ScheduleListProps> = () => {
           </Button>
         </div>
       </Modal>
+      
+      <Modal
+        isOpen={showBulkDeleteModal}
+        onClose={() => setShowBulkDeleteModal(false)}
+        title="Confirm Bulk Delete"
+      >
+        <p>
+          Are you sure you want to delete {selectionCount} schedule{selectionCount === 1 ? '' : 's'}? 
+          This action cannot be undone.
+        </p>
+        <div className="modal-actions">
+          <Button
+            variant="outline"
+            onClick={() => setShowBulkDeleteModal(false)}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="danger"
+            onClick={() => runBulkAction('DELETE')}
+            isLoading={isBulkRunning}
+          >
+            Delete Schedules
+          </Button>
+        </div>
+      </Modal>
+      
+      <Modal
+        isOpen={Boolean(bulkResult)}
+        onClose={() => setBulkResult(null)}
+        title={bulkResult ? `${BULK_ACTION_LABELS[bulkResult.action]} Results` : ''}
+      >
+        {bulkResult && (
+          <div className="bulk-result">
+            <p>
+              {bulkResult.successCount} succeeded, {bulkResult.failureCount} failed.
+            </p>
+            
+            {bulkResult.failureCount > 0 && (
+              <div className="bulk-result-section">
+                <h4>Failed</h4>
+                <ul>
+                  {bulkResult.results.filter(item => !item.success).map(item => (
+                    <li key={item.scheduleId} className="bulk-result-failed">
+                      <strong>{item.scheduleName}</strong>: {item.error || 'Unknown error'}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            
+            {bulkResult.successCount > 0 && (
+              <div className="bulk-result-section">
+                <h4>Succeeded</h4>
+                <ul>
+                  {bulkResult.results.filter(item => item.success).map(item => (
+                    <li key={item.scheduleId}>{item.scheduleName}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+        <div className="modal-actions">
+          <Button
+            variant="primary"
+            onClick={() => setBulkResult(null)}
+          >
+            Close
+          </Button>
+        </div>
+      </Modal>
     </div>
   );
 };
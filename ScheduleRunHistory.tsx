@@ -0,0 +1,245 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '../../common/Button';
+import { Table } from '../../common/Table';
+import { Alert } from '../../common/Alert';
+import { Badge } from '../../common/Badge';
+import useApiQuery from './useApiQuery';
+import useApiMutation from './useApiMutation';
+import { queryKeys } from './query-cache';
+import {
+  ScheduleRun,
+  getScheduleRuns,
+  getScheduleRunDownloadUrl,
+  runScheduleNow
+} from './schedule-run-api';
+import { DELIVERY_STATUS_COLORS } from './delivery-destination';
+import { getBrowserTimeZone, parseScheduleDateTime, formatInTimeZone } from './time-zone';
+import './ScheduleRunHistory.css';
+
+interface ScheduleRunHistoryProps {
+  schedule: {
+    id: string;
+    name: string;
+    timeZone?: string;
+  } | null;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const ScheduleRunHistory: React.FC<ScheduleRunHistoryProps> = ({
+  schedule,
+  isOpen,
+  onClose
+}) => {
+  const [currentPage, setCurrentPage] = useState(0);
+  const [pageSize, setPageSize] = useState(10);
+
+  const runQuery = { page: currentPage, size: pageSize };
+  
+  const {
+    data: runsData,
+    isLoading,
+    error
+  } = useApiQuery(
+    [...queryKeys.scheduleRuns, schedule?.id, runQuery],
+    signal => getScheduleRuns(schedule?.id || '', runQuery, signal),
+    { enabled: isOpen && Boolean(schedule) }
+  );
+
+  const {
+    isLoading: isRebuilding,
+    error: rebuildError,
+    execute: executeRebuild
+  } = useApiMutation(runScheduleNow, {
+    invalidates: [[...queryKeys.scheduleRuns, schedule?.id]]
+  });
+
+  // Start from the first page whenever another schedule is opened
+  useEffect(() => {
+    setCurrentPage(0);
+  }, [schedule?.id]);
+
+  if (!isOpen || !schedule) {
+    return null;
+  }
+
+  const timeZone = schedule.timeZone || getBrowserTimeZone();
+
+  const formatDate = (dateString?: string) => {
+    const date = dateString ? parseScheduleDateTime(dateString, schedule.timeZone) : null;
+    return date ? formatInTimeZone(date, timeZone) : 'N/A';
+  };
+
+  const formatDuration = (durationMs?: number) => {
+    if (durationMs === undefined || durationMs === null) return 'N/A';
+    if (durationMs < 1000) return `${durationMs} ms`;
+
+    const seconds = Math.round(durationMs / 1000);
+    return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+  };
+
+  const getStatusBadgeColor = (status: string) => {
+    switch (status) {
+      case 'SUCCESS':
+        return 'success';
+      case 'RUNNING':
+        return 'info';
+      case 'FAILED':
+        return 'danger';
+      default:
+        return 'default';
+    }
+  };
+
+  // Same seed, rows and format; the template may have changed since
+  const handleRebuild = (run: ScheduleRun) => {
+    if (!schedule || run.seed === undefined) return;
+    executeRebuild(schedule.id, {
+      seed: run.seed,
+      rowCount: run.rowCount,
+      outputFormat: run.outputFormat
+    });
+  };
+
+  const columns = [
+    {
+      header: 'Started',
+      accessor: 'startTime',
+      cell: (run: ScheduleRun) => formatDate(run.startTime)
+    },
+    {
+      header: 'Finished',
+      accessor: 'endTime',
+      cell: (run: ScheduleRun) => run.endTime ? formatDate(run.endTime) : '—'
+    },
+    {
+      header: 'Duration',
+      accessor: 'durationMs',
+      cell: (run: ScheduleRun) => formatDuration(run.durationMs)
+    },
+    {
+      header: 'Rows',
+      accessor: 'rowCount'
+    },
+    {
+      header: 'Format',
+      accessor: 'outputFormat'
+    },
+    {
+      header: 'Status',
+      accessor: 'status',
+      cell: (run: ScheduleRun) => (
+        <div className="run-status">
+          <Badge color={getStatusBadgeColor(run.status)}>
+            {run.status}
+          </Badge>
+          {run.errorMessage && (
+            <span className="run-error" title={run.errorMessage}>
+              {run.errorMessage}
+            </span>
+          )}
+        </div>
+      )
+    },
+    {
+      header: 'Output',
+      accessor: 'outputFile',
+      cell: (run: ScheduleRun) => run.outputFile ? (
+        <a
+          href={getScheduleRunDownloadUrl(schedule.id, run.id)}
+          className="run-download-link"
+          title={run.outputFile}
+          download
+        >
+          Download
+        </a>
+      ) : '—'
+    },
+    {
+      header: 'Seed',
+      accessor: 'seed',
+      cell: (run: ScheduleRun) => run.seed !== undefined ? (
+        <div className="run-seed">
+          <code title={run.templateVersion !== undefined ? `Template version ${run.templateVersion}` : undefined}>
+            {run.seed}
+          </code>
+          <Button
+            variant="text"
+            size="small"
+            onClick={() => handleRebuild(run)}
+            disabled={isRebuilding}
+            title="Run again with this seed, row count and format"
+          >
+            Rebuild
+          </Button>
+        </div>
+      ) : '—'
+    },
+    {
+      header: 'Delivery',
+      accessor: 'deliveries',
+      cell: (run: ScheduleRun) => run.deliveries && run.deliveries.length > 0 ? (
+        <ul className="run-deliveries">
+          {run.deliveries.map(delivery => (
+            <li
+              key={delivery.destinationId}
+              title={[delivery.location, delivery.message].filter(Boolean).join(' — ')}
+            >
+              <Badge color={DELIVERY_STATUS_COLORS[delivery.status]}>
+                {delivery.status}
+              </Badge>
+              <span className="run-delivery-name">{delivery.destinationName}</span>
+            </li>
+          ))}
+        </ul>
+      ) : '—'
+    }
+  ];
+
+  return (
+    <div className="run-history-overlay" onClick={onClose}>
+      <aside
+        className="run-history-drawer"
+        role="dialog"
+        aria-label={`Run history for ${schedule.name}`}
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="run-history-header">
+          <div>
+            <h3>Run History</h3>
+            <p className="run-history-subtitle">{schedule.name}</p>
+          </div>
+          <Button
+            variant="icon"
+            icon="x"
+            onClick={onClose}
+            title="Close run history"
+          />
+        </div>
+
+        {(error || rebuildError) && (
+          <Alert type="error" className="mb-4">
+            {error || rebuildError}
+          </Alert>
+        )}
+
+        <Table
+          columns={columns}
+          data={runsData?.data?.content || []}
+          isLoading={isLoading}
+          pagination={{
+            currentPage,
+            totalPages: runsData?.data?.totalPages || 1,
+            totalItems: runsData?.data?.totalElements || 0,
+            pageSize,
+            onPageChange: setCurrentPage,
+            onPageSizeChange: setPageSize
+          }}
+          emptyMessage="This schedule has not run yet"
+        />
+      </aside>
+    </div>
+  );
+};
+
+export default ScheduleRunHistory;
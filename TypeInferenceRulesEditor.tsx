@@ -0,0 +1,255 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card } from '../../common/Card';
+import { Button } from '../../common/Button';
+import { Table } from '../../common/Table';
+import { Alert } from '../../common/Alert';
+import { Input } from '../../common/Input';
+import useApiMutation from './useApiMutation';
+import { queryKeys } from './query-cache';
+import { updateTypeInferenceRules } from './data-type-api';
+import { useDataTypes } from './DataTypesContext';
+import {
+  TypeInferenceRule,
+  DEFAULT_TYPE_INFERENCE_RULES,
+  compileRulePattern,
+  inferDataTypes
+} from './type-inference';
+import './TypeInferenceRulesEditor.css';
+
+/**
+ * Admin screen for the rules that suggest data types from column names and
+ * sample values. Changes apply to every user once saved.
+ */
+const TypeInferenceRulesEditor: React.FC = () => {
+  const { dataTypes, inferenceRules } = useDataTypes();
+
+  const [rules, setRules] = useState<TypeInferenceRule[]>(inferenceRules);
+  const [testName, setTestName] = useState('');
+  const [testValues, setTestValues] = useState('');
+  const [saved, setSaved] = useState(false);
+
+  const {
+    isLoading: isSaving,
+    error: saveError,
+    execute: saveRules
+  } = useApiMutation(updateTypeInferenceRules, {
+    invalidates: [queryKeys.typeInferenceRules]
+  });
+
+  // Pick up the shared rules once they load
+  useEffect(() => {
+    setRules(inferenceRules);
+  }, [inferenceRules]);
+
+  const ruleErrors = useMemo(() => {
+    const errors: Record<string, string> = {};
+    rules.forEach(rule => {
+      if (!rule.type) {
+        errors[rule.id] = 'Choose a data type';
+      } else if (!rule.namePattern && !rule.valuePattern) {
+        errors[rule.id] = 'Enter a name or value pattern';
+      } else if (rule.namePattern && !compileRulePattern(rule.namePattern)) {
+        errors[rule.id] = 'Name pattern is not a valid regular expression';
+      } else if (rule.valuePattern && !compileRulePattern(rule.valuePattern)) {
+        errors[rule.id] = 'Value pattern is not a valid regular expression';
+      } else if (isNaN(rule.weight) || rule.weight <= 0 || rule.weight > 1) {
+        errors[rule.id] = 'Weight must be between 0 and 1';
+      }
+    });
+    return errors;
+  }, [rules]);
+
+  const testSuggestions = useMemo(
+    () => testName || testValues
+      ? inferDataTypes(rules, testName, testValues.split(',').map(value => value.trim()), undefined, 5)
+      : [],
+    [rules, testName, testValues]
+  );
+
+  const updateRule = (id: string, changes: Partial<TypeInferenceRule>) => {
+    setRules(prev => prev.map(rule => rule.id === id ? { ...rule, ...changes } : rule));
+    setSaved(false);
+  };
+
+  const handleAddRule = () => {
+    setRules(prev => [...prev, { id: `rule-${Date.now()}`, type: '', namePattern: '', weight: 0.8 }]);
+    setSaved(false);
+  };
+
+  const handleRemoveRule = (id: string) => {
+    setRules(prev => prev.filter(rule => rule.id !== id));
+    setSaved(false);
+  };
+
+  const handleResetDefaults = () => {
+    setRules(DEFAULT_TYPE_INFERENCE_RULES);
+    setSaved(false);
+  };
+
+  const handleSave = async () => {
+    // Empty patterns are stored as absent
+    const response = await saveRules(rules.map(rule => ({
+      ...rule,
+      namePattern: rule.namePattern || undefined,
+      valuePattern: rule.valuePattern || undefined
+    })));
+
+    if (!response.error) {
+      setSaved(true);
+    }
+  };
+
+  const columns = [
+    {
+      header: 'Data Type',
+      accessor: 'type',
+      cell: (rule: TypeInferenceRule) => (
+        <select
+          className="rule-type-select"
+          value={rule.type}
+          onChange={e => updateRule(rule.id, { type: e.target.value })}
+        >
+          <option value="">Select...</option>
+          {dataTypes.map(dataType => (
+            <option key={dataType.type} value={dataType.type}>{dataType.displayName}</option>
+          ))}
+          {rule.type && !dataTypes.some(dataType => dataType.type === rule.type) && (
+            <option value={rule.type}>{rule.type} (not registered)</option>
+          )}
+        </select>
+      )
+    },
+    {
+      header: 'Column Name Pattern',
+      accessor: 'namePattern',
+      cell: (rule: TypeInferenceRule) => (
+        <input
+          className="rule-pattern-input"
+          value={rule.namePattern || ''}
+          onChange={e => updateRule(rule.id, { namePattern: e.target.value })}
+          placeholder=".*email.*"
+        />
+      )
+    },
+    {
+      header: 'Sample Value Pattern',
+      accessor: 'valuePattern',
+      cell: (rule: TypeInferenceRule) => (
+        <input
+          className="rule-pattern-input"
+          value={rule.valuePattern || ''}
+          onChange={e => updateRule(rule.id, { valuePattern: e.target.value })}
+          placeholder="\d{3}-\d{2}-\d{4}"
+        />
+      )
+    },
+    {
+      header: 'Weight',
+      accessor: 'weight',
+      cell: (rule: TypeInferenceRule) => (
+        <input
+          className="rule-weight-input"
+          type="number"
+          min="0.05"
+          max="1"
+          step="0.05"
+          value={rule.weight}
+          onChange={e => updateRule(rule.id, { weight: parseFloat(e.target.value) })}
+        />
+      )
+    },
+    {
+      header: '',
+      accessor: 'actions',
+      cell: (rule: TypeInferenceRule) => (
+        <div className="rule-actions">
+          {ruleErrors[rule.id] && <span className="rule-error">{ruleErrors[rule.id]}</span>}
+          <Button
+            variant="icon"
+            icon="trash"
+            onClick={() => handleRemoveRule(rule.id)}
+            title="Remove rule"
+          />
+        </div>
+      )
+    }
+  ];
+
+  return (
+    <div className="type-inference-rules">
+      <div className="header-actions">
+        <h2>Type Suggestion Rules</h2>
+        <div className="header-buttons">
+          <Button variant="outline" onClick={handleResetDefaults}>
+            Reset to Defaults
+          </Button>
+          <Button
+            variant="primary"
+            onClick={handleSave}
+            isLoading={isSaving}
+            disabled={Object.keys(ruleErrors).length > 0}
+          >
+            Save Rules
+          </Button>
+        </div>
+      </div>
+
+      {saveError && (
+        <Alert type="error" className="mb-4">
+          {saveError}
+        </Alert>
+      )}
+
+      {saved && (
+        <Alert type="success" className="mb-4">
+          Rules saved. New suggestions use them straight away.
+        </Alert>
+      )}
+
+      <Card className="rule-tester">
+        <h3>Try it</h3>
+        <div className="rule-tester-inputs">
+          <Input
+            label="Column Name"
+            value={testName}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTestName(e.target.value)}
+            placeholder="customer_email"
+          />
+          <Input
+            label="Sample Values (comma separated)"
+            value={testValues}
+            onChange={(e: React.ChangeEvent<HTMLInputElement>) => setTestValues(e.target.value)}
+            placeholder="jane@example.com, bob@example.org"
+          />
+        </div>
+        {testSuggestions.length > 0 ? (
+          <ol className="rule-tester-results">
+            {testSuggestions.map(suggestion => (
+              <li key={suggestion.type}>
+                <strong>{suggestion.type}</strong> — {Math.round(suggestion.confidence * 100)}%
+                <span className="rule-tester-reasons">{suggestion.reasons.join('; ')}</span>
+              </li>
+            ))}
+          </ol>
+        ) : (
+          (testName || testValues) && <p className="rule-tester-empty">No rule matches.</p>
+        )}
+      </Card>
+
+      <Card>
+        <Table
+          columns={columns}
+          data={rules}
+          emptyMessage="No rules defined"
+        />
+        <div className="rule-list-footer">
+          <Button variant="outline" icon="plus" onClick={handleAddRule}>
+            Add Rule
+          </Button>
+        </div>
+      </Card>
+    </div>
+  );
+};
+
+export default TypeInferenceRulesEditor;
@@ -0,0 +1,326 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { Card } from '../../common/Card';
+import { Button } from '../../common/Button';
+import { Table } from '../../common/Table';
+import { Alert } from '../../common/Alert';
+import { Badge } from '../../common/Badge';
+import useApiQuery from './useApiQuery';
+import useApiMutation from './useApiMutation';
+import { queryKeys } from './query-cache';
+import { useDataTypes } from './DataTypesContext';
+import {
+  TemplateColumnTypeUsage,
+  TemplateColumnTypeChange,
+  getTemplateTypeIssues,
+  applyTemplateTypeMigration
+} from './type-migration-api';
+import {
+  DataTypeIssue,
+  ReplacementSuggestion,
+  getDataTypeIssue,
+  suggestReplacementTypes,
+  mapConstraints
+} from './type-migration';
+import './TypeMigrationWizard.css';
+
+interface AffectedType {
+  type: string;
+  issue: DataTypeIssue;
+  usages: TemplateColumnTypeUsage[];
+  templateCount: number;
+  suggestions: ReplacementSuggestion[];
+}
+
+interface PlannedChange {
+  usage: TemplateColumnTypeUsage;
+  change: TemplateColumnTypeChange;
+  carried: string[];
+  dropped: string[];
+}
+
+/**
+ * Finds template columns whose types are unknown or deprecated and moves
+ * them to replacement types across all templates at once. Constraints are
+ * carried over where the replacement accepts them.
+ */
+const TypeMigrationWizard: React.FC = () => {
+  const { dataTypes, getDataType, suggestDataTypes, isLoading: isLoadingTypes } = useDataTypes();
+
+  // State
+  const [step, setStep] = useState<'choose' | 'review'>('choose');
+  const [replacements, setReplacements] = useState<Record<string, string>>({});
+
+  // API hooks
+  const {
+    data: issuesData,
+    isLoading: isLoadingIssues,
+    error: issuesError
+  } = useApiQuery(queryKeys.templateTypeIssues, signal => getTemplateTypeIssues(signal));
+
+  const {
+    data: migrationData,
+    isLoading: isApplying,
+    error: applyError,
+    execute: applyMigration
+  } = useApiMutation(applyTemplateTypeMigration, {
+    invalidates: [queryKeys.templateTypeIssues]
+  });
+
+  // Group the affected columns by their current type
+  const affectedTypes = useMemo<AffectedType[]>(() => {
+    const grouped: Record<string, TemplateColumnTypeUsage[]> = {};
+    (issuesData?.data || []).forEach(usage => {
+      if (!grouped[usage.type]) {
+        grouped[usage.type] = [];
+      }
+      grouped[usage.type].push(usage);
+    });
+
+    return Object.entries(grouped)
+      .map(([type, usages]) => ({
+        type,
+        issue: getDataTypeIssue(type, getDataType(type)),
+        usages,
+        templateCount: new Set(usages.map(usage => usage.templateId)).size,
+        suggestions: suggestReplacementTypes(
+          type,
+          dataTypes,
+          Array.from(new Set(usages.map(usage => usage.columnName))),
+          suggestDataTypes
+        )
+      }))
+      // The registry may have caught up since the server listed the column
+      .filter((affected): affected is AffectedType => affected.issue !== null)
+      .sort((a, b) => a.type.localeCompare(b.type));
+  }, [issuesData, dataTypes, getDataType, suggestDataTypes]);
+
+  // Preselect the best suggestion for types that have none chosen yet
+  useEffect(() => {
+    setReplacements(prev => {
+      const next = { ...prev };
+      affectedTypes.forEach(affected => {
+        if (next[affected.type] === undefined) {
+          next[affected.type] = affected.suggestions[0]?.type || '';
+        }
+      });
+      return next;
+    });
+  }, [affectedTypes]);
+
+  const plannedChanges = useMemo<PlannedChange[]>(() => {
+    const changes: PlannedChange[] = [];
+
+    affectedTypes.forEach(affected => {
+      const target = getDataType(replacements[affected.type] || '');
+      if (!target) return;
+
+      // Renamed constraints only apply when moving to the declared successor
+      const deprecation = getDataType(affected.type)?.deprecation;
+      const mapping = deprecation?.replacedBy === target.type ? deprecation.constraintMapping : undefined;
+
+      affected.usages.forEach(usage => {
+        const { constraints, carried, dropped } = mapConstraints(usage.constraints || {}, target, mapping);
+        changes.push({
+          usage,
+          change: {
+            templateId: usage.templateId,
+            columnId: usage.columnId,
+            fromType: usage.type,
+            type: target.type,
+            constraints
+          },
+          carried,
+          dropped
+        });
+      });
+    });
+
+    return changes;
+  }, [affectedTypes, replacements, getDataType]);
+
+  const handleReplacementChange = (type: string, replacement: string) => {
+    setReplacements(prev => ({ ...prev, [type]: replacement }));
+  };
+
+  const handleApply = async () => {
+    const response = await applyMigration(plannedChanges.map(planned => planned.change));
+
+    if (!response.error) {
+      setStep('choose');
+      setReplacements({});
+    }
+  };
+
+  const affectedColumns = [
+    {
+      header: 'Current Type',
+      accessor: 'type',
+      cell: (affected: AffectedType) => (
+        <div className="migration-type">
+          <code>{affected.type}</code>
+          <Badge color={affected.issue.kind === 'UNKNOWN' ? 'danger' : 'warning'}>
+            {affected.issue.kind === 'UNKNOWN' ? 'Unknown' : 'Deprecated'}
+          </Badge>
+          <span className="migration-type-message">{affected.issue.message}</span>
+        </div>
+      )
+    },
+    {
+      header: 'Used By',
+      accessor: 'usages',
+      cell: (affected: AffectedType) => (
+        <span title={affected.usages.map(usage => `${usage.templateName}.${usage.columnName}`).join('\n')}>
+          {affected.usages.length} column{affected.usages.length === 1 ? '' : 's'} in{' '}
+          {affected.templateCount} template{affected.templateCount === 1 ? '' : 's'}
+        </span>
+      )
+    },
+    {
+      header: 'Replace With',
+      accessor: 'replacement',
+      cell: (affected: AffectedType) => (
+        <select
+          className="migration-replacement-select"
+          value={replacements[affected.type] || ''}
+          onChange={e => handleReplacementChange(affected.type, e.target.value)}
+        >
+          <option value="">Leave unchanged</option>
+          {affected.suggestions.length > 0 && (
+            <optgroup label="Suggested">
+              {affected.suggestions.map(suggestion => (
+                <option key={suggestion.type} value={suggestion.type}>
+                  {getDataType(suggestion.type)?.displayName} — {suggestion.reason}
+                </option>
+              ))}
+            </optgroup>
+          )}
+          <optgroup label="All types">
+            {dataTypes
+              .filter(dataType => dataType.type !== affected.type && !dataType.deprecation)
+              .map(dataType => (
+                <option key={dataType.type} value={dataType.type}>
+                  {dataType.displayName} ({dataType.category})
+                </option>
+              ))}
+          </optgroup>
+        </select>
+      )
+    }
+  ];
+
+  const reviewColumns = [
+    {
+      header: 'Template',
+      accessor: 'templateName',
+      cell: (planned: PlannedChange) => planned.usage.templateName
+    },
+    {
+      header: 'Column',
+      accessor: 'columnName',
+      cell: (planned: PlannedChange) => planned.usage.columnName
+    },
+    {
+      header: 'Change',
+      accessor: 'type',
+      cell: (planned: PlannedChange) => (
+        <span className="migration-change">
+          <code>{planned.change.fromType}</code> → <code>{planned.change.type}</code>
+        </span>
+      )
+    },
+    {
+      header: 'Constraints',
+      accessor: 'constraints',
+      cell: (planned: PlannedChange) => (
+        <div className="migration-constraints">
+          {planned.carried.length > 0 && <span>Kept: {planned.carried.join(', ')}</span>}
+          {planned.dropped.length > 0 && (
+            <span className="migration-dropped">Dropped: {planned.dropped.join(', ')}</span>
+          )}
+          {planned.carried.length === 0 && planned.dropped.length === 0 && <span>None</span>}
+        </div>
+      )
+    }
+  ];
+
+  const droppedCount = plannedChanges.filter(planned => planned.dropped.length > 0).length;
+
+  if (isLoadingIssues || isLoadingTypes) {
+    return <div className="loading">Loading...</div>;
+  }
+
+  return (
+    <div className="type-migration-wizard">
+      <div className="header-actions">
+        <h2>Fix Data Types</h2>
+        <div className="wizard-steps">
+          <span className={step === 'choose' ? 'active' : ''}>1. Choose replacements</span>
+          <span className={step === 'review' ? 'active' : ''}>2. Review and apply</span>
+        </div>
+      </div>
+
+      {(issuesError || applyError) && (
+        <Alert type="error" className="mb-4">
+          {issuesError || applyError}
+        </Alert>
+      )}
+
+      {migrationData?.data && (
+        <Alert type="success" className="mb-4">
+          Updated {migrationData.data.updatedColumns} column{migrationData.data.updatedColumns === 1 ? '' : 's'} in{' '}
+          {migrationData.data.updatedTemplates} template{migrationData.data.updatedTemplates === 1 ? '' : 's'}.
+        </Alert>
+      )}
+
+      {step === 'choose' && (
+        <Card>
+          <Table
+            columns={affectedColumns}
+            data={affectedTypes}
+            emptyMessage="Every template column uses a registered, current data type"
+          />
+          <div className="wizard-actions">
+            <Button
+              variant="primary"
+              onClick={() => setStep('review')}
+              disabled={plannedChanges.length === 0}
+            >
+              Review {plannedChanges.length} Change{plannedChanges.length === 1 ? '' : 's'}
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      {step === 'review' && (
+        <Card>
+          {droppedCount > 0 && (
+            <Alert type="warning" className="mb-4">
+              {droppedCount} column{droppedCount === 1 ? '' : 's'} will lose constraints that the new
+              type does not support.
+            </Alert>
+          )}
+          <Table
+            columns={reviewColumns}
+            data={plannedChanges}
+            emptyMessage="No changes selected"
+          />
+          <div className="wizard-actions">
+            <Button variant="outline" onClick={() => setStep('choose')}>
+              Back
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleApply}
+              isLoading={isApplying}
+              disabled={plannedChanges.length === 0}
+            >
+              Apply to All Templates
+            </Button>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default TypeMigrationWizard;
@@ -0,0 +1,68 @@
+import { ApiResponse, get, post, put, del } from '../../../api/api-client';
+
+/**
+ * What a schedule does when a run falls on a day its calendar excludes:
+ * move it to the next or previous business day at the same time, or drop it.
+ */
+export type CalendarAdjustment = 'ROLL_FORWARD' | 'ROLL_BACK' | 'SKIP';
+
+export interface Holiday {
+  date: string;
+  name: string;
+}
+
+/**
+ * A named set of business days: the weekdays in `workingDays` (0 = Sunday,
+ * as in Date.getDay) except the `holidays`. Dates are yyyy-MM-dd and are
+ * read in each schedule's own time zone.
+ */
+export interface BusinessCalendar {
+  id?: string;
+  name: string;
+  description: string;
+  workingDays: number[];
+  holidays: Holiday[];
+  updatedAt?: string;
+}
+
+/**
+ * Get all business calendars.
+ */
+export async function getBusinessCalendars(signal?: AbortSignal): Promise<ApiResponse<BusinessCalendar[]>> {
+  return get<BusinessCalendar[]>('/business-calendars', undefined, { signal });
+}
+
+/**
+ * Get a business calendar by ID.
+ */
+export async function getBusinessCalendar(
+  id: string,
+  signal?: AbortSignal
+): Promise<ApiResponse<BusinessCalendar>> {
+  return get<BusinessCalendar>(`/business-calendars/${id}`, undefined, { signal });
+}
+
+/**
+ * Create a business calendar.
+ */
+export async function createBusinessCalendar(
+  calendar: BusinessCalendar
+): Promise<ApiResponse<BusinessCalendar>> {
+  return post<BusinessCalendar>('/business-calendars', calendar);
+}
+
+/**
+ * Update a business calendar.
+ */
+export async function updateBusinessCalendar(
+  calendar: BusinessCalendar
+): Promise<ApiResponse<BusinessCalendar>> {
+  return put<BusinessCalendar>(`/business-calendars/${calendar.id}`, calendar);
+}
+
+/**
+ * Delete a business calendar.
+ */
+export async function deleteBusinessCalendar(id: string): Promise<ApiResponse<void>> {
+  return del<void>(`/business-calendars/${id}`);
+}
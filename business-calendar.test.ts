@@ -0,0 +1,183 @@
+import { BusinessCalendar } from './business-calendar-api';
+import {
+  adjustFireTime,
+  adjustFireTimes,
+  describeWorkingDays,
+  getCalendarFireTimes,
+  parseHolidayCsv,
+  parseHolidayDate,
+  parseHolidayIcs
+} from './business-calendar';
+import { getNextFireTimes, parseCronExpression } from './cron-expression';
+
+const UTC = 'UTC';
+
+// Weekdays except Thursday 26 and Friday 27 December 2030
+const calendar: BusinessCalendar = {
+  name: 'Office',
+  description: '',
+  workingDays: [1, 2, 3, 4, 5],
+  holidays: [
+    { date: '2030-12-26', name: 'Boxing Day' },
+    { date: '2030-12-27', name: 'Bridge day' }
+  ]
+};
+
+const iso = (times: Date[]) => times.map(time => time.toISOString());
+
+const calendarFireTimes = (
+  expression: string,
+  count: number,
+  from: string,
+  adjustment: 'ROLL_FORWARD' | 'ROLL_BACK' | 'SKIP',
+  until?: string
+) => iso(getCalendarFireTimes(
+  parseCronExpression(expression),
+  count,
+  new Date(from),
+  calendar,
+  adjustment,
+  UTC,
+  until ? new Date(until) : undefined
+));
+
+// Adjust every raw run in a wide range, as a slow but obvious reference
+const referenceFireTimes = (
+  expression: string,
+  count: number,
+  from: string,
+  adjustment: 'ROLL_FORWARD' | 'ROLL_BACK' | 'SKIP',
+  days = 400
+) => {
+  const start = new Date(from);
+  const raw = getNextFireTimes(
+    parseCronExpression(expression),
+    100000,
+    new Date(start.getTime() - 15 * 24 * 60 * 60 * 1000),
+    UTC,
+    new Date(start.getTime() + days * 24 * 60 * 60 * 1000)
+  );
+  return iso(adjustFireTimes(raw, calendar, adjustment, UTC).filter(time => time > start).slice(0, count));
+};
+
+describe('adjustFireTime', () => {
+  const saturday = new Date('2030-12-28T09:30:00Z');
+
+  it('moves a run to the nearest business day at the same time', () => {
+    expect(adjustFireTime(saturday, calendar, 'ROLL_FORWARD', UTC)?.toISOString()).toBe('2030-12-30T09:30:00.000Z');
+    expect(adjustFireTime(saturday, calendar, 'ROLL_BACK', UTC)?.toISOString()).toBe('2030-12-25T09:30:00.000Z');
+    expect(adjustFireTime(saturday, calendar, 'SKIP', UTC)).toBeNull();
+  });
+
+  it('leaves runs on business days alone', () => {
+    const monday = new Date('2030-12-30T09:30:00Z');
+    expect(adjustFireTime(monday, calendar, 'ROLL_BACK', UTC)).toBe(monday);
+  });
+
+  it('skips runs with no business day close enough', () => {
+    expect(adjustFireTime(saturday, { ...calendar, workingDays: [] }, 'ROLL_FORWARD', UTC)).toBeNull();
+  });
+});
+
+describe('getCalendarFireTimes', () => {
+  it('moves daily runs off holidays and weekends', () => {
+    expect(calendarFireTimes('0 0 9 * * ?', 4, '2030-12-25T12:00:00Z', 'ROLL_FORWARD')).toEqual([
+      '2030-12-30T09:00:00.000Z',
+      '2030-12-31T09:00:00.000Z',
+      '2031-01-01T09:00:00.000Z',
+      '2031-01-02T09:00:00.000Z'
+    ]);
+    expect(calendarFireTimes('0 0 9 * * ?', 2, '2030-12-25T12:00:00Z', 'SKIP')).toEqual([
+      '2030-12-30T09:00:00.000Z',
+      '2030-12-31T09:00:00.000Z'
+    ]);
+  });
+
+  it('includes runs moved forward from before the start', () => {
+    // Saturday's run lands on Monday, after the start
+    expect(calendarFireTimes('0 0 9 ? * SAT', 1, '2030-12-30T08:00:00Z', 'ROLL_FORWARD'))
+      .toEqual(['2030-12-30T09:00:00.000Z']);
+  });
+
+  it('includes runs moved back from after the end', () => {
+    expect(calendarFireTimes('0 0 9 ? * SAT', 5, '2030-12-23T00:00:00Z', 'ROLL_BACK', '2030-12-25T23:59:59Z'))
+      .toEqual(['2030-12-25T09:00:00.000Z']);
+  });
+
+  it('finds the last business day of the month', () => {
+    // 31 August 2030 is a Saturday
+    expect(calendarFireTimes('0 0 18 L * ?', 1, '2030-08-01T00:00:00Z', 'ROLL_BACK'))
+      .toEqual(['2030-08-30T18:00:00.000Z']);
+  });
+
+  it('returns runs of sub-daily crons across a long weekend', () => {
+    ['ROLL_FORWARD', 'ROLL_BACK', 'SKIP'].forEach(adjustment => {
+      expect(calendarFireTimes('0 * * * * ?', 20, '2030-12-28T10:00:00Z', adjustment as 'SKIP')).toHaveLength(20);
+      expect(calendarFireTimes('0 0 * * * ?', 30, '2030-12-28T10:00:00Z', adjustment as 'SKIP'))
+        .toEqual(referenceFireTimes('0 0 * * * ?', 30, '2030-12-28T10:00:00Z', adjustment as 'SKIP', 10));
+    });
+  });
+
+  it('matches adjusting every raw run', () => {
+    const expressions = ['0 0 9 * * ?', '0 0 */6 * * ?', '0 30 8 ? * SAT,SUN', '0 0 12 26,27 * ?'];
+    const starts = ['2030-12-24T10:00:00Z', '2030-12-26T10:00:00Z', '2030-12-29T23:00:00Z'];
+    expressions.forEach(expression => starts.forEach(from => {
+      ['ROLL_FORWARD', 'ROLL_BACK', 'SKIP'].forEach(adjustment => {
+        expect(calendarFireTimes(expression, 8, from, adjustment as 'SKIP'))
+          .toEqual(referenceFireTimes(expression, 8, from, adjustment as 'SKIP'));
+      });
+    }));
+  });
+
+  it('stays quick for second-level crons', () => {
+    const started = Date.now();
+    ['ROLL_FORWARD', 'ROLL_BACK', 'SKIP'].forEach(adjustment => {
+      expect(calendarFireTimes('* * * * * ?', 50, '2030-12-28T12:00:00Z', adjustment as 'SKIP')).toHaveLength(50);
+    });
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  it('gives up when no run can be placed', () => {
+    const closed = { ...calendar, workingDays: [] };
+    expect(getCalendarFireTimes(parseCronExpression('0 0 9 * * ?'), 5, new Date('2030-01-01T00:00:00Z'), closed, 'ROLL_FORWARD', UTC))
+      .toEqual([]);
+  });
+});
+
+describe('holiday imports', () => {
+  it('accepts ISO and compact dates only when they exist', () => {
+    expect(parseHolidayDate('2030-12-25')).toBe('2030-12-25');
+    expect(parseHolidayDate('20301225')).toBe('2030-12-25');
+    expect(parseHolidayDate('2030-02-30')).toBeNull();
+  });
+
+  it('reads CSV lines and reports the ones it cannot use', () => {
+    expect(parseHolidayCsv('date,name\n2030-12-25,Christmas\nsoon,Later')).toEqual({
+      holidays: [{ date: '2030-12-25', name: 'Christmas' }],
+      errors: ['Line 3: "soon" is not a date (yyyy-MM-dd)']
+    });
+  });
+
+  it('expands multi-day iCalendar events', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20301224',
+      'DTEND;VALUE=DATE:20301226',
+      'SUMMARY:Christmas',
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\r\n');
+    expect(parseHolidayIcs(ics).holidays).toEqual([
+      { date: '2030-12-24', name: 'Christmas' },
+      { date: '2030-12-25', name: 'Christmas' }
+    ]);
+  });
+});
+
+describe('describeWorkingDays', () => {
+  it('shortens consecutive days to a range', () => {
+    expect(describeWorkingDays([5, 1, 2, 3, 4])).toBe('Mon–Fri');
+    expect(describeWorkingDays([1, 3, 5])).toBe('Mon, Wed, Fri');
+  });
+});
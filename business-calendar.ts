@@ -0,0 +1,395 @@
+import { BusinessCalendar, CalendarAdjustment, Holiday } from './business-calendar-api';
+import { DAY_LABELS, ParsedCronExpression, getNextFireTimes } from './cron-expression';
+import { WallTime, fromWallTime, toWallTime } from './time-zone';
+
+export const CALENDAR_ADJUSTMENT_LABELS: Record<CalendarAdjustment, string> = {
+  ROLL_FORWARD: 'Move to the next business day',
+  ROLL_BACK: 'Move to the previous business day',
+  SKIP: 'Skip the run'
+};
+
+export const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5];
+
+/**
+ * Holidays read from an uploaded file, with one message per line that
+ * could not be used.
+ */
+export interface HolidayImport {
+  holidays: Holiday[];
+  errors: string[];
+}
+
+// Runs are not moved further than this; a date with no business day this
+// close is skipped instead
+export const MAX_ROLL_DAYS = 14;
+
+// Calendar previews look no further ahead than getNextFireTimes does
+const MAX_SEARCH_DAYS = 366 * 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const COMPACT_DATE_PATTERN = /^(\d{4})(\d{2})(\d{2})/;
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+const toDateKey = (year: number, month: number, day: number): string => `${year}-${pad(month + 1)}-${pad(day)}`;
+
+const addDays = (dateKey: string, days: number): string => {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateKey(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+};
+
+/**
+ * Normalise yyyy-MM-dd or yyyyMMdd to yyyy-MM-dd, or null if it is not a
+ * real date.
+ */
+export const parseHolidayDate = (value: string): string | null => {
+  const trimmed = value.trim();
+  const match = ISO_DATE_PATTERN.exec(trimmed) || COMPACT_DATE_PATTERN.exec(trimmed);
+  if (!match) return null;
+
+  const year = parseInt(match[1], 10);
+  const month = parseInt(match[2], 10) - 1;
+  const day = parseInt(match[3], 10);
+  const date = new Date(Date.UTC(year, month, day));
+  return date.getUTCMonth() === month && date.getUTCDate() === day ? toDateKey(year, month, day) : null;
+};
+
+/**
+ * Weekday of a yyyy-MM-dd date, 0 = Sunday.
+ */
+const getWeekday = (dateKey: string): number => new Date(`${dateKey}T00:00:00Z`).getUTCDay();
+
+export const isBusinessDay = (dateKey: string, calendar: BusinessCalendar): boolean =>
+  calendar.workingDays.includes(getWeekday(dateKey)) &&
+  !calendar.holidays.some(holiday => holiday.date === dateKey);
+
+/**
+ * Working days as a short label, e.g. "Mon–Fri" or "Mon, Wed, Fri".
+ */
+export const describeWorkingDays = (workingDays: number[]): string => {
+  const days = [...workingDays].sort((a, b) => a - b);
+  if (days.length === 0) return 'No working days';
+  if (days.length === 7) return 'Every day';
+
+  const isRun = days.every((day, index) => index === 0 || day === days[index - 1] + 1);
+  const short = (day: number) => DAY_LABELS[day].slice(0, 3);
+  return isRun && days.length > 2
+    ? `${short(days[0])}–${short(days[days.length - 1])}`
+    : days.map(short).join(', ');
+};
+
+const toCalendarWallTime = (time: Date, timeZone?: string): WallTime => timeZone
+  ? toWallTime(time, timeZone)
+  : {
+    year: time.getFullYear(),
+    month: time.getMonth(),
+    day: time.getDate(),
+    hour: time.getHours(),
+    minute: time.getMinutes(),
+    second: time.getSeconds()
+  };
+
+const getCalendarDateKey = (time: Date, timeZone?: string): string => {
+  const wallTime = toCalendarWallTime(time, timeZone);
+  return toDateKey(wallTime.year, wallTime.month, wallTime.day);
+};
+
+const fromCalendarWallTime = (wallTime: WallTime, timeZone?: string): Date => timeZone
+  ? fromWallTime(wallTime, timeZone)
+  : new Date(wallTime.year, wallTime.month, wallTime.day, wallTime.hour, wallTime.minute, wallTime.second);
+
+/**
+ * The nearest business day after (step 1) or before (step -1) a date, or
+ * null when there is none within MAX_ROLL_DAYS.
+ */
+const findBusinessDay = (dateKey: string, step: 1 | -1, calendar: BusinessCalendar): string | null => {
+  for (let offset = 1; offset <= MAX_ROLL_DAYS; offset++) {
+    const candidate = addDays(dateKey, step * offset);
+    if (isBusinessDay(candidate, calendar)) return candidate;
+  }
+  return null;
+};
+
+/**
+ * Apply a calendar to one run: unchanged on a business day, otherwise moved
+ * to the nearest business day in the chosen direction at the same clock
+ * time, or null when it is skipped.
+ */
+export const adjustFireTime = (
+  time: Date,
+  calendar: BusinessCalendar,
+  adjustment: CalendarAdjustment,
+  timeZone?: string
+): Date | null => {
+  const dateKey = getCalendarDateKey(time, timeZone);
+  if (isBusinessDay(dateKey, calendar)) {
+    return time;
+  }
+  if (adjustment === 'SKIP') {
+    return null;
+  }
+
+  const target = findBusinessDay(dateKey, adjustment === 'ROLL_FORWARD' ? 1 : -1, calendar);
+  if (!target) {
+    return null;
+  }
+  const [year, month, day] = target.split('-').map(part => parseInt(part, 10));
+  return fromCalendarWallTime({ ...toCalendarWallTime(time, timeZone), year, month: month - 1, day }, timeZone);
+};
+
+/**
+ * Apply a calendar to a list of runs, dropping skipped ones and runs that
+ * land on the same instant after moving.
+ */
+export const adjustFireTimes = (
+  times: Date[],
+  calendar: BusinessCalendar,
+  adjustment: CalendarAdjustment,
+  timeZone?: string
+): Date[] => {
+  const adjusted = new Map<number, Date>();
+  times.forEach(time => {
+    const result = adjustFireTime(time, calendar, adjustment, timeZone);
+    if (result) adjusted.set(result.getTime(), result);
+  });
+  return Array.from(adjusted.values()).sort((a, b) => a.getTime() - b.getTime());
+};
+
+/**
+ * The days whose runs all land on the same business day: that day and the
+ * closed days rolled onto it. Days whose runs are skipped form a group of
+ * their own, with no target.
+ */
+const getRollGroup = (
+  dateKey: string,
+  calendar: BusinessCalendar,
+  adjustment: CalendarAdjustment
+): { target: string | null; end: string } => {
+  const isOpen = isBusinessDay(dateKey, calendar);
+  if (adjustment === 'SKIP' || (isOpen && adjustment === 'ROLL_FORWARD')) {
+    return { target: isOpen ? dateKey : null, end: dateKey };
+  }
+
+  const target = isOpen ? dateKey : findBusinessDay(dateKey, adjustment === 'ROLL_FORWARD' ? 1 : -1, calendar);
+  if (!target) return { target: null, end: dateKey };
+  if (adjustment === 'ROLL_FORWARD') return { target, end: target };
+
+  // Rolling back, the closed days after the target belong to it
+  let end = target;
+  while (end !== addDays(target, MAX_ROLL_DAYS) && !isBusinessDay(addDays(end, 1), calendar)) {
+    end = addDays(end, 1);
+  }
+  return { target, end };
+};
+
+/**
+ * Next fire times of an expression after `from` once a calendar is applied.
+ *
+ * Runs are read one group of days at a time, a business day together with
+ * the closed days rolled onto it, so results come out in order and each
+ * day only needs as many runs as are still missing. Rolling forward, the
+ * day of `from` and the closed days just before it are read from the start,
+ * since their runs can land after `from`. The search ends at `until`, or
+ * MAX_SEARCH_DAYS ahead.
+ */
+export const getCalendarFireTimes = (
+  parsed: ParsedCronExpression,
+  count: number,
+  from: Date,
+  calendar: BusinessCalendar,
+  adjustment: CalendarAdjustment,
+  timeZone?: string,
+  until?: Date
+): Date[] => {
+  const fromWallTime = toCalendarWallTime(from, timeZone);
+  const fromKey = getCalendarDateKey(from, timeZone);
+  const untilKey = until ? getCalendarDateKey(until, timeZone) : null;
+
+  const atClockTime = (dateKey: string, { hour, minute, second }: Pick<WallTime, 'hour' | 'minute' | 'second'>): Date => {
+    const [year, month, day] = dateKey.split('-').map(part => parseInt(part, 10));
+    return fromCalendarWallTime({ year, month: month - 1, day, hour, minute, second }, timeZone);
+  };
+  const startOfDay = (dateKey: string) => atClockTime(dateKey, { hour: 0, minute: 0, second: 0 });
+  const endOfDay = (dateKey: string) => new Date(startOfDay(addDays(dateKey, 1)).getTime() - 1);
+
+  // Runs moved back can come from the closed days after `until`
+  const searchUntil = untilKey
+    ? endOfDay(addDays(untilKey, adjustment === 'ROLL_BACK' ? MAX_ROLL_DAYS : 0))
+    : endOfDay(addDays(fromKey, MAX_SEARCH_DAYS));
+
+  let lookbackKey = fromKey;
+  if (adjustment === 'ROLL_FORWARD') {
+    while (lookbackKey !== addDays(fromKey, -MAX_ROLL_DAYS) && !isBusinessDay(addDays(lookbackKey, -1), calendar)) {
+      lookbackKey = addDays(lookbackKey, -1);
+    }
+  }
+
+  const results: Date[] = [];
+  let cursor = adjustment === 'ROLL_FORWARD' ? new Date(startOfDay(lookbackKey).getTime() - 1) : from;
+
+  while (results.length < count) {
+    const [next] = getNextFireTimes(parsed, 1, cursor, timeZone, searchUntil);
+    if (!next) break;
+
+    const nextKey = getCalendarDateKey(next, timeZone);
+    const group = getRollGroup(nextKey, calendar, adjustment);
+    const needed = count - results.length;
+    const groupTimes = new Map<number, Date>();
+    const inWindow = group.target !== null && group.target >= fromKey && (!untilKey || group.target <= untilKey);
+
+    for (let dateKey = nextKey; inWindow; dateKey = addDays(dateKey, 1)) {
+      // Runs rolled onto the day of `from` or `until` keep their clock time,
+      // so only that part of each day can land inside
+      let dayCursor = new Date(Math.max(cursor.getTime(), startOfDay(dateKey).getTime() - 1));
+      if (group.target === fromKey) {
+        dayCursor = new Date(Math.max(dayCursor.getTime(), atClockTime(dateKey, fromWallTime).getTime() - 1));
+      }
+      const dayEnd = until && group.target === untilKey
+        ? new Date(Math.min(endOfDay(dateKey).getTime(), atClockTime(dateKey, toCalendarWallTime(until, timeZone)).getTime() + 999))
+        : endOfDay(dateKey);
+
+      let found = 0;
+      while (found < needed) {
+        const batch = getNextFireTimes(parsed, needed, dayCursor, timeZone, dayEnd);
+        batch.forEach(time => {
+          const adjusted = adjustFireTime(time, calendar, adjustment, timeZone);
+          if (adjusted && adjusted > from && (!until || adjusted <= until)) {
+            groupTimes.set(adjusted.getTime(), adjusted);
+            found++;
+          }
+        });
+        if (batch.length < needed) break;
+        dayCursor = batch[batch.length - 1];
+      }
+
+      if (dateKey === group.end) break;
+    }
+
+    results.push(...Array.from(groupTimes.values()).sort((a, b) => a.getTime() - b.getTime()).slice(0, needed));
+    cursor = endOfDay(group.end);
+  }
+
+  return results;
+};
+
+/**
+ * Sort holidays by date, keeping the first name given for a date.
+ */
+export const mergeHolidays = (...lists: Holiday[][]): Holiday[] => {
+  const byDate = new Map<string, Holiday>();
+  lists.flat().forEach(holiday => {
+    if (!byDate.has(holiday.date)) byDate.set(holiday.date, holiday);
+  });
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Read holidays from CSV: a date (yyyy-MM-dd or yyyyMMdd) and an optional
+ * name per line, separated by a comma or semicolon. A header line is
+ * skipped.
+ */
+export const parseHolidayCsv = (text: string): HolidayImport => {
+  const holidays: Holiday[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim()) return;
+
+    const [dateCell, ...nameCells] = line.split(/[,;]/).map(cell => cell.trim().replace(/^"(.*)"$/, '$1'));
+    const date = parseHolidayDate(dateCell);
+    if (date) {
+      holidays.push({ date, name: nameCells.join(', ').trim() });
+    } else if (index > 0 || /\d/.test(dateCell)) {
+      errors.push(`Line ${index + 1}: "${dateCell}" is not a date (yyyy-MM-dd)`);
+    }
+  });
+
+  return { holidays, errors };
+};
+
+const unescapeIcsText = (value: string): string =>
+  value.replace(/\\n/gi, ' ').replace(/\\([,;\\])/g, '$1').trim();
+
+/**
+ * Read holidays from an iCalendar file: every day covered by a VEVENT.
+ * Recurrence rules are not expanded; such events count once.
+ */
+export const parseHolidayIcs = (text: string): HolidayImport => {
+  const holidays: Holiday[] = [];
+  const errors: string[] = [];
+
+  // Long lines are folded onto continuation lines that start with a space or tab
+  const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  let event: { start?: string; end?: string; name: string; recurring: boolean; line: number } | null = null;
+
+  lines.forEach((line, index) => {
+    const separator = line.indexOf(':');
+    const property = (separator >= 0 ? line.slice(0, separator) : line).split(';')[0].toUpperCase();
+    const value = separator >= 0 ? line.slice(separator + 1) : '';
+
+    if (property === 'BEGIN' && value.toUpperCase() === 'VEVENT') {
+      event = { name: '', recurring: false, line: index + 1 };
+    } else if (event && property === 'DTSTART') {
+      event.start = value;
+    } else if (event && property === 'DTEND') {
+      event.end = value;
+    } else if (event && property === 'SUMMARY') {
+      event.name = unescapeIcsText(value);
+    } else if (event && property === 'RRULE') {
+      event.recurring = true;
+    } else if (event && property === 'END' && value.toUpperCase() === 'VEVENT') {
+      const start = event.start ? parseHolidayDate(event.start) : null;
+      if (!start) {
+        errors.push(`Line ${event.line}: event "${event.name}" has no start date`);
+      } else {
+        // DTEND of an all-day event is the day after the last one
+        const end = event.end ? parseHolidayDate(event.end) : null;
+        const days = end ? Math.min(Math.max(Math.round((Date.parse(end) - Date.parse(start)) / DAY_MS), 1), 31) : 1;
+        for (let offset = 0; offset < days; offset++) {
+          const date = new Date(Date.parse(start) + offset * DAY_MS).toISOString().slice(0, 10);
+          holidays.push({ date, name: event.name });
+        }
+        if (event.recurring) {
+          errors.push(`Line ${event.line}: "${event.name}" repeats; only ${start} was imported`);
+        }
+      }
+      event = null;
+    }
+  });
+
+  return { holidays, errors };
+};
+
+/**
+ * Read a holiday file by its extension: .ics as iCalendar, anything else
+ * as CSV.
+ */
+export const parseHolidayFile = (fileName: string, text: string): HolidayImport =>
+  /\.ics$/i.test(fileName) ? parseHolidayIcs(text) : parseHolidayCsv(text);
+
+/**
+ * Check a calendar before saving. Errors are keyed by field name.
+ */
+export const validateBusinessCalendar = (calendar: BusinessCalendar): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  if (!calendar.name.trim()) {
+    errors.name = 'Name is required';
+  }
+  if (calendar.workingDays.length === 0) {
+    errors.workingDays = 'Choose at least one working day';
+  }
+
+  const dates = calendar.holidays.map(holiday => holiday.date);
+  const invalid = calendar.holidays.find(holiday => !parseHolidayDate(holiday.date));
+  if (invalid) {
+    errors.holidays = `"${invalid.date || invalid.name || 'An empty row'}" is not a valid date`;
+  } else if (new Set(dates).size !== dates.length) {
+    const duplicate = dates.find((date, index) => dates.indexOf(date) !== index);
+    errors.holidays = `${duplicate} is listed more than once`;
+  }
+
+  return errors;
+};
@@ -0,0 +1,52 @@
+import { ColumnExpressionError, getExpressionReferences, parseColumnExpression } from './column-expression';
+import { DependencyOrderResult, formatCycle, resolveDependencyOrder } from './dependency-order';
+
+// A derived column is a column of this type whose value comes from the
+// expression stored in its constraints
+export const DERIVED_COLUMN_TYPE = 'derived';
+export const EXPRESSION_CONSTRAINT = 'expression';
+
+export interface ColumnReference {
+  name: string;
+  type: string;
+  constraints?: Record<string, unknown>;
+}
+
+export type ColumnOrderResult = DependencyOrderResult;
+
+export const isDerivedColumn = (column: ColumnReference): boolean => column.type === DERIVED_COLUMN_TYPE;
+
+/**
+ * The columns a derived column reads. Columns that are not derived, or
+ * whose expression does not parse, have none.
+ */
+export const getColumnDependencies = (column: ColumnReference): string[] => {
+  const expression = column.constraints?.[EXPRESSION_CONSTRAINT];
+  if (!isDerivedColumn(column) || typeof expression !== 'string') return [];
+
+  try {
+    return getExpressionReferences(parseColumnExpression(expression));
+  } catch (e) {
+    if (e instanceof ColumnExpressionError) return [];
+    throw e;
+  }
+};
+
+/**
+ * Order columns so that every derived column comes after the columns it
+ * reads, keeping the template order otherwise. Columns in a cycle, or
+ * depending on one, are left out of `order`; each cycle is reported in
+ * `cycles`, starting from its first column in template order.
+ */
+export const resolveColumnOrder = (columns: ColumnReference[]): ColumnOrderResult => {
+  const byName = new Map(columns.map(column => [column.name, column]));
+  return resolveDependencyOrder(
+    columns.map(column => column.name),
+    name => getColumnDependencies(byName.get(name)!)
+  );
+};
+
+/**
+ * Describe a cycle for the column form, e.g. "a → b → a".
+ */
+export const formatColumnCycle = formatCycle;
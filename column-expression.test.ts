@@ -0,0 +1,95 @@
+import {
+  ColumnExpressionError,
+  evaluateColumnExpression,
+  formatExpressionValue,
+  getExpressionReferences,
+  parseColumnExpression,
+  validateColumnExpression
+} from './column-expression';
+
+const evaluate = (expression: string, row: Record<string, string | null> = {}) =>
+  formatExpressionValue(evaluateColumnExpression(parseColumnExpression(expression), row));
+
+describe('parseColumnExpression', () => {
+  it('reports where a syntax error starts', () => {
+    expect(() => parseColumnExpression('lower(firstName')).toThrow('Expected ")" but found end of expression');
+    expect(() => parseColumnExpression('1 +')).toThrow(ColumnExpressionError);
+    expect(() => parseColumnExpression('  ')).toThrow('Expression is empty');
+  });
+
+  it('reads prototype names as columns, not keywords', () => {
+    expect(parseColumnExpression('constructor')).toMatchObject({ kind: 'column', name: 'constructor' });
+    expect(parseColumnExpression('null')).toMatchObject({ kind: 'literal', value: null });
+  });
+});
+
+describe('getExpressionReferences', () => {
+  it('lists columns in order of first use', () => {
+    const tree = parseColumnExpression('concat(lastName, ", ", firstName, " ", lastName, `e-mail`)');
+    expect(getExpressionReferences(tree)).toEqual(['lastName', 'firstName', 'e-mail']);
+  });
+});
+
+describe('validateColumnExpression', () => {
+  const columns = ['firstName', 'lastName', 'statementDate'];
+
+  it('accepts a valid expression', () => {
+    expect(validateColumnExpression('lower(firstName) + "." + lower(lastName)', columns, 'email')).toEqual({
+      valid: true,
+      errors: [],
+      references: ['firstName', 'lastName']
+    });
+  });
+
+  it('reports unknown columns and references to itself', () => {
+    const { errors } = validateColumnExpression('email + middleName', columns, 'email');
+    expect(errors.map(error => error.message)).toEqual([
+      'An expression cannot refer to its own column',
+      'Unknown column "middleName"'
+    ]);
+  });
+
+  it('checks argument counts', () => {
+    expect(validateColumnExpression('substring(firstName)', columns).errors[0].message)
+      .toBe('substring() takes 2 to 3 arguments, got 1');
+    expect(validateColumnExpression('concat()', columns).errors[0].message)
+      .toBe('concat() takes at least 1 argument, got 0');
+  });
+
+  it('does not treat Object methods as functions', () => {
+    ['toString(firstName)', 'constructor(firstName)', 'hasOwnProperty(firstName)'].forEach(expression => {
+      const { valid, errors } = validateColumnExpression(expression, columns);
+      expect(valid).toBe(false);
+      expect(errors[0]).toEqual({ position: 0, message: `Unknown function "${expression.split('(')[0]}"` });
+    });
+  });
+});
+
+describe('evaluateColumnExpression', () => {
+  it('computes text from other columns', () => {
+    expect(evaluate('lower(firstName) + "." + lower(lastName) + "@example.com"', { firstName: 'Ada', lastName: 'Lovelace' }))
+      .toBe('ada.lovelace@example.com');
+  });
+
+  it('adds durations to dates', () => {
+    expect(evaluate('statementDate + 21d', { statementDate: '2030-01-20' })).toBe('2030-02-10');
+    // Like Java's plusMonths, the end of a shorter month is used
+    expect(evaluate('statementDate + 1m', { statementDate: '2030-01-31' })).toBe('2030-02-28');
+  });
+
+  it('treats missing columns as null', () => {
+    expect(evaluate('coalesce(middleName, "-")')).toBe('-');
+    expect(evaluate('coalesce(constructor, "-")')).toBe('-');
+  });
+
+  it('reports values of the wrong type', () => {
+    expect(() => evaluate('abs(firstName)', { firstName: 'Ada' })).toThrow('Ada is not a number');
+    expect(() => evaluate('year(firstName)', { firstName: 'Ada' })).toThrow(ColumnExpressionError);
+  });
+
+  it('reports Object methods as unknown functions', () => {
+    ['toString(firstName)', 'constructor(firstName)', 'hasOwnProperty(firstName)'].forEach(expression => {
+      expect(() => evaluate(expression, { firstName: 'Ada' })).toThrow(ColumnExpressionError);
+    });
+  });
+});
@@ -0,0 +1,641 @@
+/**
+ * Expressions for derived columns. A derived column's value is computed from
+ * other columns of the same row, e.g.
+ *
+ *   lower(firstName) + "." + lower(lastName) + "@example.com"
+ *   statementDate + 21d
+ *
+ * The language has string, number, boolean and date values, the operators
+ * + - * / % == != < <= > >= && || !, a fixed set of functions and durations
+ * written as a number followed by h, d, w, m (months) or y. Column names are
+ * plain identifiers, or wrapped in backticks when they contain other
+ * characters. There is no way to reach anything outside the row.
+ */
+
+export type DurationUnit = 'h' | 'd' | 'w' | 'm' | 'y';
+
+export interface Duration {
+  amount: number;
+  unit: DurationUnit;
+}
+
+export type ExpressionValue = string | number | boolean | Date | Duration | null;
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '==' | '!=' | '<' | '<=' | '>' | '>=' | '&&' | '||';
+
+export type ExpressionNode =
+  | { kind: 'literal'; value: ExpressionValue; position: number }
+  | { kind: 'column'; name: string; position: number }
+  | { kind: 'call'; name: string; args: ExpressionNode[]; position: number }
+  | { kind: 'unary'; operator: '!' | '-'; operand: ExpressionNode; position: number }
+  | { kind: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode; position: number };
+
+/**
+ * Error raised for an invalid expression or a failed evaluation. `position`
+ * is the offset in the expression where the problem starts, or null when it
+ * concerns the expression as a whole.
+ */
+export class ColumnExpressionError extends Error {
+  position: number | null;
+
+  constructor(message: string, position: number | null = null) {
+    super(message);
+    this.name = 'ColumnExpressionError';
+    this.position = position;
+  }
+}
+
+export interface ColumnExpressionIssue {
+  position: number | null;
+  message: string;
+}
+
+export interface ColumnExpressionValidationResult {
+  valid: boolean;
+  errors: ColumnExpressionIssue[];
+  references: string[];
+}
+
+type Row = Record<string, ExpressionValue | undefined>;
+
+// Names come from the expression, so lookups must not reach Object.prototype
+const hasOwn = (record: object, key: string) => Object.prototype.hasOwnProperty.call(record, key);
+
+interface ExpressionFunction {
+  minArgs: number;
+  maxArgs: number;
+  description: string;
+  apply: (args: ExpressionValue[], position: number) => ExpressionValue;
+}
+
+// Tokens
+
+type TokenKind = 'number' | 'duration' | 'string' | 'identifier' | 'column' | 'operator' | 'paren' | 'comma' | 'end';
+
+interface Token {
+  kind: TokenKind;
+  text: string;
+  position: number;
+  value?: ExpressionValue;
+}
+
+const OPERATORS = ['==', '!=', '<=', '>=', '&&', '||', '+', '-', '*', '/', '%', '<', '>', '!'];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+
+    if (/\d/.test(char) || (char === '.' && /\d/.test(source[index + 1] || ''))) {
+      const match = /^(\d*\.?\d+)([hdwmy])?(?![A-Za-z0-9_])/.exec(source.slice(index));
+      if (!match) {
+        throw new ColumnExpressionError(`Invalid number at position ${start + 1}`, start);
+      }
+      index += match[0].length;
+      const amount = parseFloat(match[1]);
+      tokens.push(match[2]
+        ? { kind: 'duration', text: match[0], position: start, value: { amount, unit: match[2] as DurationUnit } }
+        : { kind: 'number', text: match[0], position: start, value: amount });
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      index++;
+      while (index < source.length && source[index] !== char) {
+        if (source[index] === '\\' && index + 1 < source.length) {
+          index++;
+          value += source[index] === 'n' ? '\n' : source[index] === 't' ? '\t' : source[index];
+        } else {
+          value += source[index];
+        }
+        index++;
+      }
+      if (index >= source.length) {
+        throw new ColumnExpressionError(`Unterminated string starting at position ${start + 1}`, start);
+      }
+      index++;
+      tokens.push({ kind: 'string', text: source.slice(start, index), position: start, value });
+      continue;
+    }
+
+    if (char === '`') {
+      const end = source.indexOf('`', index + 1);
+      if (end === -1) {
+        throw new ColumnExpressionError(`Unterminated column name starting at position ${start + 1}`, start);
+      }
+      index = end + 1;
+      tokens.push({ kind: 'column', text: source.slice(start + 1, end), position: start });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(index))!;
+      index += match[0].length;
+      tokens.push({ kind: 'identifier', text: match[0], position: start });
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      index++;
+      tokens.push({ kind: 'paren', text: char, position: start });
+      continue;
+    }
+
+    if (char === ',') {
+      index++;
+      tokens.push({ kind: 'comma', text: char, position: start });
+      continue;
+    }
+
+    const operator = OPERATORS.find(candidate => source.startsWith(candidate, index));
+    if (operator) {
+      index += operator.length;
+      tokens.push({ kind: 'operator', text: operator, position: start });
+      continue;
+    }
+
+    throw new ColumnExpressionError(`Unexpected character "${char}" at position ${start + 1}`, start);
+  }
+
+  tokens.push({ kind: 'end', text: '', position: source.length });
+  return tokens;
+};
+
+// Parser
+
+// Binary operators from loosest to tightest binding
+const PRECEDENCE: BinaryOperator[][] = [
+  ['||'],
+  ['&&'],
+  ['==', '!='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%']
+];
+
+const KEYWORDS: Record<string, ExpressionValue> = { true: true, false: false, null: null };
+
+/**
+ * Parse an expression into a syntax tree.
+ *
+ * @throws ColumnExpressionError for the first syntax error found
+ */
+export const parseColumnExpression = (source: string): ExpressionNode => {
+  if (!source.trim()) {
+    throw new ColumnExpressionError('Expression is empty');
+  }
+
+  const tokens = tokenize(source);
+  let current = 0;
+
+  const peek = () => tokens[current];
+  const next = () => tokens[current++];
+
+  const describe = (token: Token) => token.kind === 'end' ? 'end of expression' : `"${token.text}"`;
+
+  const expect = (kind: TokenKind, text: string) => {
+    const token = next();
+    if (token.kind !== kind || token.text !== text) {
+      throw new ColumnExpressionError(
+        `Expected "${text}" but found ${describe(token)} at position ${token.position + 1}`,
+        token.position
+      );
+    }
+  };
+
+  const parseBinary = (level: number): ExpressionNode => {
+    if (level === PRECEDENCE.length) return parseUnary();
+
+    let left = parseBinary(level + 1);
+    while (peek().kind === 'operator' && (PRECEDENCE[level] as string[]).includes(peek().text)) {
+      const operator = next();
+      const right = parseBinary(level + 1);
+      left = { kind: 'binary', operator: operator.text as BinaryOperator, left, right, position: operator.position };
+    }
+    return left;
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    const token = peek();
+    if (token.kind === 'operator' && (token.text === '!' || token.text === '-')) {
+      next();
+      return { kind: 'unary', operator: token.text, operand: parseUnary(), position: token.position };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = next();
+
+    switch (token.kind) {
+      case 'number':
+      case 'duration':
+      case 'string':
+        return { kind: 'literal', value: token.value as ExpressionValue, position: token.position };
+      case 'column':
+        return { kind: 'column', name: token.text, position: token.position };
+      case 'identifier': {
+        if (peek().kind === 'paren' && peek().text === '(') {
+          next();
+          const args: ExpressionNode[] = [];
+          if (!(peek().kind === 'paren' && peek().text === ')')) {
+            args.push(parseBinary(0));
+            while (peek().kind === 'comma') {
+              next();
+              args.push(parseBinary(0));
+            }
+          }
+          expect('paren', ')');
+          return { kind: 'call', name: token.text, args, position: token.position };
+        }
+        if (hasOwn(KEYWORDS, token.text)) {
+          return { kind: 'literal', value: KEYWORDS[token.text], position: token.position };
+        }
+        return { kind: 'column', name: token.text, position: token.position };
+      }
+      case 'paren':
+        if (token.text === '(') {
+          const inner = parseBinary(0);
+          expect('paren', ')');
+          return inner;
+        }
+        break;
+      default:
+        break;
+    }
+
+    throw new ColumnExpressionError(
+      `Unexpected ${describe(token)} at position ${token.position + 1}`,
+      token.position
+    );
+  };
+
+  const expression = parseBinary(0);
+  const trailing = peek();
+  if (trailing.kind !== 'end') {
+    throw new ColumnExpressionError(
+      `Unexpected ${describe(trailing)} at position ${trailing.position + 1}`,
+      trailing.position
+    );
+  }
+  return expression;
+};
+
+/**
+ * The columns an expression reads, in order of first use.
+ */
+export const getExpressionReferences = (node: ExpressionNode): string[] => {
+  const references: string[] = [];
+
+  const visit = (current: ExpressionNode) => {
+    switch (current.kind) {
+      case 'column':
+        if (!references.includes(current.name)) references.push(current.name);
+        break;
+      case 'call':
+        current.args.forEach(visit);
+        break;
+      case 'unary':
+        visit(current.operand);
+        break;
+      case 'binary':
+        visit(current.left);
+        visit(current.right);
+        break;
+      default:
+        break;
+    }
+  };
+
+  visit(node);
+  return references;
+};
+
+// Values
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(T[\d:.]+(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+const isDuration = (value: ExpressionValue): value is Duration =>
+  typeof value === 'object' && value !== null && !(value instanceof Date);
+
+/**
+ * Column values arrive as strings; ISO dates are treated as dates.
+ */
+const toDate = (value: ExpressionValue): Date | null => {
+  if (value instanceof Date) return value;
+  if (typeof value === 'string' && ISO_DATE_PATTERN.test(value)) {
+    const date = new Date(value.length === 10 ? `${value}T00:00:00Z` : value);
+    return isNaN(date.getTime()) ? null : date;
+  }
+  return null;
+};
+
+const toNumber = (value: ExpressionValue, position: number): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+  throw new ColumnExpressionError(`${formatExpressionValue(value) || 'null'} is not a number`, position);
+};
+
+const toText = (value: ExpressionValue): string => formatExpressionValue(value);
+
+const isTruthy = (value: ExpressionValue): boolean =>
+  value !== null && value !== false && value !== '' && value !== 0;
+
+const addDuration = (date: Date, duration: Duration, sign: number): Date => {
+  const result = new Date(date.getTime());
+  const amount = duration.amount * sign;
+
+  switch (duration.unit) {
+    case 'h':
+      result.setTime(result.getTime() + amount * 60 * 60 * 1000);
+      break;
+    case 'd':
+      result.setUTCDate(result.getUTCDate() + amount);
+      break;
+    case 'w':
+      result.setUTCDate(result.getUTCDate() + amount * 7);
+      break;
+    case 'm':
+    case 'y': {
+      // Like Java's plusMonths, land on the last day of a shorter month
+      const months = duration.unit === 'y' ? amount * 12 : amount;
+      const day = result.getUTCDate();
+      result.setUTCDate(1);
+      result.setUTCMonth(result.getUTCMonth() + months);
+      const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+      result.setUTCDate(Math.min(day, lastDay));
+      break;
+    }
+  }
+  return result;
+};
+
+/**
+ * Render a value as it would appear in generated output. Dates at midnight
+ * UTC are written as yyyy-MM-dd, other dates as ISO timestamps.
+ */
+export const formatExpressionValue = (value: ExpressionValue): string => {
+  if (value === null) return '';
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+  if (isDuration(value)) return `${value.amount}${value.unit}`;
+  return String(value);
+};
+
+const compare = (left: ExpressionValue, right: ExpressionValue, position: number): number => {
+  const leftDate = toDate(left);
+  const rightDate = toDate(right);
+  if (leftDate && rightDate) return leftDate.getTime() - rightDate.getTime();
+  if (typeof left === 'number' || typeof right === 'number') {
+    return toNumber(left, position) - toNumber(right, position);
+  }
+  return toText(left).localeCompare(toText(right));
+};
+
+const applyBinary = (
+  operator: BinaryOperator,
+  left: ExpressionValue,
+  right: ExpressionValue,
+  position: number
+): ExpressionValue => {
+  switch (operator) {
+    case '+':
+    case '-': {
+      const sign = operator === '+' ? 1 : -1;
+      const leftDate = toDate(left);
+      if (leftDate && isDuration(right)) return addDuration(leftDate, right, sign);
+      if (operator === '+' && isDuration(left) && toDate(right)) return addDuration(toDate(right)!, left, 1);
+      if (operator === '-' && leftDate && toDate(right)) {
+        // Whole days between two dates
+        return Math.round((leftDate.getTime() - toDate(right)!.getTime()) / (24 * 60 * 60 * 1000));
+      }
+      if (operator === '+' && (typeof left === 'string' || typeof right === 'string')) {
+        return toText(left) + toText(right);
+      }
+      return toNumber(left, position) + sign * toNumber(right, position);
+    }
+    case '*':
+      return toNumber(left, position) * toNumber(right, position);
+    case '/':
+    case '%': {
+      const divisor = toNumber(right, position);
+      if (divisor === 0) throw new ColumnExpressionError('Division by zero', position);
+      const dividend = toNumber(left, position);
+      return operator === '/' ? dividend / divisor : dividend % divisor;
+    }
+    case '==':
+      return left === null || right === null ? left === right : compare(left, right, position) === 0;
+    case '!=':
+      return left === null || right === null ? left !== right : compare(left, right, position) !== 0;
+    case '<':
+      return compare(left, right, position) < 0;
+    case '<=':
+      return compare(left, right, position) <= 0;
+    case '>':
+      return compare(left, right, position) > 0;
+    case '>=':
+      return compare(left, right, position) >= 0;
+    default:
+      return null;
+  }
+};
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+const dateArgument = (value: ExpressionValue, position: number): Date => {
+  const date = toDate(value);
+  if (!date) throw new ColumnExpressionError(`${toText(value) || 'null'} is not a date`, position);
+  return date;
+};
+
+/**
+ * Functions available to expressions. Names are case-sensitive.
+ */
+export const COLUMN_EXPRESSION_FUNCTIONS: Record<string, ExpressionFunction> = {
+  lower: { minArgs: 1, maxArgs: 1, description: 'Lower-case text', apply: ([value]) => toText(value).toLowerCase() },
+  upper: { minArgs: 1, maxArgs: 1, description: 'Upper-case text', apply: ([value]) => toText(value).toUpperCase() },
+  trim: { minArgs: 1, maxArgs: 1, description: 'Remove surrounding spaces', apply: ([value]) => toText(value).trim() },
+  length: { minArgs: 1, maxArgs: 1, description: 'Number of characters', apply: ([value]) => toText(value).length },
+  substring: {
+    minArgs: 2,
+    maxArgs: 3,
+    description: 'Part of text: substring(text, start[, length])',
+    apply: ([value, start, length], position) => {
+      const text = toText(value);
+      const from = toNumber(start, position);
+      return length === undefined ? text.slice(from) : text.slice(from, from + toNumber(length, position));
+    }
+  },
+  replace: {
+    minArgs: 3,
+    maxArgs: 3,
+    description: 'Replace every occurrence: replace(text, search, replacement)',
+    apply: ([value, search, replacement]) => toText(value).split(toText(search)).join(toText(replacement))
+  },
+  concat: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    description: 'Join values into one text',
+    apply: args => args.map(toText).join('')
+  },
+  coalesce: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    description: 'First value that is not empty',
+    apply: args => args.find(value => value !== null && value !== '') ?? null
+  },
+  if: {
+    minArgs: 3,
+    maxArgs: 3,
+    description: 'if(condition, then, else)',
+    apply: ([condition, whenTrue, whenFalse]) => isTruthy(condition) ? whenTrue : whenFalse
+  },
+  round: {
+    minArgs: 1,
+    maxArgs: 2,
+    description: 'Round a number: round(number[, decimals])',
+    apply: ([value, decimals], position) => {
+      const factor = 10 ** (decimals === undefined ? 0 : toNumber(decimals, position));
+      return Math.round(toNumber(value, position) * factor) / factor;
+    }
+  },
+  abs: { minArgs: 1, maxArgs: 1, description: 'Absolute value', apply: ([value], position) => Math.abs(toNumber(value, position)) },
+  min: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    description: 'Smallest value',
+    apply: (args, position) => args.reduce((a, b) => compare(a, b, position) <= 0 ? a : b)
+  },
+  max: {
+    minArgs: 1,
+    maxArgs: Infinity,
+    description: 'Largest value',
+    apply: (args, position) => args.reduce((a, b) => compare(a, b, position) >= 0 ? a : b)
+  },
+  year: { minArgs: 1, maxArgs: 1, description: 'Year of a date', apply: ([value], position) => dateArgument(value, position).getUTCFullYear() },
+  month: { minArgs: 1, maxArgs: 1, description: 'Month of a date (1-12)', apply: ([value], position) => dateArgument(value, position).getUTCMonth() + 1 },
+  day: { minArgs: 1, maxArgs: 1, description: 'Day of the month', apply: ([value], position) => dateArgument(value, position).getUTCDate() },
+  formatDate: {
+    minArgs: 2,
+    maxArgs: 2,
+    description: 'Format a date: formatDate(date, "dd/MM/yyyy")',
+    apply: ([value, pattern], position) => {
+      const date = dateArgument(value, position);
+      const parts: Record<string, string> = {
+        yyyy: String(date.getUTCFullYear()),
+        yy: pad(date.getUTCFullYear() % 100),
+        MM: pad(date.getUTCMonth() + 1),
+        dd: pad(date.getUTCDate()),
+        HH: pad(date.getUTCHours()),
+        mm: pad(date.getUTCMinutes()),
+        ss: pad(date.getUTCSeconds())
+      };
+      return toText(pattern).replace(/yyyy|yy|MM|dd|HH|mm|ss/g, token => parts[token]);
+    }
+  }
+};
+
+const getExpressionFunction = (name: string): ExpressionFunction | undefined =>
+  hasOwn(COLUMN_EXPRESSION_FUNCTIONS, name) ? COLUMN_EXPRESSION_FUNCTIONS[name] : undefined;
+
+/**
+ * Evaluate a parsed expression against one row. Missing columns are null.
+ *
+ * @throws ColumnExpressionError when a value has the wrong type
+ */
+export const evaluateColumnExpression = (node: ExpressionNode, row: Row): ExpressionValue => {
+  switch (node.kind) {
+    case 'literal':
+      return node.value;
+    case 'column':
+      return hasOwn(row, node.name) ? row[node.name] ?? null : null;
+    case 'unary': {
+      const operand = evaluateColumnExpression(node.operand, row);
+      return node.operator === '!' ? !isTruthy(operand) : -toNumber(operand, node.position);
+    }
+    case 'binary': {
+      const left = evaluateColumnExpression(node.left, row);
+      // && and || only evaluate the right side when needed
+      if (node.operator === '&&') return isTruthy(left) ? isTruthy(evaluateColumnExpression(node.right, row)) : false;
+      if (node.operator === '||') return isTruthy(left) ? true : isTruthy(evaluateColumnExpression(node.right, row));
+      return applyBinary(node.operator, left, evaluateColumnExpression(node.right, row), node.position);
+    }
+    case 'call': {
+      const fn = getExpressionFunction(node.name);
+      if (!fn) throw new ColumnExpressionError(`Unknown function "${node.name}"`, node.position);
+      return fn.apply(node.args.map(arg => evaluateColumnExpression(arg, row)), node.position);
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Validate an expression for a column: syntax, function names and argument
+ * counts, and that every referenced column exists and is not the column itself.
+ */
+export const validateColumnExpression = (
+  source: string,
+  columnNames: string[],
+  ownName?: string
+): ColumnExpressionValidationResult => {
+  let tree: ExpressionNode;
+  try {
+    tree = parseColumnExpression(source);
+  } catch (e) {
+    if (e instanceof ColumnExpressionError) {
+      return { valid: false, errors: [{ position: e.position, message: e.message }], references: [] };
+    }
+    throw e;
+  }
+
+  const errors: ColumnExpressionIssue[] = [];
+
+  const checkCalls = (node: ExpressionNode) => {
+    if (node.kind === 'call') {
+      const fn = getExpressionFunction(node.name);
+      if (!fn) {
+        errors.push({ position: node.position, message: `Unknown function "${node.name}"` });
+      } else if (node.args.length < fn.minArgs || node.args.length > fn.maxArgs) {
+        const expected = fn.minArgs === fn.maxArgs
+          ? `${fn.minArgs}`
+          : fn.maxArgs === Infinity ? `at least ${fn.minArgs}` : `${fn.minArgs} to ${fn.maxArgs}`;
+        errors.push({
+          position: node.position,
+          message: `${node.name}() takes ${expected} argument${(fn.maxArgs === Infinity ? fn.minArgs : fn.maxArgs) === 1 ? '' : 's'}, got ${node.args.length}`
+        });
+      }
+      node.args.forEach(checkCalls);
+    } else if (node.kind === 'unary') {
+      checkCalls(node.operand);
+    } else if (node.kind === 'binary') {
+      checkCalls(node.left);
+      checkCalls(node.right);
+    }
+  };
+  checkCalls(tree);
+
+  const references = getExpressionReferences(tree);
+  references.forEach(name => {
+    if (name === ownName) {
+      errors.push({ position: null, message: 'An expression cannot refer to its own column' });
+    } else if (!columnNames.includes(name)) {
+      errors.push({ position: null, message: `Unknown column "${name}"` });
+    }
+  });
+
+  return { valid: errors.length === 0, errors, references };
+};
@@ -0,0 +1,201 @@
+export type ConstraintKind = 'number' | 'string' | 'regex' | 'date' | 'enum' | 'boolean';
+
+export type ConstraintValue = string | number | boolean;
+
+export type ConstraintValues = Record<string, ConstraintValue | undefined>;
+
+/**
+ * Typed description of one generator constraint. For numbers `min`/`max`
+ * bound the value, for strings they bound the length and for dates they are
+ * ISO dates (yyyy-MM-dd).
+ */
+export interface ConstraintDefinition {
+  name: string;
+  kind: ConstraintKind;
+  label: string;
+  description?: string;
+  min?: number | string;
+  max?: number | string;
+  allowedValues?: string[];
+  defaultValue?: ConstraintValue;
+  required?: boolean;
+}
+
+export type ConstraintSchema = ConstraintDefinition[];
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Turn a constraint name such as "minLength" into "Min Length".
+ */
+const toLabel = (name: string): string =>
+  name
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .replace(/^./, char => char.toUpperCase());
+
+/**
+ * Build a definition from the legacy `getConstraintsMetadata` format,
+ * where the value is a type name such as "number" or "select:any,male,female".
+ */
+const fromLegacyMetadata = (name: string, spec: string): ConstraintDefinition => {
+  const [kindName, options = ''] = spec.split(':');
+  const label = toLabel(name);
+
+  switch (kindName.trim().toLowerCase()) {
+    case 'number':
+    case 'integer':
+      return { name, label, kind: 'number' };
+    case 'boolean':
+      return { name, label, kind: 'boolean', defaultValue: false };
+    case 'select':
+    case 'enum': {
+      const allowedValues = options.split(',').map(option => option.trim()).filter(Boolean);
+      return { name, label, kind: 'enum', allowedValues, defaultValue: allowedValues[0] };
+    }
+    case 'date':
+      return { name, label, kind: 'date' };
+    case 'regex':
+      return { name, label, kind: 'regex' };
+    default: {
+      // Older generators describe dates and patterns as plain strings, and
+      // some put a description where the type name should be
+      const description = kindName.trim().toLowerCase() === 'string' ? undefined : spec;
+      if (/date$/i.test(name)) return { name, label, kind: 'date', description };
+      if (/^(pattern|regex)$/i.test(name)) return { name, label, kind: 'regex', description };
+      return { name, label, kind: 'string', description };
+    }
+  }
+};
+
+/**
+ * Get the constraint schema of a generator. Generators that publish a typed
+ * schema use it as is; the others are derived from their constraintsMetadata.
+ */
+export const getConstraintSchema = (dataType: {
+  constraintSchema?: ConstraintSchema;
+  constraintsMetadata?: Record<string, string>;
+} | null): ConstraintSchema => {
+  if (!dataType) return [];
+  if (dataType.constraintSchema && dataType.constraintSchema.length > 0) {
+    return dataType.constraintSchema;
+  }
+
+  return Object.entries(dataType.constraintsMetadata || {}).map(([name, spec]) =>
+    fromLegacyMetadata(name, spec)
+  );
+};
+
+/**
+ * Default values for every constraint that declares one.
+ */
+export const getDefaultConstraintValues = (schema: ConstraintSchema): ConstraintValues =>
+  schema.reduce<ConstraintValues>((values, definition) => {
+    if (definition.defaultValue !== undefined) {
+      values[definition.name] = definition.defaultValue;
+    }
+    return values;
+  }, {});
+
+const isEmpty = (value: ConstraintValue | undefined): boolean =>
+  value === undefined || value === null || value === '';
+
+const validateValue = (definition: ConstraintDefinition, value: ConstraintValue): string | null => {
+  const { kind, label, min, max, allowedValues } = definition;
+
+  switch (kind) {
+    case 'number': {
+      const number = typeof value === 'number' ? value : Number(value);
+      if (isNaN(number)) return `${label} must be a number`;
+      if (typeof min === 'number' && number < min) return `${label} must be at least ${min}`;
+      if (typeof max === 'number' && number > max) return `${label} must be at most ${max}`;
+      return null;
+    }
+    case 'string': {
+      const length = String(value).length;
+      if (typeof min === 'number' && length < min) return `${label} must be at least ${min} characters`;
+      if (typeof max === 'number' && length > max) return `${label} must be at most ${max} characters`;
+      return null;
+    }
+    case 'regex':
+      try {
+        new RegExp(String(value));
+        return null;
+      } catch (err) {
+        return `${label} is not a valid regular expression`;
+      }
+    case 'date': {
+      const date = String(value);
+      if (!ISO_DATE_PATTERN.test(date) || isNaN(Date.parse(date))) {
+        return `${label} must be a date (yyyy-MM-dd)`;
+      }
+      if (typeof min === 'string' && date < min) return `${label} must be on or after ${min}`;
+      if (typeof max === 'string' && date > max) return `${label} must be on or before ${max}`;
+      return null;
+    }
+    case 'enum':
+      return allowedValues && !allowedValues.includes(String(value))
+        ? `${label} must be one of ${allowedValues.join(', ')}`
+        : null;
+    case 'boolean':
+      return typeof value === 'boolean' || value === 'true' || value === 'false'
+        ? null
+        : `${label} must be true or false`;
+    default:
+      return null;
+  }
+};
+
+const compareValues = (kind: ConstraintKind, a: ConstraintValue, b: ConstraintValue): number =>
+  kind === 'number' ? Number(a) - Number(b) : String(a).localeCompare(String(b));
+
+/**
+ * Check constraint values against a schema, mirroring the generators'
+ * `validateConstraints`. Besides per-value checks, every minX/maxX pair must
+ * not be reversed. Errors are keyed by constraint name; a reversed pair is
+ * reported on the max constraint.
+ */
+export const validateConstraints = (
+  schema: ConstraintSchema,
+  values: ConstraintValues
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const byName = new Map(schema.map(definition => [definition.name, definition]));
+
+  schema.forEach(definition => {
+    const value = values[definition.name];
+
+    if (isEmpty(value)) {
+      if (definition.required) {
+        errors[definition.name] = `${definition.label} is required`;
+      }
+      return;
+    }
+
+    const error = validateValue(definition, value as ConstraintValue);
+    if (error) {
+      errors[definition.name] = error;
+    }
+  });
+
+  schema.forEach(minDefinition => {
+    const match = /^min(.*)$/.exec(minDefinition.name);
+    if (!match) return;
+
+    const maxDefinition = byName.get(`max${match[1]}`);
+    const minValue = values[minDefinition.name];
+    const maxValue = values[maxDefinition?.name || ''];
+
+    if (!maxDefinition || isEmpty(minValue) || isEmpty(maxValue) ||
+        errors[minDefinition.name] || errors[maxDefinition.name]) {
+      return;
+    }
+
+    if (compareValues(minDefinition.kind, minValue as ConstraintValue, maxValue as ConstraintValue) > 0) {
+      const comparison = minDefinition.kind === 'date' ? 'before' : 'less than';
+      errors[maxDefinition.name] = `${maxDefinition.label} must not be ${comparison} ${minDefinition.label}`;
+    }
+  });
+
+  return errors;
+};
@@ -0,0 +1,122 @@
+import {
+  describeCronExpression,
+  expandCronField,
+  fromCronFieldSpec,
+  getNextFireTimes,
+  parseCronExpression,
+  toCronFieldSpec,
+  validateCronExpression
+} from './cron-expression';
+
+const nextUtc = (expression: string, from: string, count = 3) =>
+  getNextFireTimes(parseCronExpression(expression), count, new Date(from), 'UTC').map(date => date.toISOString());
+
+describe('validateCronExpression', () => {
+  it('accepts common expressions', () => {
+    ['0 0 12 * * ?', '0 15 10 ? * MON-FRI', '0 0 0 L * ?', '0 0 8 ? * 6#3', '0 0/5 * * * ? 2030'].forEach(expression => {
+      expect(validateCronExpression(expression)).toEqual({ valid: true, errors: [] });
+    });
+  });
+
+  it('reports the number of fields', () => {
+    const { valid, errors } = validateCronExpression('0 0 *');
+    expect(valid).toBe(false);
+    expect(errors[0]).toMatchObject({ field: null });
+    expect(errors[0].message).toContain('found 3');
+  });
+
+  it('reports every invalid field', () => {
+    const { errors } = validateCronExpression('60 0 24 * * ?');
+    expect(errors.map(error => error.field)).toEqual(['seconds', 'hours']);
+  });
+
+  it('requires exactly one "?" day field', () => {
+    expect(validateCronExpression('0 0 0 ? * ?').errors[0].field).toBe('dayOfWeek');
+    expect(validateCronExpression('0 0 0 1 * MON').valid).toBe(false);
+  });
+
+  it('rejects days that the chosen months never have', () => {
+    expect(validateCronExpression('0 0 0 31 2 ?').errors).toEqual([
+      { field: 'dayOfMonth', message: 'Day of Month: day 31 does not exist in February' }
+    ]);
+    expect(validateCronExpression('0 0 0 31 4,6 ?').errors[0].message).toContain('April and June');
+    expect(validateCronExpression('0 0 0 L-29 2 ?').valid).toBe(false);
+    expect(validateCronExpression('0 0 0 30W 2 ?').valid).toBe(false);
+  });
+
+  it('only allows 29 February when a leap year can match', () => {
+    expect(validateCronExpression('0 0 0 29 2 ?').valid).toBe(true);
+    expect(validateCronExpression('0 0 0 29 2 ? 2028').valid).toBe(true);
+    expect(validateCronExpression('0 0 0 29 2 ? 2025-2027').valid).toBe(false);
+  });
+
+  it('accepts a day that exists in at least one of the months', () => {
+    expect(validateCronExpression('0 0 0 31 2,3 ?').valid).toBe(true);
+  });
+});
+
+describe('expandCronField', () => {
+  it('wraps reversed ranges around', () => {
+    expect(expandCronField('22-2', 'hours')).toEqual([0, 1, 2, 22, 23]);
+    expect(expandCronField('FRI-MON', 'dayOfWeek')).toEqual([1, 2, 6, 7]);
+  });
+
+  it('expands steps from a start value', () => {
+    expect(expandCronField('10/20', 'minutes')).toEqual([10, 30, 50]);
+  });
+
+  it('rejects reversed year ranges', () => {
+    expect(() => expandCronField('2030-2025', 'year')).toThrow('reversed');
+  });
+});
+
+describe('getNextFireTimes', () => {
+  it('skips times already past on the first day', () => {
+    expect(nextUtc('0 0 9,17 * * ?', '2030-01-01T12:00:00Z')).toEqual([
+      '2030-01-01T17:00:00.000Z',
+      '2030-01-02T09:00:00.000Z',
+      '2030-01-02T17:00:00.000Z'
+    ]);
+  });
+
+  it('finds the last weekday of the month', () => {
+    // 31 August 2030 is a Saturday
+    expect(nextUtc('0 0 0 LW * ?', '2030-08-01T00:00:00Z', 1)).toEqual(['2030-08-30T00:00:00.000Z']);
+  });
+
+  it('keeps the nearest weekday inside the month', () => {
+    // 1 June 2030 is a Saturday, so 1W fires on Monday the 3rd
+    expect(nextUtc('0 0 0 1W * ?', '2030-06-01T00:00:00Z', 1)).toEqual(['2030-06-03T00:00:00.000Z']);
+  });
+
+  it('finds the nth weekday of the month', () => {
+    expect(nextUtc('0 0 0 ? * 6#3', '2030-01-01T00:00:00Z', 1)).toEqual(['2030-01-18T00:00:00.000Z']);
+  });
+
+  it('returns nothing once the years are over', () => {
+    expect(nextUtc('0 0 0 * * ? 2020', '2030-01-01T00:00:00Z')).toEqual([]);
+  });
+});
+
+describe('describeCronExpression', () => {
+  it('describes fixed times on weekdays', () => {
+    expect(describeCronExpression(parseCronExpression('0 0 9 ? * MON-FRI'))).toBe('Every Monday through Friday at 09:00');
+  });
+});
+
+describe('field specs', () => {
+  it('round-trips picker modes', () => {
+    ['*', '?', '5-10', '0/15', '1,3,5'].forEach(token => {
+      const name = token === '?' ? 'dayOfWeek' : 'minutes';
+      expect(fromCronFieldSpec(toCronFieldSpec(token, name), name)).toBe(token);
+    });
+  });
+
+  it('writes month and day names', () => {
+    expect(fromCronFieldSpec(toCronFieldSpec('2,1', 'dayOfWeek'), 'dayOfWeek')).toBe('SUN,MON');
+  });
+
+  it('keeps tokens the pickers cannot show as custom', () => {
+    expect(toCronFieldSpec('L-2', 'dayOfMonth')).toMatchObject({ mode: 'custom', raw: 'L-2' });
+  });
+});
@@ -0,0 +1,862 @@
+/**
+ * Quartz cron expression helpers used by the schedule builder.
+ *
+ * Quartz expressions have 6 or 7 space-separated fields:
+ * seconds minutes hours day-of-month month day-of-week [year]
+ *
+ * Everything here runs in the browser so the form can describe an expression
+ * and preview its fire times before it is sent to the SchedulerService.
+ */
+
+import { WallTime, toWallTime, fromWallTime } from './time-zone';
+
+export type CronFieldName =
+  | 'seconds'
+  | 'minutes'
+  | 'hours'
+  | 'dayOfMonth'
+  | 'month'
+  | 'dayOfWeek'
+  | 'year';
+
+export interface CronFieldDefinition {
+  name: CronFieldName;
+  label: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+export const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+export const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+export const MONTH_LABELS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December'
+];
+export const DAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Field order matches the position of each field in the expression
+export const CRON_FIELDS: CronFieldDefinition[] = [
+  { name: 'seconds', label: 'Seconds', min: 0, max: 59 },
+  { name: 'minutes', label: 'Minutes', min: 0, max: 59 },
+  { name: 'hours', label: 'Hours', min: 0, max: 23 },
+  { name: 'dayOfMonth', label: 'Day of Month', min: 1, max: 31 },
+  { name: 'month', label: 'Month', min: 1, max: 12, names: MONTH_NAMES },
+  { name: 'dayOfWeek', label: 'Day of Week', min: 1, max: 7, names: DAY_NAMES },
+  { name: 'year', label: 'Year', min: 1970, max: 2099 }
+];
+
+export const DEFAULT_CRON_EXPRESSION = '0 0 0 * * ?';
+
+// Upper bound on how far ahead the preview searches for fire times
+const MAX_SEARCH_DAYS = 366 * 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Error raised for an invalid expression. `field` points at the
+ * offending field, or is null when the expression as a whole is malformed.
+ */
+export class CronExpressionError extends Error {
+  field: CronFieldName | null;
+
+  constructor(message: string, field: CronFieldName | null = null) {
+    super(message);
+    this.name = 'CronExpressionError';
+    this.field = field;
+  }
+}
+
+export interface CronFieldError {
+  field: CronFieldName | null;
+  message: string;
+}
+
+export interface CronValidationResult {
+  valid: boolean;
+  errors: CronFieldError[];
+}
+
+// Day-of-month rules: plain values, L / L-n, LW and nW
+export type DayOfMonthRule =
+  | { kind: 'values'; values: number[] }
+  | { kind: 'last'; offset: number }
+  | { kind: 'lastWeekday' }
+  | { kind: 'nearestWeekday'; day: number };
+
+// Day-of-week rules: plain values, nL and n#k
+export type DayOfWeekRule =
+  | { kind: 'values'; values: number[] }
+  | { kind: 'lastInMonth'; day: number }
+  | { kind: 'nthInMonth'; day: number; occurrence: number };
+
+export interface ParsedCronExpression {
+  expression: string;
+  fields: Record<CronFieldName, string>;
+  seconds: number[];
+  minutes: number[];
+  hours: number[];
+  dayOfMonth: DayOfMonthRule | null;
+  month: number[];
+  dayOfWeek: DayOfWeekRule | null;
+  year: number[] | null;
+}
+
+const getFieldDefinition = (name: CronFieldName): CronFieldDefinition =>
+  CRON_FIELDS.find(field => field.name === name) as CronFieldDefinition;
+
+/**
+ * Split an expression into its named fields.
+ * Returns null when the expression does not have 6 or 7 fields.
+ */
+export const splitCronExpression = (expression: string): Record<CronFieldName, string> | null => {
+  const tokens = expression.trim().split(/\s+/).filter(Boolean);
+
+  if (tokens.length < 6 || tokens.length > 7) {
+    return null;
+  }
+
+  return {
+    seconds: tokens[0],
+    minutes: tokens[1],
+    hours: tokens[2],
+    dayOfMonth: tokens[3],
+    month: tokens[4],
+    dayOfWeek: tokens[5],
+    year: tokens[6] || '*'
+  };
+};
+
+/**
+ * Join named fields back into an expression. The year is only
+ * included when it restricts the schedule.
+ */
+export const joinCronFields = (fields: Record<CronFieldName, string>): string => {
+  const tokens = [
+    fields.seconds,
+    fields.minutes,
+    fields.hours,
+    fields.dayOfMonth,
+    fields.month,
+    fields.dayOfWeek
+  ];
+
+  if (fields.year && fields.year !== '*') {
+    tokens.push(fields.year);
+  }
+
+  return tokens.join(' ');
+};
+
+const parseSingleValue = (value: string, definition: CronFieldDefinition): number => {
+  const upperValue = value.toUpperCase();
+
+  if (definition.names) {
+    const nameIndex = definition.names.indexOf(upperValue);
+    if (nameIndex !== -1) {
+      return nameIndex + 1;
+    }
+  }
+
+  if (!/^\d+$/.test(value)) {
+    const hint = definition.names ? ` (use ${definition.names[0]}-${definition.names[definition.names.length - 1]} or numbers)` : '';
+    throw new CronExpressionError(
+      `${definition.label}: "${value}" is not a valid value${hint}`,
+      definition.name
+    );
+  }
+
+  const number = parseInt(value, 10);
+  if (number < definition.min || number > definition.max) {
+    throw new CronExpressionError(
+      `${definition.label}: value ${number} is out of range (${definition.min}-${definition.max})`,
+      definition.name
+    );
+  }
+
+  return number;
+};
+
+/**
+ * Expand one field token (lists, ranges, steps, names and wildcards)
+ * into the sorted set of values it matches. Ranges whose end is before
+ * their start wrap around, as in Quartz (e.g. FRI-MON or 22-2).
+ *
+ * @throws CronExpressionError pointing at the field
+ */
+export const expandCronField = (token: string, name: CronFieldName): number[] => {
+  const definition = getFieldDefinition(name);
+  const span = definition.max - definition.min + 1;
+  const values = new Set<number>();
+
+  if (token === '?') {
+    throw new CronExpressionError(
+      `${definition.label}: "?" is only allowed in the day-of-month and day-of-week fields`,
+      name
+    );
+  }
+
+  token.split(',').forEach(part => {
+    if (!part) {
+      throw new CronExpressionError(`${definition.label}: list contains an empty value`, name);
+    }
+
+    const segments = part.split('/');
+    if (segments.length > 2) {
+      throw new CronExpressionError(`${definition.label}: "${part}" has more than one "/"`, name);
+    }
+
+    const [rangePart, stepPart] = segments;
+    let start: number;
+    let end: number;
+
+    if (rangePart === '*') {
+      start = definition.min;
+      end = definition.max;
+    } else if (rangePart.includes('-')) {
+      const [rangeStart, rangeEnd, extra] = rangePart.split('-');
+      if (extra !== undefined || !rangeStart || !rangeEnd) {
+        throw new CronExpressionError(`${definition.label}: "${rangePart}" is not a valid range`, name);
+      }
+      start = parseSingleValue(rangeStart, definition);
+      end = parseSingleValue(rangeEnd, definition);
+    } else {
+      start = parseSingleValue(rangePart, definition);
+      end = stepPart !== undefined ? definition.max : start;
+    }
+
+    let step = 1;
+    if (stepPart !== undefined) {
+      if (!/^\d+$/.test(stepPart) || parseInt(stepPart, 10) < 1 || parseInt(stepPart, 10) > span) {
+        throw new CronExpressionError(
+          `${definition.label}: interval "${stepPart}" must be a number between 1 and ${span}`,
+          name
+        );
+      }
+      step = parseInt(stepPart, 10);
+    }
+
+    if (start > end) {
+      if (name === 'year') {
+        throw new CronExpressionError(`${definition.label}: range ${rangePart} is reversed`, name);
+      }
+      end += span;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value > definition.max ? value - span : value);
+    }
+  });
+
+  return Array.from(values).sort((a, b) => a - b);
+};
+
+const parseDayOfMonth = (token: string): DayOfMonthRule | null => {
+  if (token === '?') {
+    return null;
+  }
+
+  const upperToken = token.toUpperCase();
+
+  if (upperToken === 'L') {
+    return { kind: 'last', offset: 0 };
+  }
+
+  if (upperToken === 'LW') {
+    return { kind: 'lastWeekday' };
+  }
+
+  const lastOffsetMatch = upperToken.match(/^L-(\d+)$/);
+  if (lastOffsetMatch) {
+    const offset = parseInt(lastOffsetMatch[1], 10);
+    if (offset > 30) {
+      throw new CronExpressionError('Day of Month: offset from last day must be 30 or less', 'dayOfMonth');
+    }
+    return { kind: 'last', offset };
+  }
+
+  const weekdayMatch = upperToken.match(/^(\d+)W$/);
+  if (weekdayMatch) {
+    const day = parseInt(weekdayMatch[1], 10);
+    if (day < 1 || day > 31) {
+      throw new CronExpressionError(`Day of Month: value ${day} is out of range (1-31)`, 'dayOfMonth');
+    }
+    return { kind: 'nearestWeekday', day };
+  }
+
+  if (/[LW]/.test(upperToken)) {
+    throw new CronExpressionError(
+      'Day of Month: "L" and "W" must be used alone (L, L-3, LW or 15W), not in lists or ranges',
+      'dayOfMonth'
+    );
+  }
+
+  return { kind: 'values', values: expandCronField(token, 'dayOfMonth') };
+};
+
+const parseDayOfWeek = (token: string): DayOfWeekRule | null => {
+  if (token === '?') {
+    return null;
+  }
+
+  const definition = getFieldDefinition('dayOfWeek');
+  const upperToken = token.toUpperCase();
+
+  // A bare "L" in the day-of-week field means Saturday
+  if (upperToken === 'L') {
+    return { kind: 'values', values: [7] };
+  }
+
+  const lastMatch = upperToken.match(/^(\w+?)L$/);
+  if (lastMatch) {
+    return { kind: 'lastInMonth', day: parseSingleValue(lastMatch[1], definition) };
+  }
+
+  const nthMatch = upperToken.match(/^(\w+)#(\w*)$/);
+  if (nthMatch) {
+    const occurrence = parseInt(nthMatch[2], 10);
+    if (!/^[1-5]$/.test(nthMatch[2])) {
+      throw new CronExpressionError(
+        `Day of Week: occurrence after "#" must be between 1 and 5, got "${nthMatch[2]}"`,
+        'dayOfWeek'
+      );
+    }
+    return { kind: 'nthInMonth', day: parseSingleValue(nthMatch[1], definition), occurrence };
+  }
+
+  if (/[L#]/.test(upperToken)) {
+    throw new CronExpressionError(
+      'Day of Week: "L" and "#" must be used alone (L, 6L or 6#3), not in lists or ranges',
+      'dayOfWeek'
+    );
+  }
+
+  return { kind: 'values', values: expandCronField(token, 'dayOfWeek') };
+};
+
+const isLeapYear = (year: number): boolean => (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+
+/**
+ * Reject a day of month that none of the months has, such as 31 February,
+ * since the expression would never fire.
+ */
+const checkDayOfMonthExists = (rule: DayOfMonthRule | null, months: number[], years: number[] | null) => {
+  if (!rule || rule.kind === 'lastWeekday') {
+    return;
+  }
+
+  // February has a 29th unless every allowed year is a common year
+  const longestMonth = Math.max(...months.map(month =>
+    month === 2 && years && !years.some(isLeapYear) ? 28 : getDaysInMonth(2000, month - 1)
+  ));
+  const firstDay = rule.kind === 'values' ? rule.values[0] : rule.kind === 'last' ? rule.offset + 1 : rule.day;
+
+  if (firstDay > longestMonth) {
+    const token = rule.kind === 'last' ? `L-${rule.offset}` : `day ${firstDay}`;
+    throw new CronExpressionError(
+      `Day of Month: ${token} does not exist in ${joinWords(months.map(month => MONTH_LABELS[month - 1]))}`,
+      'dayOfMonth'
+    );
+  }
+};
+
+const collectFieldError = (errors: CronFieldError[], parse: () => void) => {
+  try {
+    parse();
+  } catch (e) {
+    if (e instanceof CronExpressionError) {
+      errors.push({ field: e.field, message: e.message });
+    } else {
+      throw e;
+    }
+  }
+};
+
+/**
+ * Validate an expression and report every invalid field.
+ */
+export const validateCronExpression = (expression: string): CronValidationResult => {
+  const errors: CronFieldError[] = [];
+  const fields = splitCronExpression(expression);
+
+  if (!fields) {
+    const count = expression.trim() ? expression.trim().split(/\s+/).length : 0;
+    errors.push({
+      field: null,
+      message: `Cron expression must have 6 or 7 fields (sec min hour day month day-of-week [year]), found ${count}`
+    });
+    return { valid: false, errors };
+  }
+
+  collectFieldError(errors, () => expandCronField(fields.seconds, 'seconds'));
+  collectFieldError(errors, () => expandCronField(fields.minutes, 'minutes'));
+  collectFieldError(errors, () => expandCronField(fields.hours, 'hours'));
+  collectFieldError(errors, () => parseDayOfMonth(fields.dayOfMonth));
+  collectFieldError(errors, () => expandCronField(fields.month, 'month'));
+  collectFieldError(errors, () => parseDayOfWeek(fields.dayOfWeek));
+  if (fields.year !== '*') {
+    collectFieldError(errors, () => expandCronField(fields.year, 'year'));
+  }
+
+  // Quartz requires exactly one of the day fields to be "?"
+  if (fields.dayOfMonth === '?' && fields.dayOfWeek === '?') {
+    errors.push({
+      field: 'dayOfWeek',
+      message: 'Day of Week: only one of day-of-month and day-of-week can be "?"'
+    });
+  } else if (fields.dayOfMonth !== '?' && fields.dayOfWeek !== '?') {
+    errors.push({
+      field: fields.dayOfWeek === '*' ? 'dayOfWeek' : 'dayOfMonth',
+      message: 'Day-of-month and day-of-week cannot both be set; use "?" in one of them'
+    });
+  }
+
+  if (errors.length === 0) {
+    collectFieldError(errors, () => checkDayOfMonthExists(
+      parseDayOfMonth(fields.dayOfMonth),
+      expandCronField(fields.month, 'month'),
+      fields.year === '*' ? null : expandCronField(fields.year, 'year')
+    ));
+  }
+
+  return { valid: errors.length === 0, errors };
+};
+
+/**
+ * Parse a Quartz cron expression.
+ *
+ * @throws CronExpressionError for the first problem found
+ */
+export const parseCronExpression = (expression: string): ParsedCronExpression => {
+  const validation = validateCronExpression(expression);
+
+  if (!validation.valid) {
+    const [firstError] = validation.errors;
+    throw new CronExpressionError(firstError.message, firstError.field);
+  }
+
+  const fields = splitCronExpression(expression) as Record<CronFieldName, string>;
+
+  return {
+    expression: expression.trim(),
+    fields,
+    seconds: expandCronField(fields.seconds, 'seconds'),
+    minutes: expandCronField(fields.minutes, 'minutes'),
+    hours: expandCronField(fields.hours, 'hours'),
+    dayOfMonth: parseDayOfMonth(fields.dayOfMonth),
+    month: expandCronField(fields.month, 'month'),
+    dayOfWeek: parseDayOfWeek(fields.dayOfWeek),
+    year: fields.year === '*' ? null : expandCronField(fields.year, 'year')
+  };
+};
+
+// Calendar days are represented as Dates at UTC midnight so that day
+// matching does not depend on the browser's own zone
+const getDaysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const isWeekday = (day: Date): boolean => day.getUTCDay() !== 0 && day.getUTCDay() !== 6;
+
+const matchesDayOfMonth = (rule: DayOfMonthRule, day: Date): boolean => {
+  const date = day.getUTCDate();
+  const daysInMonth = getDaysInMonth(day.getUTCFullYear(), day.getUTCMonth());
+
+  switch (rule.kind) {
+    case 'values':
+      return rule.values.includes(date);
+    case 'last':
+      return date === daysInMonth - rule.offset;
+    case 'lastWeekday': {
+      const lastDay = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), daysInMonth));
+      const offset = lastDay.getUTCDay() === 0 ? 2 : lastDay.getUTCDay() === 6 ? 1 : 0;
+      return date === daysInMonth - offset;
+    }
+    case 'nearestWeekday': {
+      if (rule.day > daysInMonth) {
+        return false;
+      }
+      // Nearest weekday to the given day, without leaving the month
+      const target = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), rule.day));
+      let nearest = rule.day;
+      if (target.getUTCDay() === 6) {
+        nearest = rule.day === 1 ? 3 : rule.day - 1;
+      } else if (target.getUTCDay() === 0) {
+        nearest = rule.day === daysInMonth ? rule.day - 2 : rule.day + 1;
+      }
+      return date === nearest && isWeekday(day);
+    }
+  }
+};
+
+const matchesDayOfWeek = (rule: DayOfWeekRule, day: Date): boolean => {
+  // Quartz numbers days of the week 1 (SUN) through 7 (SAT)
+  const dayOfWeek = day.getUTCDay() + 1;
+  const daysInMonth = getDaysInMonth(day.getUTCFullYear(), day.getUTCMonth());
+
+  switch (rule.kind) {
+    case 'values':
+      return rule.values.includes(dayOfWeek);
+    case 'lastInMonth':
+      return dayOfWeek === rule.day && day.getUTCDate() + 7 > daysInMonth;
+    case 'nthInMonth':
+      return dayOfWeek === rule.day && Math.ceil(day.getUTCDate() / 7) === rule.occurrence;
+  }
+};
+
+const matchesDay = (parsed: ParsedCronExpression, day: Date): boolean => {
+  if (parsed.year && !parsed.year.includes(day.getUTCFullYear())) {
+    return false;
+  }
+
+  if (!parsed.month.includes(day.getUTCMonth() + 1)) {
+    return false;
+  }
+
+  if (parsed.dayOfMonth && !matchesDayOfMonth(parsed.dayOfMonth, day)) {
+    return false;
+  }
+
+  if (parsed.dayOfWeek && !matchesDayOfWeek(parsed.dayOfWeek, day)) {
+    return false;
+  }
+
+  return true;
+};
+
+const toInstant = (wallTime: WallTime, timeZone?: string): Date =>
+  timeZone
+    ? fromWallTime(wallTime, timeZone)
+    : new Date(wallTime.year, wallTime.month, wallTime.day, wallTime.hour, wallTime.minute, wallTime.second);
+
+/**
+ * Calculate the next fire times of an expression after a given instant.
+ * Fire times follow the clock of `timeZone`, or the browser's zone when omitted.
+ * When `until` is given, the search stops at that instant.
+ */
+export const getNextFireTimes = (
+  parsed: ParsedCronExpression,
+  count: number = 10,
+  from: Date = new Date(),
+  timeZone?: string,
+  until?: Date
+): Date[] => {
+  const fireTimes: Date[] = [];
+  const start: WallTime = timeZone
+    ? toWallTime(from, timeZone)
+    : {
+      year: from.getFullYear(),
+      month: from.getMonth(),
+      day: from.getDate(),
+      hour: from.getHours(),
+      minute: from.getMinutes(),
+      second: from.getSeconds()
+    };
+
+  for (let dayOffset = 0; dayOffset < MAX_SEARCH_DAYS; dayOffset++) {
+    const day = new Date(Date.UTC(start.year, start.month, start.day + dayOffset));
+
+    // Calendar days are compared loosely since zone offsets stay within a day
+    if (until && day.getTime() > until.getTime() + DAY_MS) {
+      break;
+    }
+
+    if (!matchesDay(parsed, day)) {
+      continue;
+    }
+
+    // Skip times of day that are already past on the first day
+    const isFirstDay = dayOffset === 0;
+
+    for (const hour of parsed.hours) {
+      if (isFirstDay && hour < start.hour) {
+        continue;
+      }
+      for (const minute of parsed.minutes) {
+        if (isFirstDay && hour === start.hour && minute < start.minute) {
+          continue;
+        }
+        for (const second of parsed.seconds) {
+          const candidate = toInstant({
+            year: day.getUTCFullYear(),
+            month: day.getUTCMonth(),
+            day: day.getUTCDate(),
+            hour,
+            minute,
+            second
+          }, timeZone);
+
+          if (until && candidate > until) {
+            return fireTimes;
+          }
+
+          // Clock times skipped by a daylight saving change can resolve onto a later fire time
+          const lastFireTime = fireTimes[fireTimes.length - 1];
+
+          if (candidate > from && (!lastFireTime || candidate > lastFireTime)) {
+            fireTimes.push(candidate);
+            if (fireTimes.length >= count) {
+              return fireTimes;
+            }
+          }
+        }
+      }
+    }
+  }
+
+  return fireTimes;
+};
+
+/**
+ * Fire times within [from, to], capped at `limit` results.
+ */
+export const getFireTimesBetween = (
+  parsed: ParsedCronExpression,
+  from: Date,
+  to: Date,
+  timeZone?: string,
+  limit: number = 1000
+): Date[] => getNextFireTimes(parsed, limit, new Date(from.getTime() - 1), timeZone, to);
+
+// Join a list as "a, b and c"
+const joinWords = (words: string[]): string => {
+  if (words.length <= 1) {
+    return words.join('');
+  }
+  return `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}`;
+};
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+const isPlainList = (token: string): boolean => /^\d+(,\d+)*$/.test(token);
+
+const describeTimeField = (token: string, unit: string): string => {
+  if (token === '*') {
+    return `every ${unit}`;
+  }
+
+  const stepMatch = token.match(/^(\*|\d+)\/(\d+)$/);
+  if (stepMatch) {
+    const startsAtZero = stepMatch[1] === '*' || stepMatch[1] === '0';
+    return startsAtZero
+      ? `every ${stepMatch[2]} ${unit}s`
+      : `every ${stepMatch[2]} ${unit}s starting at ${unit} ${stepMatch[1]}`;
+  }
+
+  const rangeMatch = token.match(/^(\d+)-(\d+)$/);
+  if (rangeMatch) {
+    return `every ${unit} from ${rangeMatch[1]} through ${rangeMatch[2]}`;
+  }
+
+  const values = token.split(',');
+  return `at ${unit}${values.length > 1 ? 's' : ''} ${joinWords(values)}`;
+};
+
+// Fixed times of day, e.g. "at 09:00 and 17:30"
+const describeFixedTimes = (fields: Record<CronFieldName, string>): string | null => {
+  const { seconds, minutes, hours } = fields;
+
+  if (!/^\d+$/.test(seconds) || !/^\d+$/.test(minutes) || !isPlainList(hours)) {
+    return null;
+  }
+
+  const secondSuffix = seconds === '0' ? '' : `:${pad(parseInt(seconds, 10))}`;
+  const times = hours.split(',').map(hour =>
+    `${pad(parseInt(hour, 10))}:${pad(parseInt(minutes, 10))}${secondSuffix}`
+  );
+  return `at ${joinWords(times)}`;
+};
+
+const describeTime = (fields: Record<CronFieldName, string>): string => {
+  const { seconds, minutes, hours } = fields;
+  const parts: string[] = [];
+
+  if (seconds !== '0') {
+    parts.push(describeTimeField(seconds, 'second'));
+  }
+
+  if (minutes === '0') {
+    if (hours === '*') {
+      parts.push('every hour');
+    }
+  } else if (hours === '*' && isPlainList(minutes)) {
+    parts.push(`every hour ${describeTimeField(minutes, 'minute')}`);
+  } else if (!(minutes === '*' && seconds !== '0')) {
+    parts.push(describeTimeField(minutes, 'minute'));
+  }
+
+  if (hours !== '*') {
+    parts.push(describeTimeField(hours, 'hour'));
+  }
+
+  return parts.join(', ');
+};
+
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth'];
+
+const describeNamedField = (token: string, name: CronFieldName, labels: string[]): string => {
+  const rangeMatch = token.match(/^(\w+)-(\w+)$/);
+  if (rangeMatch) {
+    const definition = getFieldDefinition(name);
+    const start = parseSingleValue(rangeMatch[1], definition);
+    const end = parseSingleValue(rangeMatch[2], definition);
+    return `${labels[start - 1]} through ${labels[end - 1]}`;
+  }
+
+  return joinWords(expandCronField(token, name).map(value => labels[value - 1]));
+};
+
+const describeDays = (parsed: ParsedCronExpression): string => {
+  const { fields, dayOfMonth, dayOfWeek } = parsed;
+
+  if (dayOfWeek && fields.dayOfWeek !== '*') {
+    switch (dayOfWeek.kind) {
+      case 'lastInMonth':
+        return `on the last ${DAY_LABELS[dayOfWeek.day - 1]} of the month`;
+      case 'nthInMonth':
+        return `on the ${ORDINALS[dayOfWeek.occurrence - 1]} ${DAY_LABELS[dayOfWeek.day - 1]} of the month`;
+      default:
+        return fields.dayOfWeek.toUpperCase() === 'L'
+          ? 'every Saturday'
+          : `every ${describeNamedField(fields.dayOfWeek, 'dayOfWeek', DAY_LABELS)}`;
+    }
+  }
+
+  if (dayOfMonth && fields.dayOfMonth !== '*') {
+    switch (dayOfMonth.kind) {
+      case 'last':
+        return dayOfMonth.offset === 0
+          ? 'on the last day of the month'
+          : `${dayOfMonth.offset} day${dayOfMonth.offset > 1 ? 's' : ''} before the last day of the month`;
+      case 'lastWeekday':
+        return 'on the last weekday of the month';
+      case 'nearestWeekday':
+        return `on the weekday nearest day ${dayOfMonth.day} of the month`;
+      default:
+        if (isPlainList(fields.dayOfMonth)) {
+          const days = fields.dayOfMonth.split(',');
+          return `on day${days.length > 1 ? 's' : ''} ${joinWords(days)} of the month`;
+        }
+        return `on days ${fields.dayOfMonth} of the month`;
+    }
+  }
+
+  return '';
+};
+
+const capitalize = (text: string): string => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * Produce a plain-English summary such as "Every Monday at 09:00".
+ */
+export const describeCronExpression = (parsed: ParsedCronExpression): string => {
+  const { fields } = parsed;
+  const fixedTimes = describeFixedTimes(fields);
+  const days = describeDays(parsed);
+
+  let description = fixedTimes
+    ? `${days || 'every day'} ${fixedTimes}`
+    : [describeTime(fields), days].filter(Boolean).join(', ');
+
+  if (fields.month !== '*') {
+    description += `, in ${describeNamedField(fields.month, 'month', MONTH_LABELS)}`;
+  }
+
+  if (fields.year !== '*') {
+    description += `, in ${fields.year}`;
+  }
+
+  return capitalize(description);
+};
+
+// Builder field specifications
+
+export type CronFieldMode = 'every' | 'any' | 'specific' | 'range' | 'step' | 'custom';
+
+export interface CronFieldSpec {
+  mode: CronFieldMode;
+  values: number[];
+  rangeStart: number;
+  rangeEnd: number;
+  stepStart: number;
+  stepInterval: number;
+  raw: string;
+}
+
+/**
+ * Convert a field token into the picker state used by the builder.
+ * Tokens the pickers cannot represent fall back to "custom" mode.
+ */
+export const toCronFieldSpec = (token: string, name: CronFieldName): CronFieldSpec => {
+  const definition = getFieldDefinition(name);
+  const spec: CronFieldSpec = {
+    mode: 'custom',
+    values: [],
+    rangeStart: definition.min,
+    rangeEnd: definition.max,
+    stepStart: definition.min,
+    stepInterval: 1,
+    raw: token
+  };
+
+  try {
+    if (token === '*') {
+      return { ...spec, mode: 'every' };
+    }
+
+    if (token === '?') {
+      return { ...spec, mode: 'any' };
+    }
+
+    const stepMatch = token.match(/^(\*|\w+)\/(\d+)$/);
+    if (stepMatch) {
+      const stepStart = stepMatch[1] === '*' ? definition.min : parseSingleValue(stepMatch[1], definition);
+      return { ...spec, mode: 'step', stepStart, stepInterval: parseInt(stepMatch[2], 10) };
+    }
+
+    const rangeMatch = token.match(/^(\w+)-(\w+)$/);
+    if (rangeMatch) {
+      return {
+        ...spec,
+        mode: 'range',
+        rangeStart: parseSingleValue(rangeMatch[1], definition),
+        rangeEnd: parseSingleValue(rangeMatch[2], definition)
+      };
+    }
+
+    if (/^\w+(,\w+)*$/.test(token)) {
+      return { ...spec, mode: 'specific', values: expandCronField(token, name) };
+    }
+  } catch (e) {
+    // Not representable in the pickers, keep the raw token
+  }
+
+  return spec;
+};
+
+const formatFieldValue = (value: number, definition: CronFieldDefinition): string =>
+  definition.names ? definition.names[value - 1] : value.toString();
+
+/**
+ * Convert builder picker state back into a field token.
+ */
+export const fromCronFieldSpec = (spec: CronFieldSpec, name: CronFieldName): string => {
+  const definition = getFieldDefinition(name);
+
+  switch (spec.mode) {
+    case 'every':
+      return '*';
+    case 'any':
+      return '?';
+    case 'specific':
+      return spec.values.length > 0
+        ? [...spec.values].sort((a, b) => a - b).map(value => formatFieldValue(value, definition)).join(',')
+        : formatFieldValue(definition.min, definition);
+    case 'range':
+      return `${formatFieldValue(spec.rangeStart, definition)}-${formatFieldValue(spec.rangeEnd, definition)}`;
+    case 'step':
+      return `${spec.stepStart}/${spec.stepInterval}`;
+    default:
+      return spec.raw || '*';
+  }
+};
@@ -0,0 +1,119 @@
+import { ApiResponse, get, post, put, del } from '../../../api/api-client';
+import { DataTypeMetadata } from './DataTypesContext';
+
+export type CustomTypeKind = 'PATTERN' | 'WEIGHTED_LIST' | 'LOOKUP' | 'COMPOSITE';
+
+export interface WeightedValue {
+  value: string;
+  weight: number;
+}
+
+/**
+ * One piece of a composite type: either the output of another data type
+ * or a fixed piece of text.
+ */
+export interface CompositePart {
+  kind: 'TYPE' | 'LITERAL';
+  value: string;
+}
+
+/**
+ * A data type defined by users instead of a DataGenerator subclass.
+ * Only the fields of its `kind` are used.
+ */
+export interface CustomTypeDefinition {
+  id?: string;
+  type: string;
+  displayName: string;
+  description: string;
+  kind: CustomTypeKind;
+  pattern?: string;
+  values?: WeightedValue[];
+  lookupFileId?: string;
+  lookupFileName?: string;
+  lookupColumn?: string;
+  parts?: CompositePart[];
+  createdBy?: string;
+  updatedAt?: string;
+}
+
+export interface CustomTypeLookupUpload {
+  fileId: string;
+  fileName: string;
+  columns: string[];
+  rowCount: number;
+}
+
+export const CUSTOM_TYPE_CATEGORY = 'Custom';
+
+export const CUSTOM_TYPE_KIND_LABELS: Record<CustomTypeKind, string> = {
+  PATTERN: 'Pattern',
+  WEIGHTED_LIST: 'Weighted list',
+  LOOKUP: 'Lookup file',
+  COMPOSITE: 'Composite'
+};
+
+/**
+ * Present a custom type the same way as a registered generator.
+ */
+export function toDataTypeMetadata(definition: CustomTypeDefinition): DataTypeMetadata {
+  return {
+    type: definition.type,
+    displayName: definition.displayName || definition.type,
+    category: CUSTOM_TYPE_CATEGORY,
+    description: definition.description || `${CUSTOM_TYPE_KIND_LABELS[definition.kind]} custom type`,
+    constraintsMetadata: {}
+  };
+}
+
+/**
+ * Get all custom types.
+ */
+export async function getCustomTypes(signal?: AbortSignal): Promise<ApiResponse<CustomTypeDefinition[]>> {
+  return get<CustomTypeDefinition[]>('/custom-types', undefined, { signal });
+}
+
+/**
+ * Get a custom type by ID.
+ */
+export async function getCustomType(
+  id: string,
+  signal?: AbortSignal
+): Promise<ApiResponse<CustomTypeDefinition>> {
+  return get<CustomTypeDefinition>(`/custom-types/${id}`, undefined, { signal });
+}
+
+/**
+ * Create a custom type.
+ */
+export async function createCustomType(
+  definition: CustomTypeDefinition
+): Promise<ApiResponse<CustomTypeDefinition>> {
+  return post<CustomTypeDefinition>('/custom-types', definition);
+}
+
+/**
+ * Update a custom type.
+ */
+export async function updateCustomType(
+  definition: CustomTypeDefinition
+): Promise<ApiResponse<CustomTypeDefinition>> {
+  return put<CustomTypeDefinition>(`/custom-types/${definition.id}`, definition);
+}
+
+/**
+ * Delete a custom type.
+ */
+export async function deleteCustomType(id: string): Promise<ApiResponse<void>> {
+  return del<void>(`/custom-types/${id}`);
+}
+
+/**
+ * Upload a CSV lookup file. The response lists its columns so one can be
+ * chosen as the source of values.
+ */
+export async function uploadCustomTypeLookup(file: File): Promise<ApiResponse<CustomTypeLookupUpload>> {
+  const formData = new FormData();
+  formData.append('file', file);
+  return post<CustomTypeLookupUpload>('/custom-types/lookups', formData);
+}
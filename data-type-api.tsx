@@ -0,0 +1,57 @@
+import { ApiResponse, get, post, put } from '../../../api/api-client';
+import { TypeInferenceRule } from './type-inference';
+
+/**
+ * Identifies the set of generators registered in the DataTypeRegistry.
+ * The version changes whenever generators are added or removed.
+ */
+export interface DataTypeRegistryVersion {
+  version: string;
+  generatorCount: number;
+}
+
+/**
+ * Get the current version of the data type registry.
+ */
+export async function getDataTypeRegistryVersion(): Promise<ApiResponse<DataTypeRegistryVersion>> {
+  return get<DataTypeRegistryVersion>('/data-types/version');
+}
+
+export interface DataTypePreviewRequest {
+  type: string;
+  constraints: Record<string, unknown>;
+  count: number;
+  seed?: number;
+}
+
+export interface DataTypePreviewResult {
+  type: string;
+  values: string[];
+}
+
+/**
+ * Run a single generator with the given constraints and return sample values.
+ * Constraints the generator rejects come back as an error.
+ */
+export async function previewDataType(
+  request: DataTypePreviewRequest,
+  signal?: AbortSignal
+): Promise<ApiResponse<DataTypePreviewResult>> {
+  return post<DataTypePreviewResult>('/data-types/preview', request, { signal });
+}
+
+/**
+ * Get the rules used to suggest data types from column names and values.
+ */
+export async function getTypeInferenceRules(signal?: AbortSignal): Promise<ApiResponse<TypeInferenceRule[]>> {
+  return get<TypeInferenceRule[]>('/data-types/inference-rules', undefined, { signal });
+}
+
+/**
+ * Replace the type inference rules. Admin only.
+ */
+export async function updateTypeInferenceRules(
+  rules: TypeInferenceRule[]
+): Promise<ApiResponse<TypeInferenceRule[]>> {
+  return put<TypeInferenceRule[]>('/data-types/inference-rules', rules);
+}
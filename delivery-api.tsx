@@ -0,0 +1,105 @@
+import { ApiResponse, post } from '../../../api/api-client';
+
+export type DeliveryDestinationType = 'FOLDER' | 'SFTP' | 'HTTP' | 'S3';
+
+export type DeliveryStatus = 'PENDING' | 'DELIVERED' | 'FAILED' | 'SKIPPED';
+
+/**
+ * Settings shared by every destination. Where a destination has a `path`,
+ * it is a path template, see PATH_TEMPLATE_TOKENS in delivery-destination.
+ *
+ * Secrets (`password`, `privateKey`, `secretKey`, header values marked
+ * secret) are write-only: the server returns them empty and keeps the
+ * stored value when a save leaves them empty.
+ */
+interface DeliveryDestinationBase {
+  id?: string;
+  name: string;
+  enabled: boolean;
+}
+
+/**
+ * A local folder or a mounted network share on the server running
+ * GenerationJob.
+ */
+export interface FolderDestination extends DeliveryDestinationBase {
+  type: 'FOLDER';
+  path: string;
+  overwrite: boolean;
+}
+
+export interface SftpDestination extends DeliveryDestinationBase {
+  type: 'SFTP';
+  host: string;
+  port: number;
+  username: string;
+  authMethod: 'PASSWORD' | 'PRIVATE_KEY';
+  password?: string;
+  privateKey?: string;
+  path: string;
+}
+
+export interface HttpHeader {
+  name: string;
+  value: string;
+  secret?: boolean;
+}
+
+/**
+ * MULTIPART uploads the file as a form field named `file`; WEBHOOK posts a
+ * JSON notice with the run details and a download link instead.
+ */
+export interface HttpDestination extends DeliveryDestinationBase {
+  type: 'HTTP';
+  url: string;
+  method: 'POST' | 'PUT';
+  mode: 'MULTIPART' | 'WEBHOOK';
+  headers: HttpHeader[];
+}
+
+/**
+ * Any S3-compatible store. `endpoint` is left empty for AWS and set for
+ * others such as MinIO, which usually also need `pathStyleAccess`.
+ */
+export interface S3Destination extends DeliveryDestinationBase {
+  type: 'S3';
+  endpoint: string;
+  region: string;
+  bucket: string;
+  path: string;
+  accessKeyId: string;
+  secretKey?: string;
+  pathStyleAccess: boolean;
+}
+
+export type DeliveryDestination = FolderDestination | SftpDestination | HttpDestination | S3Destination;
+
+/**
+ * Outcome of delivering one run's file to one destination.
+ */
+export interface DeliveryResult {
+  destinationId: string;
+  destinationName: string;
+  type: DeliveryDestinationType;
+  status: DeliveryStatus;
+  location?: string;
+  message?: string;
+  deliveredAt?: string;
+}
+
+export interface DeliveryTestResult {
+  success: boolean;
+  message: string;
+  durationMs?: number;
+}
+
+/**
+ * Check that a destination is reachable and writable without delivering a
+ * run. Given the `scheduleId`, stored secrets are used for any left empty.
+ */
+export async function testDeliveryDestination(
+  destination: DeliveryDestination,
+  scheduleId?: string
+): Promise<ApiResponse<DeliveryTestResult>> {
+  return post<DeliveryTestResult>('/delivery-destinations/test', { destination, scheduleId });
+}
@@ -0,0 +1,178 @@
+import { DeliveryDestination, DeliveryDestinationType, DeliveryStatus } from './delivery-api';
+import { getDateTokenValues, getUnknownTokens, replaceTokens, toFilenameSegment } from './filename-pattern';
+
+export const DELIVERY_DESTINATION_LABELS: Record<DeliveryDestinationType, string> = {
+  FOLDER: 'Folder',
+  SFTP: 'SFTP',
+  HTTP: 'HTTP upload / webhook',
+  S3: 'S3-compatible bucket'
+};
+
+export const DELIVERY_STATUS_COLORS: Record<DeliveryStatus, string> = {
+  PENDING: 'info',
+  DELIVERED: 'success',
+  FAILED: 'danger',
+  SKIPPED: 'default'
+};
+
+/**
+ * Tokens a path template may contain. Dates are those of the run in the
+ * schedule's time zone.
+ */
+export const PATH_TEMPLATE_TOKENS: Record<string, string> = {
+  '{schedule}': 'Schedule name',
+  '{template}': 'Template name',
+  '{format}': 'Output format, lower case',
+  '{yyyy}': 'Year',
+  '{MM}': 'Month',
+  '{dd}': 'Day',
+  '{HH}': 'Hour',
+  '{mm}': 'Minute',
+  '{runId}': 'Run id'
+};
+
+export interface PathTemplateContext {
+  schedule: string;
+  template: string;
+  format: string;
+  runId: string;
+  date: Date;
+  timeZone: string;
+}
+
+const DEFAULT_PORTS = { SFTP: 22 };
+
+/**
+ * Starting settings for a newly added destination.
+ */
+export const createDeliveryDestination = (type: DeliveryDestinationType): DeliveryDestination => {
+  const base = { name: DELIVERY_DESTINATION_LABELS[type], enabled: true };
+
+  switch (type) {
+    case 'SFTP':
+      return {
+        ...base,
+        type,
+        host: '',
+        port: DEFAULT_PORTS.SFTP,
+        username: '',
+        authMethod: 'PASSWORD',
+        path: '/upload/{schedule}'
+      };
+    case 'HTTP':
+      return { ...base, type, url: '', method: 'POST', mode: 'MULTIPART', headers: [] };
+    case 'S3':
+      return {
+        ...base,
+        type,
+        endpoint: '',
+        region: 'us-east-1',
+        bucket: '',
+        path: '{schedule}/{yyyy}/{MM}/{dd}',
+        accessKeyId: '',
+        pathStyleAccess: false
+      };
+    default:
+      return { ...base, type: 'FOLDER', path: '{schedule}/{yyyy}-{MM}-{dd}', overwrite: false };
+  }
+};
+
+const isValidUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+const validatePathTemplate = (path: string, required: boolean): string | null => {
+  if (!path.trim()) {
+    return required ? 'Path is required' : null;
+  }
+  const unknown = getUnknownTokens(path, PATH_TEMPLATE_TOKENS);
+  if (unknown.length > 0) {
+    return `Unknown placeholder${unknown.length === 1 ? '' : 's'} ${unknown.join(', ')}`;
+  }
+  if (path.split(/[\\/]/).includes('..')) {
+    return 'Path must not contain ".."';
+  }
+  return null;
+};
+
+/**
+ * Check a destination's settings. Errors are keyed by field name. Secrets
+ * are only required for destinations that have not been saved yet, as the
+ * server keeps the stored ones.
+ */
+export const validateDeliveryDestination = (destination: DeliveryDestination): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const isNew = !destination.id;
+
+  if (!destination.name.trim()) {
+    errors.name = 'Name is required';
+  }
+
+  switch (destination.type) {
+    case 'FOLDER': {
+      const pathError = validatePathTemplate(destination.path, true);
+      if (pathError) errors.path = pathError;
+      break;
+    }
+    case 'SFTP': {
+      if (!destination.host.trim()) errors.host = 'Host is required';
+      if (!Number.isInteger(destination.port) || destination.port < 1 || destination.port > 65535) {
+        errors.port = 'Port must be between 1 and 65535';
+      }
+      if (!destination.username.trim()) errors.username = 'Username is required';
+      if (isNew && destination.authMethod === 'PASSWORD' && !destination.password) {
+        errors.password = 'Password is required';
+      }
+      if (isNew && destination.authMethod === 'PRIVATE_KEY' && !destination.privateKey?.trim()) {
+        errors.privateKey = 'Private key is required';
+      }
+      const pathError = validatePathTemplate(destination.path, true);
+      if (pathError) errors.path = pathError;
+      break;
+    }
+    case 'HTTP': {
+      if (!isValidUrl(destination.url)) errors.url = 'URL must start with http:// or https://';
+      const names = destination.headers.map(header => header.name.trim().toLowerCase());
+      if (names.some(name => !name)) {
+        errors.headers = 'Every header needs a name';
+      } else if (new Set(names).size !== names.length) {
+        errors.headers = 'Header names must be unique';
+      }
+      break;
+    }
+    case 'S3': {
+      if (destination.endpoint && !isValidUrl(destination.endpoint)) {
+        errors.endpoint = 'Endpoint must start with http:// or https://';
+      }
+      if (!destination.region.trim()) errors.region = 'Region is required';
+      if (!/^[a-z0-9][a-z0-9.-]{1,61}[a-z0-9]$/.test(destination.bucket)) {
+        errors.bucket = 'Bucket names are 3-63 lower case letters, digits, dots and hyphens';
+      }
+      if (!destination.accessKeyId.trim()) errors.accessKeyId = 'Access key is required';
+      if (isNew && !destination.secretKey) errors.secretKey = 'Secret key is required';
+      const pathError = validatePathTemplate(destination.path, false);
+      if (pathError) errors.path = pathError;
+      break;
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Fill in a path template the way GenerationJob does, for previews.
+ * Unknown placeholders are left as they are.
+ */
+export const expandPathTemplate = (path: string, context: PathTemplateContext): string =>
+  replaceTokens(path, {
+    ...getDateTokenValues(context.date, context.timeZone),
+    schedule: toFilenameSegment(context.schedule),
+    template: toFilenameSegment(context.template),
+    format: context.format.toLowerCase(),
+    runId: context.runId
+  });
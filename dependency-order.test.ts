@@ -0,0 +1,37 @@
+import { formatCycle, resolveDependencyOrder } from './dependency-order';
+
+const resolve = (graph: Record<string, string[]>) =>
+  resolveDependencyOrder(Object.keys(graph), id => graph[id]);
+
+describe('resolveDependencyOrder', () => {
+  it('places items after their dependencies and keeps the given order otherwise', () => {
+    expect(resolve({ email: ['first', 'last'], first: [], last: [], id: [] })).toEqual({
+      order: ['first', 'last', 'email', 'id'],
+      cycles: []
+    });
+  });
+
+  it('ignores unknown items and the item itself', () => {
+    expect(resolve({ a: ['a', 'missing'], b: ['a'] })).toEqual({ order: ['a', 'b'], cycles: [] });
+  });
+
+  it('reports a cycle from its first item and leaves out what depends on it', () => {
+    expect(resolve({ total: ['tax'], base: [], tax: ['net'], net: ['total'], label: ['net'] })).toEqual({
+      order: ['base'],
+      cycles: [['total', 'tax', 'net']]
+    });
+  });
+
+  it('reports separate cycles once each', () => {
+    expect(resolve({ a: ['b'], b: ['a'], c: ['d'], d: ['c'], e: ['a', 'c'] }).cycles).toEqual([
+      ['a', 'b'],
+      ['c', 'd']
+    ]);
+  });
+});
+
+describe('formatCycle', () => {
+  it('closes the cycle on its first item', () => {
+    expect(formatCycle(['a', 'b', 'c'])).toBe('a → b → c → a');
+  });
+});
@@ -0,0 +1,71 @@
+export interface DependencyOrderResult {
+  order: string[];
+  cycles: string[][];
+}
+
+/**
+ * Order items so that each comes after the items it depends on, keeping the
+ * given order otherwise. Dependencies on unknown items and on the item itself
+ * are ignored. Items in a cycle, or depending on one, are left out of
+ * `order`; each cycle is reported in `cycles`, starting from its first item
+ * in the given order.
+ */
+export const resolveDependencyOrder = (
+  ids: string[],
+  getDependencies: (id: string) => string[]
+): DependencyOrderResult => {
+  const known = new Set(ids);
+  const dependencies = new Map(ids.map(id => [
+    id,
+    getDependencies(id).filter(dependency => known.has(dependency) && dependency !== id)
+  ]));
+
+  const order: string[] = [];
+  const placed = new Set<string>();
+  let remaining = [...ids];
+
+  // Repeatedly place the first item whose dependencies are all placed
+  let progressed = true;
+  while (progressed) {
+    progressed = false;
+    const next = remaining.find(id => dependencies.get(id)!.every(dependency => placed.has(dependency)));
+    if (next !== undefined) {
+      order.push(next);
+      placed.add(next);
+      remaining = remaining.filter(id => id !== next);
+      progressed = true;
+    }
+  }
+
+  // Whatever is left is in a cycle or depends on one
+  const cycles: string[][] = [];
+  const seen = new Set<string>();
+  const inCycle = new Set<string>();
+
+  const visit = (id: string, path: string[]) => {
+    const index = path.indexOf(id);
+    if (index !== -1) {
+      const cycle = path.slice(index);
+      if (!cycle.some(member => inCycle.has(member))) {
+        const start = cycle.indexOf(remaining.find(candidate => cycle.includes(candidate))!);
+        cycles.push([...cycle.slice(start), ...cycle.slice(0, start)]);
+        cycle.forEach(member => inCycle.add(member));
+      }
+      return;
+    }
+    if (seen.has(id)) return;
+    seen.add(id);
+    dependencies.get(id)!
+      .filter(dependency => !placed.has(dependency))
+      .forEach(dependency => visit(dependency, [...path, id]));
+  };
+
+  remaining.forEach(id => visit(id, []));
+
+  return { order, cycles };
+};
+
+/**
+ * Describe a cycle, e.g. "a → b → a".
+ */
+export const formatCycle = (cycle: string[]): string => [...cycle, cycle[0]].join(' → ');
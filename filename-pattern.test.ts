@@ -0,0 +1,86 @@
+import {
+  DEFAULT_FILENAME_PATTERN,
+  FilenamePatternContext,
+  getUnknownTokens,
+  insertFilenameToken,
+  replaceTokens,
+  resolveFilenamePattern,
+  toFilenameSegment,
+  validateFilenamePattern
+} from './filename-pattern';
+
+const context: FilenamePatternContext = {
+  template: 'Customers',
+  schedule: 'Nightly',
+  format: 'CSV',
+  rowCount: 1000,
+  runNumber: 7,
+  date: new Date('2030-03-10T07:30:05Z'),
+  timeZone: 'America/New_York'
+};
+
+describe('resolveFilenamePattern', () => {
+  it('fills in names and the run time in the schedule zone', () => {
+    expect(resolveFilenamePattern(DEFAULT_FILENAME_PATTERN, context)).toBe('Customers_20300310_033005.csv');
+    expect(resolveFilenamePattern('{schedule}-{runNumber}-{rowCount}.{format}', context)).toBe('Nightly-7-1000.csv');
+  });
+
+  it('makes names safe for a file name', () => {
+    expect(resolveFilenamePattern('{template}.{format}', { ...context, template: 'a/b:c' })).toBe('a-b-c.csv');
+  });
+
+  it('cuts long names to 255 characters, keeping the extension', () => {
+    const name = resolveFilenamePattern('{template}.{format}', { ...context, template: 'x'.repeat(300) });
+    expect(name).toHaveLength(255);
+    expect(name.endsWith('x.csv')).toBe(true);
+  });
+});
+
+describe('replaceTokens', () => {
+  it('leaves unknown placeholders as they are', () => {
+    expect(replaceTokens('{a}-{b}', { a: '1' })).toBe('1-{b}');
+  });
+
+  it('does not read placeholders from Object.prototype', () => {
+    expect(replaceTokens('{constructor}{toString}', {})).toBe('{constructor}{toString}');
+  });
+});
+
+describe('validateFilenamePattern', () => {
+  it('accepts the default and an empty pattern', () => {
+    expect(validateFilenamePattern(DEFAULT_FILENAME_PATTERN)).toBeNull();
+    expect(validateFilenamePattern('')).toBeNull();
+  });
+
+  it('lists unknown placeholders', () => {
+    expect(validateFilenamePattern('{template}_{date}_{constructor}')).toBe('Unknown placeholders {date}, {constructor}');
+    expect(getUnknownTokens('{date}{date}', {})).toEqual(['{date}']);
+  });
+
+  it('rejects stray braces, illegal characters and reserved names', () => {
+    expect(validateFilenamePattern('{template')).toBe('Placeholders are written as {name}');
+    expect(validateFilenamePattern('a/b:{format}')).toBe('File names cannot contain / :');
+    expect(validateFilenamePattern('report.')).toBe('File names cannot end with a dot or a space');
+    expect(validateFilenamePattern('con.{format}')).toBe('CON is a reserved file name');
+  });
+});
+
+describe('insertFilenameToken', () => {
+  it('inserts in front of the extension', () => {
+    expect(insertFilenameToken('{template}.{format}', '{runNumber}')).toBe('{template}{runNumber}.{format}');
+  });
+
+  it('appends to a pattern without an extension', () => {
+    expect(insertFilenameToken('{template}', '_{runNumber}')).toBe('{template}_{runNumber}');
+  });
+
+  it('starts an empty pattern from the default', () => {
+    expect(insertFilenameToken('', '_{runNumber}')).toBe('{template}_{yyyyMMdd}_{HHmmss}_{runNumber}.{format}');
+  });
+});
+
+describe('toFilenameSegment', () => {
+  it('replaces control characters too', () => {
+    expect(toFilenameSegment(' a\tb ')).toBe('a-b');
+  });
+});
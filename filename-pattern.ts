@@ -0,0 +1,146 @@
+import { toWallTime } from './time-zone';
+
+/**
+ * Tokens a file name pattern may contain. Dates and times are those of the
+ * run in the schedule's time zone; `{runNumber}` counts the runs of a
+ * schedule, starting at 1.
+ */
+export const FILENAME_PATTERN_TOKENS: Record<string, string> = {
+  '{template}': 'Template name',
+  '{schedule}': 'Schedule name',
+  '{yyyyMMdd}': 'Run date',
+  '{HHmmss}': 'Run time',
+  '{runNumber}': 'Run number',
+  '{rowCount}': 'Row count',
+  '{format}': 'Output format, lower case'
+};
+
+export const DEFAULT_FILENAME_PATTERN = '{template}_{yyyyMMdd}_{HHmmss}.{format}';
+
+export interface FilenamePatternContext {
+  template: string;
+  schedule: string;
+  format: string;
+  rowCount: number;
+  runNumber: number;
+  date: Date;
+  timeZone: string;
+}
+
+export const TOKEN_PATTERN = /\{[A-Za-z]+\}/g;
+
+const ILLEGAL_CHARACTERS = /[\\/:*?"<>|\u0000-\u001f]/g;
+const RESERVED_NAMES = /^(CON|PRN|AUX|NUL|COM[1-9]|LPT[1-9])(\..*)?$/i;
+const MAX_FILENAME_LENGTH = 255;
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+/**
+ * Make a value safe to use in a file name or as one folder of a path.
+ */
+export const toFilenameSegment = (value: string): string => value.replace(ILLEGAL_CHARACTERS, '-').trim();
+
+/**
+ * Date and time tokens of an instant in a zone, zero-padded.
+ */
+export const getDateTokenValues = (date: Date, timeZone: string): Record<string, string> => {
+  const wallTime = toWallTime(date, timeZone);
+  const values = {
+    yyyy: String(wallTime.year),
+    MM: pad(wallTime.month + 1),
+    dd: pad(wallTime.day),
+    HH: pad(wallTime.hour),
+    mm: pad(wallTime.minute),
+    ss: pad(wallTime.second)
+  };
+  return {
+    ...values,
+    yyyyMMdd: `${values.yyyy}${values.MM}${values.dd}`,
+    HHmmss: `${values.HH}${values.mm}${values.ss}`
+  };
+};
+
+/**
+ * Replace `{token}` placeholders with `values`, keyed without braces.
+ * Unknown placeholders are left as they are.
+ */
+export const replaceTokens = (pattern: string, values: Record<string, string>): string =>
+  pattern.replace(TOKEN_PATTERN, token => {
+    const name = token.slice(1, -1);
+    // Own keys only, so {constructor} stays as typed
+    return Object.prototype.hasOwnProperty.call(values, name) ? values[name] : token;
+  });
+
+/**
+ * Placeholders in a pattern that are not in `tokens`.
+ */
+export const getUnknownTokens = (pattern: string, tokens: Record<string, string>): string[] =>
+  Array.from(new Set((pattern.match(TOKEN_PATTERN) || []).filter(token => !(token in tokens))));
+
+const EXTENSION_SUFFIX = '.{format}';
+
+/**
+ * Add a token to a pattern, in front of its `.{format}` extension when it
+ * ends with one. An empty pattern starts from the default.
+ */
+export const insertFilenameToken = (pattern: string, token: string): string => {
+  const base = pattern || DEFAULT_FILENAME_PATTERN;
+  return base.endsWith(EXTENSION_SUFFIX)
+    ? base.slice(0, -EXTENSION_SUFFIX.length) + token + EXTENSION_SUFFIX
+    : base + token;
+};
+
+/**
+ * Check a file name pattern, returning an error message or null. An empty
+ * pattern is valid and means the default file name.
+ */
+export const validateFilenamePattern = (pattern: string): string | null => {
+  if (!pattern.trim()) return null;
+
+  const unknown = getUnknownTokens(pattern, FILENAME_PATTERN_TOKENS);
+  if (unknown.length > 0) {
+    return `Unknown placeholder${unknown.length === 1 ? '' : 's'} ${unknown.join(', ')}`;
+  }
+
+  const literal = pattern.replace(TOKEN_PATTERN, '');
+  if (/[{}]/.test(literal)) {
+    return 'Placeholders are written as {name}';
+  }
+
+  const illegal = Array.from(new Set(literal.match(ILLEGAL_CHARACTERS) || []));
+  if (illegal.length > 0) {
+    const printable = illegal.filter(character => character >= ' ');
+    return `File names cannot contain ${printable.length > 0 ? printable.join(' ') : 'control characters'}`;
+  }
+
+  if (/[. ]$/.test(pattern)) {
+    return 'File names cannot end with a dot or a space';
+  }
+
+  if (RESERVED_NAMES.test(pattern)) {
+    return `${pattern.split('.')[0].toUpperCase()} is a reserved file name`;
+  }
+
+  return null;
+};
+
+/**
+ * Resolve a file name pattern the way GenerationJob does, for previews.
+ * Names are made file name safe and the result is cut to 255 characters,
+ * keeping the extension.
+ */
+export const resolveFilenamePattern = (pattern: string, context: FilenamePatternContext): string => {
+  const resolved = replaceTokens(pattern, {
+    ...getDateTokenValues(context.date, context.timeZone),
+    template: toFilenameSegment(context.template),
+    schedule: toFilenameSegment(context.schedule),
+    runNumber: String(context.runNumber),
+    rowCount: String(context.rowCount),
+    format: context.format.toLowerCase()
+  });
+
+  if (resolved.length <= MAX_FILENAME_LENGTH) return resolved;
+
+  const extension = resolved.lastIndexOf('.') > 0 ? resolved.slice(resolved.lastIndexOf('.')) : '';
+  return resolved.slice(0, MAX_FILENAME_LENGTH - extension.length) + extension;
+};
@@ -0,0 +1,118 @@
+/**
+ * Result of matching a query against a piece of text. `indices` are the
+ * positions in the text that matched, for highlighting.
+ */
+export interface FuzzyMatch {
+  score: number;
+  indices: number[];
+}
+
+export interface FuzzyField {
+  name: string;
+  text: string;
+  weight: number;
+}
+
+export interface FuzzyFieldsMatch {
+  score: number;
+  indices: Record<string, number[]>;
+}
+
+const isWordStart = (text: string, index: number): boolean => {
+  if (index === 0) return true;
+
+  const previous = text[index - 1];
+  const current = text[index];
+  return /[\s_\-./]/.test(previous) ||
+    (current === current.toUpperCase() && current !== current.toLowerCase() &&
+      previous === previous.toLowerCase() && previous !== previous.toUpperCase());
+};
+
+/**
+ * Match a query against text. Substrings beat scattered characters, and
+ * matches at the start of a word beat those in the middle. Returns null when
+ * the query characters do not all appear in order.
+ */
+export const fuzzyMatch = (query: string, text: string): FuzzyMatch | null => {
+  const needle = query.toLowerCase();
+  const haystack = text.toLowerCase();
+
+  if (!needle) {
+    return { score: 0, indices: [] };
+  }
+
+  const substringIndex = haystack.indexOf(needle);
+  if (substringIndex >= 0) {
+    // Prefer a later occurrence at a word start over an earlier one mid-word
+    let start = substringIndex;
+    for (let index = substringIndex; index >= 0; index = haystack.indexOf(needle, index + 1)) {
+      if (isWordStart(text, index)) {
+        start = index;
+        break;
+      }
+    }
+
+    const bonus = start === 0 ? 40 : isWordStart(text, start) ? 25 : 0;
+    return {
+      score: 100 + bonus - start * 0.5 - (haystack.length - needle.length) * 0.1,
+      indices: Array.from({ length: needle.length }, (_, offset) => start + offset)
+    };
+  }
+
+  const indices: number[] = [];
+  let score = 0;
+  let position = 0;
+
+  for (const char of needle) {
+    const index = haystack.indexOf(char, position);
+    if (index < 0) return null;
+
+    const previous = indices[indices.length - 1];
+    if (previous !== undefined && index === previous + 1) {
+      score += 6;
+    } else if (isWordStart(text, index)) {
+      score += 8;
+    } else {
+      score += 1;
+    }
+
+    if (previous !== undefined) {
+      score -= Math.min(index - previous - 1, 5) * 0.5;
+    }
+
+    indices.push(index);
+    position = index + 1;
+  }
+
+  return { score, indices };
+};
+
+/**
+ * Match a whitespace-separated query against several weighted fields. Every
+ * word of the query must match at least one field; each word counts its best
+ * weighted field.
+ */
+export const fuzzyMatchFields = (query: string, fields: FuzzyField[]): FuzzyFieldsMatch | null => {
+  const words = query.trim().split(/\s+/).filter(Boolean);
+  const indices: Record<string, number[]> = {};
+  let score = 0;
+
+  for (const word of words) {
+    let best: { field: FuzzyField; match: FuzzyMatch } | null = null;
+
+    fields.forEach(field => {
+      const match = fuzzyMatch(word, field.text);
+      if (match && (!best || match.score * field.weight > best.match.score * best.field.weight)) {
+        best = { field, match };
+      }
+    });
+
+    if (!best) return null;
+
+    const { field, match } = best as { field: FuzzyField; match: FuzzyMatch };
+    score += match.score * field.weight;
+    indices[field.name] = Array.from(new Set([...(indices[field.name] || []), ...match.indices]));
+  }
+
+  return { score, indices };
+};
@@ -0,0 +1,41 @@
+import { MAX_SEED, generateSeed, parseSeed, validateSeed } from './generation-seed';
+
+describe('validateSeed', () => {
+  it('accepts whole numbers from 0 to the largest safe integer', () => {
+    ['0', '42', ' 12345 ', String(MAX_SEED)].forEach(value => {
+      expect(validateSeed(value)).toBeNull();
+    });
+  });
+
+  it('rejects seeds that would not survive a round trip through JSON', () => {
+    ['9007199254740992', '9007199254740993', '99999999999999999999'].forEach(value => {
+      expect(validateSeed(value)).toBe(`Seed must be a whole number between 0 and ${MAX_SEED}`);
+    });
+  });
+
+  it('rejects negative, decimal and non-numeric input', () => {
+    ['-1', '1.5', '1e3', 'abc', '0x10'].forEach(value => {
+      expect(validateSeed(value)).not.toBeNull();
+    });
+  });
+
+  it('treats empty input as no seed', () => {
+    expect(validateSeed('   ')).toBeNull();
+    expect(parseSeed('   ')).toBeUndefined();
+  });
+});
+
+describe('parseSeed', () => {
+  it('reads the number', () => {
+    expect(parseSeed(' 42 ')).toBe(42);
+    expect(parseSeed(String(MAX_SEED))).toBe(MAX_SEED);
+  });
+});
+
+describe('generateSeed', () => {
+  it('only generates seeds that pass validation', () => {
+    Array.from({ length: 100 }, generateSeed).forEach(seed => {
+      expect(validateSeed(String(seed))).toBeNull();
+    });
+  });
+});
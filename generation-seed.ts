@@ -0,0 +1,26 @@
+// Seeds are Java longs on the server, but only integers up to 2^53 - 1
+// survive a round trip through JSON in the browser
+export const MAX_SEED = Number.MAX_SAFE_INTEGER;
+
+/**
+ * Read a seed typed by the user. Empty input means no fixed seed.
+ */
+export const parseSeed = (value: string): number | undefined => {
+  const trimmed = value.trim();
+  return trimmed ? Number(trimmed) : undefined;
+};
+
+/**
+ * Check a seed typed by the user, returning an error message or null.
+ */
+export const validateSeed = (value: string): string | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  if (!/^\d+$/.test(trimmed) || !Number.isSafeInteger(Number(trimmed))) {
+    return `Seed must be a whole number between 0 and ${MAX_SEED}`;
+  }
+  return null;
+};
+
+export const generateSeed = (): number => Math.floor(Math.random() * (MAX_SEED + 1));
@@ -0,0 +1,42 @@
+import { ApiResponse, API_BASE_URL, post } from '../../../api/api-client';
+
+/**
+ * A batch whose templates are linked by reference columns. Templates are
+ * generated in dependency order; `rowCount` applies to templates that
+ * reference no other, the rest follow from their references.
+ */
+export interface LinkedBatchRequest {
+  templateIds: string[];
+  rowCount: number;
+  outputFormat: string;
+}
+
+export interface LinkedBatchFile {
+  templateId: string;
+  templateName: string;
+  fileName: string;
+  rowCount: number;
+}
+
+export interface LinkedBatchResult {
+  batchId: string;
+  archiveFileName: string;
+  files: LinkedBatchFile[];
+}
+
+/**
+ * Generate a linked set of files. Fails as a whole if any template fails,
+ * so the files always agree with each other.
+ */
+export async function generateLinkedBatch(
+  request: LinkedBatchRequest
+): Promise<ApiResponse<LinkedBatchResult>> {
+  return post<LinkedBatchResult>('/batch/generate-linked', request);
+}
+
+/**
+ * URL of the archive holding every file of a linked batch, for use in download links.
+ */
+export function getLinkedBatchDownloadUrl(batchId: string): string {
+  return `${API_BASE_URL}/batch/${batchId}/archive`;
+}
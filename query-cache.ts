@@ -0,0 +1,206 @@
+import { ApiResponse } from '../../../api/api-client';
+
+export type QueryKey = readonly unknown[];
+
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<ApiResponse<T>>;
+
+/**
+ * Snapshot of a cached query, as seen by subscribers.
+ */
+export interface QueryState<T> {
+  response?: ApiResponse<T>;
+  error: string | null;
+  updatedAt: number;
+  isFetching: boolean;
+}
+
+interface QueryEntry<T> extends QueryState<T> {
+  key: QueryKey;
+  fetcher?: QueryFetcher<T>;
+  promise?: Promise<ApiResponse<T>>;
+  controller?: AbortController;
+  subscribers: Set<() => void>;
+  evictTimer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Keys shared by the screens that read and mutate the same data.
+ */
+export const queryKeys = {
+  schedules: ['schedules'] as const,
+  templates: ['templates'] as const,
+  scheduleRuns: ['scheduleRuns'] as const,
+  dataTypes: ['dataTypes'] as const,
+  dataTypePreview: ['dataTypePreview'] as const,
+  typeInferenceRules: ['typeInferenceRules'] as const,
+  customTypes: ['customTypes'] as const,
+  templateTypeIssues: ['templateTypeIssues'] as const,
+  businessCalendars: ['businessCalendars'] as const
+};
+
+// Unused entries are dropped after this long
+const CACHE_TIME_MS = 5 * 60 * 1000;
+
+const entries = new Map<string, QueryEntry<unknown>>();
+
+export const hashQueryKey = (key: QueryKey): string => JSON.stringify(key);
+
+// A key always holds the data of the same endpoint, so its type is the one
+// the caller asks for
+const asTypedEntry = <T>(entry: QueryEntry<unknown>): QueryEntry<T> => entry as QueryEntry<T>;
+
+const getEntry = <T>(key: QueryKey): QueryEntry<T> => {
+  const hash = hashQueryKey(key);
+  const existing = entries.get(hash);
+  if (existing) {
+    return asTypedEntry<T>(existing);
+  }
+
+  const entry: QueryEntry<T> = {
+    key,
+    error: null,
+    updatedAt: 0,
+    isFetching: false,
+    subscribers: new Set()
+  };
+  entries.set(hash, entry);
+  return entry;
+};
+
+const notify = (entry: QueryEntry<unknown>) => {
+  entry.subscribers.forEach(listener => listener());
+};
+
+const isPrefix = (prefix: QueryKey, key: QueryKey): boolean =>
+  prefix.length <= key.length &&
+  prefix.every((part, index) => hashQueryKey([part]) === hashQueryKey([key[index]]));
+
+export const getQueryState = <T>(key: QueryKey): QueryState<T> => {
+  const { response, error, updatedAt, isFetching } = getEntry<T>(key);
+  return { response, error, updatedAt, isFetching };
+};
+
+/**
+ * Fetch a query, sharing the request with anyone already waiting on the
+ * same key. Responses to aborted requests are discarded, so a slow earlier
+ * request can never overwrite newer data.
+ */
+export const fetchQuery = <T>(key: QueryKey, fetcher: QueryFetcher<T>): Promise<ApiResponse<T>> => {
+  const entry = getEntry<T>(key);
+  entry.fetcher = fetcher;
+
+  if (entry.promise) {
+    return entry.promise;
+  }
+
+  const controller = new AbortController();
+  entry.controller = controller;
+  entry.isFetching = true;
+  notify(entry);
+
+  const promise = fetcher(controller.signal)
+    .catch((err: unknown): ApiResponse<T> => ({
+      error: err instanceof Error ? err.message : 'Request failed',
+      status: 0
+    }))
+    .then(response => {
+      if (entry.controller === controller) {
+        entry.promise = undefined;
+        entry.controller = undefined;
+        entry.isFetching = false;
+      }
+
+      if (!controller.signal.aborted) {
+        if (response.error) {
+          entry.error = response.error;
+        } else {
+          entry.response = response;
+          entry.error = null;
+          entry.updatedAt = Date.now();
+        }
+        notify(entry);
+      }
+
+      return response;
+    });
+
+  entry.promise = promise;
+  return promise;
+};
+
+/**
+ * Abort the request in flight for a key.
+ */
+export const cancelQuery = (key: QueryKey) => {
+  const entry = entries.get(hashQueryKey(key));
+
+  if (entry?.controller) {
+    entry.controller.abort();
+    entry.controller = undefined;
+    entry.promise = undefined;
+    entry.isFetching = false;
+    notify(entry);
+  }
+};
+
+/**
+ * Listen for changes to a key. Once the last listener leaves, the request
+ * in flight is aborted and the entry is evicted after a while.
+ */
+export const subscribeQuery = (key: QueryKey, listener: () => void): (() => void) => {
+  const entry = getEntry(key);
+  entry.subscribers.add(listener);
+
+  if (entry.evictTimer) {
+    clearTimeout(entry.evictTimer);
+    entry.evictTimer = undefined;
+  }
+
+  return () => {
+    entry.subscribers.delete(listener);
+
+    if (entry.subscribers.size === 0) {
+      cancelQuery(key);
+      entry.evictTimer = setTimeout(() => {
+        if (entry.subscribers.size === 0) {
+          entries.delete(hashQueryKey(key));
+        }
+      }, CACHE_TIME_MS);
+    }
+  };
+};
+
+/**
+ * Patch the cached data of every query under a key prefix, e.g. for an
+ * optimistic update. Requests in flight are aborted so they can't undo the
+ * patch. To roll back, patch again with an updater that reverses the change,
+ * so patches made in the meantime are kept.
+ */
+export const updateQueryData = <T>(prefix: QueryKey, updater: (data: T) => T) => {
+  entries.forEach(cached => {
+    const entry = asTypedEntry<T>(cached);
+    const current = entry.response;
+    if (!isPrefix(prefix, entry.key) || !current?.data) return;
+
+    cancelQuery(entry.key);
+    entry.response = { ...current, data: updater(current.data) };
+    notify(entry);
+  });
+};
+
+/**
+ * Mark every query under a key prefix as stale. Queries that are on screen
+ * refetch straight away; the rest refetch the next time they are used.
+ */
+export const invalidateQueries = (prefix: QueryKey) => {
+  entries.forEach(entry => {
+    if (!isPrefix(prefix, entry.key)) return;
+
+    entry.updatedAt = 0;
+
+    if (entry.subscribers.size > 0 && entry.fetcher) {
+      cancelQuery(entry.key);
+      fetchQuery(entry.key, entry.fetcher);
+    }
+  });
+};
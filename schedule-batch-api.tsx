@@ -0,0 +1,40 @@
+import { ApiResponse, post } from '../../../api/api-client';
+
+export type ScheduleBatchAction = 'ACTIVATE' | 'PAUSE' | 'DELETE' | 'RUN_NOW';
+
+/**
+ * Targets either an explicit list of schedules or every schedule
+ * matching the list filters.
+ */
+export interface ScheduleBatchRequest {
+  action: ScheduleBatchAction;
+  scheduleIds?: string[];
+  filter?: {
+    search?: string;
+    status?: string;
+  };
+}
+
+export interface ScheduleBatchItemResult {
+  scheduleId: string;
+  scheduleName: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface ScheduleBatchResult {
+  action: ScheduleBatchAction;
+  results: ScheduleBatchItemResult[];
+  successCount: number;
+  failureCount: number;
+}
+
+/**
+ * Apply one action to many schedules. Each schedule is processed
+ * independently, so the result reports successes and failures per item.
+ */
+export async function executeScheduleBatch(
+  request: ScheduleBatchRequest
+): Promise<ApiResponse<ScheduleBatchResult>> {
+  return post<ScheduleBatchResult>('/schedules/batch', request);
+}
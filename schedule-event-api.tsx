@@ -0,0 +1,36 @@
+import { ApiResponse, API_BASE_URL, get } from '../../../api/api-client';
+
+export type ScheduleEventType = 'JOB_STARTED' | 'JOB_COMPLETED' | 'JOB_FAILED' | 'STATUS_CHANGED';
+
+/**
+ * A lifecycle event for a schedule, pushed over the event stream or
+ * returned by the polling endpoint. `runCount` is the schedule's number of
+ * runs after the event.
+ */
+export interface ScheduleEvent {
+  id: string;
+  type: ScheduleEventType;
+  scheduleId: string;
+  timestamp: string;
+  status?: 'ACTIVE' | 'PAUSED' | 'COMPLETED' | 'ERROR';
+  runId?: string;
+  nextRunTime?: string;
+  lastRunTime?: string;
+  runCount?: number;
+  errorMessage?: string;
+}
+
+/**
+ * URL of the Server-Sent Events stream of schedule lifecycle events.
+ */
+export function getScheduleEventStreamUrl(): string {
+  return `${API_BASE_URL}/schedules/events`;
+}
+
+/**
+ * Get the events that happened after the given time, oldest first.
+ * Used when the event stream is unavailable.
+ */
+export async function getScheduleEvents(since: string): Promise<ApiResponse<ScheduleEvent[]>> {
+  return get<ScheduleEvent[]>('/schedules/events/recent', { since });
+}
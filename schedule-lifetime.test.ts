@@ -0,0 +1,103 @@
+import { parseCronExpression } from './cron-expression';
+import {
+  describeRunProgress,
+  getFinalRunTime,
+  getLifetimeFireTimes,
+  getLifetimeWindow,
+  validateScheduleLifetime
+} from './schedule-lifetime';
+
+const NEW_YORK = 'America/New_York';
+const daily = parseCronExpression('0 0 9 * * ?');
+
+const iso = (times: Date[]) => times.map(time => time.toISOString());
+
+describe('getLifetimeWindow', () => {
+  it('covers whole days in the schedule zone', () => {
+    const window = getLifetimeWindow({ startDate: '2030-03-10', endDate: '2030-03-10' }, NEW_YORK);
+    expect(window.start?.toISOString()).toBe('2030-03-10T05:00:00.000Z');
+    // The clocks go forward that day, so it is 23 hours long
+    expect(window.end?.toISOString()).toBe('2030-03-11T03:59:59.999Z');
+  });
+
+  it('leaves out dates that do not exist', () => {
+    expect(getLifetimeWindow({ startDate: '2030-02-30' }, NEW_YORK).start).toBeNull();
+  });
+});
+
+describe('getFinalRunTime', () => {
+  const now = new Date('2030-01-01T00:00:00Z');
+
+  it('counts the remaining runs from the start date', () => {
+    const lifetime = { startDate: '2030-01-10', maxRuns: 5, runCount: 2 };
+    expect(getFinalRunTime(daily, lifetime, NEW_YORK, now)?.toISOString()).toBe('2030-01-12T14:00:00.000Z');
+  });
+
+  it('stops at the end date when it comes first', () => {
+    const lifetime = { endDate: '2030-01-02', maxRuns: 100 };
+    expect(getFinalRunTime(daily, lifetime, NEW_YORK, now)?.toISOString()).toBe('2030-01-03T04:59:59.999Z');
+  });
+
+  it('is now once the run limit is reached', () => {
+    expect(getFinalRunTime(daily, { maxRuns: 3, runCount: 3 }, NEW_YORK, now)).toBe(now);
+  });
+
+  it('gives up on run limits too far away to count', () => {
+    const everySecond = parseCronExpression('* * * * * ?');
+    expect(getFinalRunTime(everySecond, { maxRuns: 1000000 }, NEW_YORK, now)).toBeNull();
+  });
+});
+
+describe('getLifetimeFireTimes', () => {
+  it('keeps runs between the start date and the run limit', () => {
+    const times = getLifetimeFireTimes(
+      daily,
+      { startDate: '2030-01-03', maxRuns: 2 },
+      new Date('2030-01-01T00:00:00Z'),
+      new Date('2030-01-31T00:00:00Z'),
+      NEW_YORK,
+      undefined,
+      new Date('2030-01-01T00:00:00Z')
+    );
+    expect(iso(times)).toEqual(['2030-01-03T14:00:00.000Z', '2030-01-04T14:00:00.000Z']);
+  });
+
+  it('returns nothing when the range ends before the start date', () => {
+    expect(getLifetimeFireTimes(
+      daily,
+      { startDate: '2030-02-01' },
+      new Date('2030-01-01T00:00:00Z'),
+      new Date('2030-01-31T00:00:00Z'),
+      NEW_YORK
+    )).toEqual([]);
+  });
+});
+
+describe('validateScheduleLifetime', () => {
+  it('checks dates and the run limit', () => {
+    expect(validateScheduleLifetime({ startDate: '2090-13-01', maxRuns: 0 }, daily, NEW_YORK)).toEqual({
+      startDate: 'Start date must be a date (yyyy-MM-dd)',
+      maxRuns: 'Maximum runs must be a whole number of at least 1'
+    });
+    expect(validateScheduleLifetime({ startDate: '2090-02-01', endDate: '2090-01-01' }, daily, NEW_YORK).endDate)
+      .toBe('End date must not be before the start date');
+    expect(validateScheduleLifetime({ maxRuns: 3, runCount: 3 }, daily, NEW_YORK).maxRuns)
+      .toBe('The schedule has already run 3 times');
+  });
+
+  it('requires a run between the start and end date', () => {
+    const weekends = parseCronExpression('0 0 9 ? * SAT,SUN');
+    // 5 to 9 March 2090 is Monday to Friday
+    expect(validateScheduleLifetime({ startDate: '2090-03-06', endDate: '2090-03-10' }, weekends, NEW_YORK).endDate)
+      .toBe('The cron expression has no run between the start and end date');
+    expect(validateScheduleLifetime({ endDate: '2020-01-01' }, daily, NEW_YORK).endDate)
+      .toBe('End date has already passed');
+  });
+});
+
+describe('describeRunProgress', () => {
+  it('shows the limit when there is one', () => {
+    expect(describeRunProgress({ maxRuns: 10, runCount: 3 })).toBe('3 of 10 runs');
+    expect(describeRunProgress({ runCount: 1 })).toBe('1 run');
+  });
+});
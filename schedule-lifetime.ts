@@ -0,0 +1,172 @@
+import { ParsedCronExpression, getFireTimesBetween, getNextFireTimes } from './cron-expression';
+import { fromWallTime } from './time-zone';
+
+/**
+ * Optional limits of a recurring schedule. `startDate` and `endDate`
+ * (yyyy-MM-dd) are whole days in the schedule's time zone, both included.
+ * `runCount` is the number of runs made so far. Once the end date passes
+ * or `maxRuns` is reached, the server moves the schedule to COMPLETED.
+ */
+export interface ScheduleLifetime {
+  startDate?: string;
+  endDate?: string;
+  maxRuns?: number;
+  runCount?: number;
+}
+
+export interface LifetimeWindow {
+  start: Date | null;
+  end: Date | null;
+}
+
+// Upcoming runs are counted one by one, so stop somewhere for second-level crons
+const MAX_COUNTED_RUNS = 10000;
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+const startOfDay = (value: string, timeZone?: string, dayOffset = 0): Date | null => {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return null;
+
+  // Rejects dates such as 2025-02-30 or 2025-13-01, then rolls the offset over month ends
+  const year = parseInt(match[1], 10);
+  const month = parseInt(match[2], 10) - 1;
+  const day = parseInt(match[3], 10);
+  const parsed = new Date(Date.UTC(year, month, day));
+  if (parsed.getUTCMonth() !== month || parsed.getUTCDate() !== day) return null;
+
+  const date = new Date(Date.UTC(year, month, day + dayOffset));
+  const wallTime = {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth(),
+    day: date.getUTCDate(),
+    hour: 0,
+    minute: 0,
+    second: 0
+  };
+  return timeZone
+    ? fromWallTime(wallTime, timeZone)
+    : new Date(wallTime.year, wallTime.month, wallTime.day);
+};
+
+export const hasLifetimeLimits = (lifetime: ScheduleLifetime): boolean =>
+  Boolean(lifetime.startDate || lifetime.endDate || lifetime.maxRuns);
+
+/**
+ * Instants a schedule's start and end dates stand for: the start of the
+ * start date and the last millisecond of the end date.
+ */
+export const getLifetimeWindow = (lifetime: ScheduleLifetime, timeZone?: string): LifetimeWindow => {
+  const nextDay = lifetime.endDate ? startOfDay(lifetime.endDate, timeZone, 1) : null;
+  return {
+    start: lifetime.startDate ? startOfDay(lifetime.startDate, timeZone) : null,
+    end: nextDay ? new Date(nextDay.getTime() - 1) : null
+  };
+};
+
+/**
+ * Time of the last run a schedule may still make after `now`, whichever
+ * of its end date and run limit comes first. null when neither limits it,
+ * or when the run limit is too far away to count.
+ */
+export const getFinalRunTime = (
+  parsed: ParsedCronExpression,
+  lifetime: ScheduleLifetime,
+  timeZone?: string,
+  now: Date = new Date()
+): Date | null => {
+  const window = getLifetimeWindow(lifetime, timeZone);
+  if (!lifetime.maxRuns) return window.end;
+
+  const remaining = Math.max(0, lifetime.maxRuns - (lifetime.runCount || 0));
+  if (remaining === 0) return now;
+
+  const from = window.start && window.start > now ? new Date(window.start.getTime() - 1) : now;
+  const counted = Math.min(remaining, MAX_COUNTED_RUNS);
+  const fireTimes = getNextFireTimes(parsed, counted, from, timeZone, window.end || undefined);
+
+  return fireTimes.length === remaining ? fireTimes[fireTimes.length - 1] : window.end;
+};
+
+/**
+ * Fire times of a schedule within [from, to] that its lifetime allows.
+ * Past fire times are kept; upcoming ones stop at the run limit.
+ */
+export const getLifetimeFireTimes = (
+  parsed: ParsedCronExpression,
+  lifetime: ScheduleLifetime,
+  from: Date,
+  to: Date,
+  timeZone?: string,
+  limit?: number,
+  now: Date = new Date()
+): Date[] => {
+  const window = getLifetimeWindow(lifetime, timeZone);
+  const finalRun = lifetime.maxRuns ? getFinalRunTime(parsed, lifetime, timeZone, now) : window.end;
+
+  const start = window.start && window.start > from ? window.start : from;
+  const end = finalRun && finalRun < to ? finalRun : to;
+  if (start > end) return [];
+
+  return getFireTimesBetween(parsed, start, end, timeZone, limit);
+};
+
+/**
+ * Check the lifetime of a recurring schedule. Errors are keyed by field
+ * name. `parsed` is the schedule's cron expression, when it is valid.
+ */
+export const validateScheduleLifetime = (
+  lifetime: ScheduleLifetime,
+  parsed: ParsedCronExpression | null,
+  timeZone?: string
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  if (lifetime.startDate && !startOfDay(lifetime.startDate, timeZone)) {
+    errors.startDate = 'Start date must be a date (yyyy-MM-dd)';
+  }
+  if (lifetime.endDate && !startOfDay(lifetime.endDate, timeZone)) {
+    errors.endDate = 'End date must be a date (yyyy-MM-dd)';
+  } else if (lifetime.startDate && lifetime.endDate && !errors.startDate && lifetime.endDate < lifetime.startDate) {
+    errors.endDate = 'End date must not be before the start date';
+  }
+  if (lifetime.maxRuns !== undefined && (!Number.isInteger(lifetime.maxRuns) || lifetime.maxRuns < 1)) {
+    errors.maxRuns = 'Maximum runs must be a whole number of at least 1';
+  } else if (lifetime.maxRuns !== undefined && lifetime.runCount && lifetime.maxRuns <= lifetime.runCount) {
+    errors.maxRuns = `The schedule has already run ${lifetime.runCount} time${lifetime.runCount === 1 ? '' : 's'}`;
+  }
+
+  if (parsed && Object.keys(errors).length === 0 && (lifetime.startDate || lifetime.endDate)) {
+    const window = getLifetimeWindow(lifetime, timeZone);
+    const now = new Date();
+    const from = window.start && window.start > now ? window.start : now;
+    if (window.end && getFireTimesBetween(parsed, from, window.end, timeZone, 1).length === 0) {
+      errors.endDate = window.end < now
+        ? 'End date has already passed'
+        : 'The cron expression has no run between the start and end date';
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Progress of a schedule, e.g. "3 of 10 runs" or "3 runs".
+ */
+export const describeRunProgress = (lifetime: ScheduleLifetime): string => {
+  const runCount = lifetime.runCount || 0;
+  return lifetime.maxRuns
+    ? `${runCount.toLocaleString()} of ${lifetime.maxRuns.toLocaleString()} runs`
+    : `${runCount.toLocaleString()} run${runCount === 1 ? '' : 's'}`;
+};
+
+/**
+ * Show a start or end date (yyyy-MM-dd) in the viewer's locale. The date
+ * is the same in every zone, so it is not converted.
+ */
+export const formatLifetimeDate = (value: string): string => {
+  const match = DATE_PATTERN.exec(value);
+  if (!match) return value;
+  return new Date(Date.UTC(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10)))
+    .toLocaleDateString(undefined, { timeZone: 'UTC', dateStyle: 'medium' });
+};
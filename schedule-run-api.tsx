@@ -0,0 +1,80 @@
+import { ApiResponse, API_BASE_URL, get, post } from '../../../api/api-client';
+import { DeliveryResult } from './delivery-api';
+
+export type ScheduleRunStatus = 'RUNNING' | 'SUCCESS' | 'FAILED';
+
+/**
+ * One execution of a GenerationJob for a schedule. `seed` is the seed the
+ * run used, whether the schedule fixes one or not, and `templateVersion`
+ * the template revision it generated from; together with the row count
+ * they rebuild the same file. `deliveries` has one entry per delivery
+ * destination enabled at the time of the run.
+ */
+export interface ScheduleRun {
+  id: string;
+  scheduleId: string;
+  startTime: string;
+  endTime?: string;
+  durationMs?: number;
+  rowCount: number;
+  outputFormat: string;
+  outputFile?: string;
+  status: ScheduleRunStatus;
+  errorMessage?: string;
+  seed?: number;
+  templateVersion?: number;
+  deliveries?: DeliveryResult[];
+}
+
+export interface ScheduleRunPage {
+  content: ScheduleRun[];
+  totalPages: number;
+  totalElements: number;
+  number: number;
+  size: number;
+}
+
+export interface ScheduleRunQuery {
+  page: number;
+  size: number;
+}
+
+/**
+ * Get the execution history of a schedule, newest first.
+ */
+export async function getScheduleRuns(
+  scheduleId: string,
+  query: ScheduleRunQuery,
+  signal?: AbortSignal
+): Promise<ApiResponse<ScheduleRunPage>> {
+  return get<ScheduleRunPage>(`/schedules/${scheduleId}/runs`, query, { signal });
+}
+
+/**
+ * URL of the file produced by a run, for use in download links.
+ */
+export function getScheduleRunDownloadUrl(scheduleId: string, runId: string): string {
+  return `${API_BASE_URL}/schedules/${scheduleId}/runs/${runId}/download`;
+}
+
+/**
+ * Settings that apply to a single manual run only; anything left out
+ * falls back to the schedule's own settings. `fileName` may contain the
+ * placeholders of FILENAME_PATTERN_TOKENS.
+ */
+export interface ScheduleRunOverrides {
+  rowCount?: number;
+  outputFormat?: string;
+  fileName?: string;
+  seed?: number;
+}
+
+/**
+ * Trigger a schedule's job immediately, outside its normal timing.
+ */
+export async function runScheduleNow(
+  scheduleId: string,
+  overrides: ScheduleRunOverrides = {}
+): Promise<ApiResponse<ScheduleRun>> {
+  return post<ScheduleRun>(`/schedules/${scheduleId}/run`, overrides);
+}
@@ -0,0 +1,180 @@
+import { ColumnReference } from './column-dependencies';
+import { resolveDependencyOrder } from './dependency-order';
+
+// A reference column draws its values from a column of another template in
+// the same batch; its settings are stored as constraints
+export const REFERENCE_COLUMN_TYPE = 'reference';
+
+export const REFERENCE_CONSTRAINTS = {
+  templateId: 'referenceTemplateId',
+  column: 'referenceColumn',
+  cardinality: 'cardinality',
+  minChildren: 'minChildren',
+  maxChildren: 'maxChildren'
+} as const;
+
+/**
+ * ONE_TO_ONE uses every parent value exactly once. ONE_TO_MANY gives each
+ * parent value between minChildren and maxChildren rows.
+ */
+export type ReferenceCardinality = 'ONE_TO_ONE' | 'ONE_TO_MANY';
+
+export interface TemplateReference {
+  column: string;
+  templateId: string;
+  referencedColumn: string;
+  cardinality: ReferenceCardinality;
+  minChildren: number;
+  maxChildren: number;
+}
+
+export interface BatchTemplate {
+  id: string;
+  name: string;
+  columnDefinitions?: ColumnReference[];
+}
+
+/**
+ * How many rows a template gets in a linked batch. Root templates use the
+ * batch row count; a template's first reference column decides its count
+ * otherwise, relative to the referenced template.
+ */
+export type BatchRowPlan =
+  | { kind: 'FIXED'; rows: number }
+  | { kind: 'RANGE'; min: number; max: number; parentId: string; reference: TemplateReference };
+
+export interface LinkedBatchPlan {
+  order: string[];
+  cycles: string[][];
+  missing: { templateId: string; column: string; referencedTemplateId: string }[];
+  rows: Record<string, BatchRowPlan>;
+}
+
+const toInteger = (value: unknown, fallback: number): number => {
+  const number = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+  return isNaN(number) ? fallback : number;
+};
+
+export const isReferenceColumn = (column: ColumnReference): boolean => column.type === REFERENCE_COLUMN_TYPE;
+
+/**
+ * Read the reference settings of a column, or null if it is not a reference
+ * column or has no target yet.
+ */
+export const getColumnReference = (column: ColumnReference): TemplateReference | null => {
+  if (!isReferenceColumn(column)) return null;
+
+  const constraints = column.constraints || {};
+  const templateId = constraints[REFERENCE_CONSTRAINTS.templateId];
+  const referencedColumn = constraints[REFERENCE_CONSTRAINTS.column];
+  if (!templateId || !referencedColumn) return null;
+
+  const cardinality = constraints[REFERENCE_CONSTRAINTS.cardinality] === 'ONE_TO_MANY' ? 'ONE_TO_MANY' : 'ONE_TO_ONE';
+  const minChildren = cardinality === 'ONE_TO_ONE' ? 1 : toInteger(constraints[REFERENCE_CONSTRAINTS.minChildren], 1);
+  const maxChildren = cardinality === 'ONE_TO_ONE' ? 1 : toInteger(constraints[REFERENCE_CONSTRAINTS.maxChildren], minChildren);
+
+  return {
+    column: column.name,
+    templateId: String(templateId),
+    referencedColumn: String(referencedColumn),
+    cardinality,
+    minChildren,
+    maxChildren
+  };
+};
+
+export const getTemplateReferences = (template: BatchTemplate): TemplateReference[] =>
+  (template.columnDefinitions || [])
+    .map(getColumnReference)
+    .filter((reference): reference is TemplateReference => reference !== null);
+
+/**
+ * Check the reference settings of one column. Errors are keyed by
+ * constraint name, as for generator constraints.
+ */
+export const validateReferenceConstraints = (
+  constraints: Record<string, unknown>,
+  templates: BatchTemplate[],
+  ownTemplateId?: string
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const templateId = constraints[REFERENCE_CONSTRAINTS.templateId];
+  const column = constraints[REFERENCE_CONSTRAINTS.column];
+  const template = templates.find(candidate => candidate.id === String(templateId));
+
+  if (!templateId) {
+    errors[REFERENCE_CONSTRAINTS.templateId] = 'Choose the template to reference';
+  } else if (ownTemplateId && String(templateId) === ownTemplateId) {
+    errors[REFERENCE_CONSTRAINTS.templateId] = 'A template cannot reference itself';
+  } else if (!template) {
+    errors[REFERENCE_CONSTRAINTS.templateId] = 'The referenced template no longer exists';
+  } else if (!column) {
+    errors[REFERENCE_CONSTRAINTS.column] = 'Choose the column to take values from';
+  } else if (!(template.columnDefinitions || []).some(candidate => candidate.name === column)) {
+    errors[REFERENCE_CONSTRAINTS.column] = `${template.name} has no column "${column}"`;
+  }
+
+  if (constraints[REFERENCE_CONSTRAINTS.cardinality] === 'ONE_TO_MANY') {
+    const min = toInteger(constraints[REFERENCE_CONSTRAINTS.minChildren], NaN);
+    const max = toInteger(constraints[REFERENCE_CONSTRAINTS.maxChildren], NaN);
+
+    if (isNaN(min) || min < 0) {
+      errors[REFERENCE_CONSTRAINTS.minChildren] = 'Min children must be 0 or more';
+    } else if (isNaN(max) || max < 1) {
+      errors[REFERENCE_CONSTRAINTS.maxChildren] = 'Max children must be at least 1';
+    } else if (max < min) {
+      errors[REFERENCE_CONSTRAINTS.maxChildren] = 'Max children must not be less than Min children';
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Plan a linked batch: the generation order, references to templates that
+ * are not in the batch, reference cycles and the row count of each template.
+ */
+export const planLinkedBatch = (templates: BatchTemplate[], rowCount: number): LinkedBatchPlan => {
+  const byId = new Map(templates.map(template => [template.id, template]));
+  const references = new Map(templates.map(template => [template.id, getTemplateReferences(template)]));
+
+  const missing: LinkedBatchPlan['missing'] = [];
+  references.forEach((templateReferences, templateId) => {
+    templateReferences
+      .filter(reference => !byId.has(reference.templateId))
+      .forEach(reference => missing.push({
+        templateId,
+        column: reference.column,
+        referencedTemplateId: reference.templateId
+      }));
+  });
+
+  const { order, cycles } = resolveDependencyOrder(
+    templates.map(template => template.id),
+    id => references.get(id)!.map(reference => reference.templateId)
+  );
+
+  // Parents come first in `order`, so their counts are known by the time a child needs them
+  const rows: Record<string, BatchRowPlan> = {};
+  order.forEach(id => {
+    const primary = references.get(id)!.find(reference => byId.has(reference.templateId));
+    const parent = primary ? rows[primary.templateId] : undefined;
+
+    if (!primary || !parent) {
+      rows[id] = { kind: 'FIXED', rows: rowCount };
+      return;
+    }
+
+    const parentMin = parent.kind === 'FIXED' ? parent.rows : parent.min;
+    const parentMax = parent.kind === 'FIXED' ? parent.rows : parent.max;
+    rows[id] = {
+      kind: 'RANGE',
+      min: parentMin * primary.minChildren,
+      max: parentMax * primary.maxChildren,
+      parentId: primary.templateId,
+      reference: primary
+    };
+  });
+
+  return { order, cycles, missing, rows };
+};
@@ -0,0 +1,83 @@
+import {
+  formatWallTime,
+  fromWallTime,
+  getTimeZoneOffset,
+  parseScheduleDateTime,
+  parseWallTime,
+  toDateTimeLocalValue,
+  toWallTime
+} from './time-zone';
+import { getNextFireTimes, parseCronExpression } from './cron-expression';
+
+const NEW_YORK = 'America/New_York';
+
+const wallTime = (value: string) => parseWallTime(value)!;
+
+const fireTimes = (expression: string, from: string, count: number) =>
+  getNextFireTimes(parseCronExpression(expression), count, new Date(from), NEW_YORK).map(date => date.toISOString());
+
+describe('wall times', () => {
+  it('round-trips an ordinary time', () => {
+    const instant = fromWallTime(wallTime('2030-07-01T09:15:30'), NEW_YORK);
+    expect(instant.toISOString()).toBe('2030-07-01T13:15:30.000Z');
+    expect(formatWallTime(toWallTime(instant, NEW_YORK))).toBe('2030-07-01T09:15');
+  });
+
+  it('reports the offset on each side of a change', () => {
+    expect(getTimeZoneOffset(new Date('2030-01-15T12:00:00Z'), NEW_YORK)).toBe(-5 * 60 * 60 * 1000);
+    expect(getTimeZoneOffset(new Date('2030-07-15T12:00:00Z'), NEW_YORK)).toBe(-4 * 60 * 60 * 1000);
+  });
+
+  it('moves a time skipped by the spring change past the gap', () => {
+    // Clocks go from 02:00 to 03:00 on 10 March 2030
+    expect(fromWallTime(wallTime('2030-03-10T02:30'), NEW_YORK).toISOString()).toBe('2030-03-10T07:30:00.000Z');
+  });
+
+  it('resolves a time repeated by the autumn change to the first one', () => {
+    // Clocks go from 02:00 back to 01:00 on 3 November 2030
+    expect(fromWallTime(wallTime('2030-11-03T01:30'), NEW_YORK).toISOString()).toBe('2030-11-03T05:30:00.000Z');
+  });
+});
+
+describe('fire times across daylight saving changes', () => {
+  it('runs a daily job in the spring gap once, after the gap', () => {
+    expect(fireTimes('0 30 2 * * ?', '2030-03-09T00:00:00Z', 3)).toEqual([
+      '2030-03-09T07:30:00.000Z',
+      '2030-03-10T07:30:00.000Z',
+      '2030-03-11T06:30:00.000Z'
+    ]);
+  });
+
+  it('does not repeat an hourly job that lands in the gap', () => {
+    expect(fireTimes('0 30 * * * ?', '2030-03-10T06:00:00Z', 3)).toEqual([
+      '2030-03-10T06:30:00.000Z',
+      '2030-03-10T07:30:00.000Z',
+      '2030-03-10T08:30:00.000Z'
+    ]);
+  });
+
+  it('runs an hourly job once in the repeated hour', () => {
+    expect(fireTimes('0 30 * * * ?', '2030-11-03T04:00:00Z', 3)).toEqual([
+      '2030-11-03T04:30:00.000Z',
+      '2030-11-03T05:30:00.000Z',
+      '2030-11-03T07:30:00.000Z'
+    ]);
+  });
+});
+
+describe('schedule date-times', () => {
+  it('reads values without an offset on the schedule clock', () => {
+    expect(parseScheduleDateTime('2030-01-15T09:00', NEW_YORK)?.toISOString()).toBe('2030-01-15T14:00:00.000Z');
+    expect(parseScheduleDateTime('2030-01-15T09:00:00Z', NEW_YORK)?.toISOString()).toBe('2030-01-15T09:00:00.000Z');
+  });
+
+  it('shows instants on the schedule clock in inputs', () => {
+    expect(toDateTimeLocalValue('2030-01-15T14:00:00Z', NEW_YORK)).toBe('2030-01-15T09:00');
+    expect(toDateTimeLocalValue('2030-01-15T09:00', NEW_YORK)).toBe('2030-01-15T09:00');
+  });
+
+  it('ignores values that are not date-times', () => {
+    expect(parseWallTime('tomorrow')).toBeNull();
+    expect(parseScheduleDateTime('', NEW_YORK)).toBeNull();
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Time zone helpers for schedules.
+ *
+ * Schedules store run times as wall-clock date-times ("2026-03-09T09:00")
+ * together with an IANA zone ("America/New_York"). These helpers convert
+ * between that representation and instants using the browser's Intl API.
+ */
+
+export interface WallTime {
+  year: number;
+  month: number; // 0-based, as in Date
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+// Used when the browser cannot list its supported zones
+const FALLBACK_TIME_ZONES = [
+  'UTC',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles',
+  'Europe/London',
+  'Europe/Paris',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney'
+];
+
+const partsFormatters: Record<string, Intl.DateTimeFormat> = {};
+
+const getPartsFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  if (!partsFormatters[timeZone]) {
+    partsFormatters[timeZone] = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+  }
+  return partsFormatters[timeZone];
+};
+
+/**
+ * The viewer's own zone as reported by the browser.
+ */
+export const getBrowserTimeZone = (): string =>
+  Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// Intl.supportedValuesOf is missing from older browsers and lib typings
+type IntlWithSupportedValues = typeof Intl & { supportedValuesOf: (key: 'timeZone') => string[] };
+
+const hasSupportedValuesOf = (intl: typeof Intl): intl is IntlWithSupportedValues =>
+  'supportedValuesOf' in intl && typeof intl.supportedValuesOf === 'function';
+
+/**
+ * All zones the browser knows about, falling back to a short list.
+ */
+export const getSupportedTimeZones = (): string[] => {
+  const intl: typeof Intl = Intl;
+  const zones = hasSupportedValuesOf(intl) ? intl.supportedValuesOf('timeZone') : FALLBACK_TIME_ZONES;
+
+  return zones.includes('UTC') ? zones : ['UTC', ...zones];
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getPartsFormatter(timeZone);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+/**
+ * Wall-clock time of an instant in a zone.
+ */
+export const toWallTime = (date: Date, timeZone: string): WallTime => {
+  const parts: Record<string, number> = {};
+
+  getPartsFormatter(timeZone).formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  });
+
+  return {
+    year: parts.year,
+    month: parts.month - 1,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  };
+};
+
+/**
+ * Offset of a zone from UTC at a given instant, in milliseconds.
+ */
+export const getTimeZoneOffset = (date: Date, timeZone: string): number => {
+  const wallTime = toWallTime(date, timeZone);
+  const wallTimeAsUtc = Date.UTC(
+    wallTime.year,
+    wallTime.month,
+    wallTime.day,
+    wallTime.hour,
+    wallTime.minute,
+    wallTime.second
+  );
+
+  return wallTimeAsUtc - Math.floor(date.getTime() / 1000) * 1000;
+};
+
+/**
+ * Instant at which a zone's clock shows the given wall-clock time.
+ * Ambiguous times resolve to the earlier instant; times skipped by a
+ * daylight saving change resolve to the same clock time after the change.
+ */
+export const fromWallTime = (wallTime: WallTime, timeZone: string): Date => {
+  const wallTimeAsUtc = Date.UTC(
+    wallTime.year,
+    wallTime.month,
+    wallTime.day,
+    wallTime.hour,
+    wallTime.minute,
+    wallTime.second
+  );
+
+  const firstGuess = wallTimeAsUtc - getTimeZoneOffset(new Date(wallTimeAsUtc), timeZone);
+  const secondGuess = wallTimeAsUtc - getTimeZoneOffset(new Date(firstGuess), timeZone);
+  const candidates = [firstGuess, secondGuess].sort((a, b) => a - b);
+
+  const exactMatch = candidates.find(candidate => {
+    const resolved = toWallTime(new Date(candidate), timeZone);
+    return resolved.day === wallTime.day && resolved.hour === wallTime.hour && resolved.minute === wallTime.minute;
+  });
+
+  return new Date(exactMatch !== undefined ? exactMatch : candidates[1]);
+};
+
+/**
+ * Parse a local date-time string ("2026-03-09T09:00[:00]") as a wall time.
+ */
+export const parseWallTime = (value: string): WallTime | null => {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2}))?/);
+
+  if (!match) {
+    return null;
+  }
+
+  return {
+    year: parseInt(match[1], 10),
+    month: parseInt(match[2], 10) - 1,
+    day: parseInt(match[3], 10),
+    hour: parseInt(match[4], 10),
+    minute: parseInt(match[5], 10),
+    second: match[6] ? parseInt(match[6], 10) : 0
+  };
+};
+
+const pad = (value: number): string => value.toString().padStart(2, '0');
+
+/**
+ * Format a wall time the way datetime-local inputs expect ("2026-03-09T09:00").
+ */
+export const formatWallTime = (wallTime: WallTime): string =>
+  `${wallTime.year}-${pad(wallTime.month + 1)}-${pad(wallTime.day)}T${pad(wallTime.hour)}:${pad(wallTime.minute)}`;
+
+/**
+ * Resolve a schedule date-time from the API to an instant.
+ * Values without an offset are wall-clock times in the schedule's zone.
+ */
+export const parseScheduleDateTime = (value: string, timeZone?: string): Date | null => {
+  if (!value) {
+    return null;
+  }
+
+  if (/(Z|[+-]\d{2}:?\d{2})$/.test(value)) {
+    return new Date(value);
+  }
+
+  const wallTime = parseWallTime(value);
+  if (!wallTime) {
+    return null;
+  }
+
+  return timeZone
+    ? fromWallTime(wallTime, timeZone)
+    : new Date(wallTime.year, wallTime.month, wallTime.day, wallTime.hour, wallTime.minute, wallTime.second);
+};
+
+/**
+ * Convert a schedule date-time from the API into a datetime-local input value
+ * showing the schedule's own clock, without shifting it through UTC.
+ */
+export const toDateTimeLocalValue = (value: string, timeZone: string): string => {
+  if (!value) {
+    return '';
+  }
+
+  const wallTime = /(Z|[+-]\d{2}:?\d{2})$/.test(value)
+    ? toWallTime(new Date(value), timeZone)
+    : parseWallTime(value);
+
+  return wallTime ? formatWallTime(wallTime) : '';
+};
+
+/**
+ * Format an instant in a zone, including the zone abbreviation.
+ */
+export const formatInTimeZone = (date: Date, timeZone: string): string =>
+  date.toLocaleString(undefined, {
+    timeZone,
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  });
+
+/**
+ * Label for a zone selector option, e.g. "America/New_York (UTC-05:00)".
+ */
+export const getTimeZoneLabel = (timeZone: string, at: Date = new Date()): string => {
+  const offsetMinutes = Math.round(getTimeZoneOffset(at, timeZone) / 60000);
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absoluteMinutes = Math.abs(offsetMinutes);
+
+  return `${timeZone} (UTC${sign}${pad(Math.floor(absoluteMinutes / 60))}:${pad(absoluteMinutes % 60)})`;
+};
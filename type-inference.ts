@@ -0,0 +1,114 @@
+/**
+ * One inference rule. A rule votes for its type when the column name
+ * matches `namePattern` and/or when sample values match `valuePattern`.
+ * Patterns are regular expressions matched against the whole name or value,
+ * case-insensitively; the Java `(?i)` prefix is accepted so the same rules
+ * can be shared with PDFAnalysisService.
+ */
+export interface TypeInferenceRule {
+  id: string;
+  type: string;
+  namePattern?: string;
+  valuePattern?: string;
+  weight: number;
+}
+
+export interface TypeSuggestion {
+  type: string;
+  confidence: number;
+  reasons: string[];
+}
+
+/**
+ * Default rules: the TYPE_PATTERNS of PDFAnalysisService, plus more specific
+ * name rules and value shapes for common types.
+ */
+export const DEFAULT_TYPE_INFERENCE_RULES: TypeInferenceRule[] = [
+  { id: 'first-name', type: 'firstName', namePattern: '.*(first|given|fore).*name.*', weight: 0.9 },
+  { id: 'last-name', type: 'lastName', namePattern: '.*(last|sur|family).*name.*', weight: 0.9 },
+  { id: 'name', type: 'firstName', namePattern: '.*name.*', weight: 0.5 },
+  { id: 'address', type: 'streetAddress', namePattern: '.*address.*', weight: 0.7 },
+  { id: 'city', type: 'city', namePattern: '.*city.*', weight: 0.8 },
+  { id: 'state', type: 'state', namePattern: '.*state.*', weight: 0.7 },
+  { id: 'zip-name', type: 'zipCode', namePattern: '.*zip.*|.*postal.*', weight: 0.85 },
+  { id: 'zip-value', type: 'zipCode', valuePattern: '\\d{5}(-\\d{4})?', weight: 0.5 },
+  { id: 'email-name', type: 'email', namePattern: '.*e-?mail.*', weight: 0.9 },
+  { id: 'email-value', type: 'email', valuePattern: '[^@\\s]+@[^@\\s]+\\.[^@\\s]+', weight: 0.95 },
+  { id: 'phone-name', type: 'phoneNumber', namePattern: '.*phone.*|.*mobile.*|.*fax.*', weight: 0.85 },
+  { id: 'phone-value', type: 'phoneNumber', valuePattern: '(?=(?:\\D*\\d){10})\\+?[\\d\\s().-]+', weight: 0.6 },
+  { id: 'date-name', type: 'date', namePattern: '.*date.*|.*dob.*', weight: 0.8 },
+  { id: 'date-value', type: 'date', valuePattern: '\\d{4}-\\d{2}-\\d{2}|\\d{1,2}/\\d{1,2}/\\d{2,4}', weight: 0.8 },
+  { id: 'currency-name', type: 'currency', namePattern: '.*amount.*|.*balance.*|.*payment.*', weight: 0.8 },
+  { id: 'currency-value', type: 'currency', valuePattern: '[$€£]?-?[\\d,]+\\.\\d{2}', weight: 0.6 },
+  { id: 'account', type: 'accountNumber', namePattern: '.*account.*|.*loan.*', weight: 0.7 },
+  { id: 'ssn-name', type: 'ssn', namePattern: '.*ssn.*|.*social.*security.*', weight: 0.95 },
+  { id: 'ssn-value', type: 'ssn', valuePattern: '\\d{3}-\\d{2}-\\d{4}', weight: 0.9 },
+  { id: 'id-number', type: 'idNumber', namePattern: '.*id.*number.*', weight: 0.7 }
+];
+
+const patternCache = new Map<string, RegExp | null>();
+
+/**
+ * Compile a rule pattern to match a whole string. Invalid patterns never match.
+ */
+export const compileRulePattern = (pattern: string): RegExp | null => {
+  if (!patternCache.has(pattern)) {
+    try {
+      patternCache.set(pattern, new RegExp(`^(?:${pattern.replace(/^\(\?i\)/, '')})$`, 'i'));
+    } catch (err) {
+      patternCache.set(pattern, null);
+    }
+  }
+  return patternCache.get(pattern) || null;
+};
+
+/**
+ * Rank data types for a column from its name and optional sample values.
+ * Each matching rule contributes its weight (scaled by the share of samples
+ * matching, for value rules); contributions for one type are combined so
+ * that agreeing rules raise the confidence without exceeding 1.
+ */
+export const inferDataTypes = (
+  rules: TypeInferenceRule[],
+  columnName: string,
+  sampleValues: string[] = [],
+  availableTypes?: string[],
+  limit = 3
+): TypeSuggestion[] => {
+  const name = columnName.trim();
+  const samples = sampleValues.map(value => value.trim()).filter(Boolean);
+  const scores: Record<string, { miss: number; reasons: string[] }> = {};
+
+  rules.forEach(rule => {
+    if (availableTypes && !availableTypes.includes(rule.type)) return;
+
+    const contributions: [number, string][] = [];
+
+    if (rule.namePattern && name) {
+      const pattern = compileRulePattern(rule.namePattern);
+      if (pattern?.test(name)) {
+        contributions.push([rule.weight, `name matches ${rule.namePattern}`]);
+      }
+    }
+
+    if (rule.valuePattern && samples.length > 0) {
+      const pattern = compileRulePattern(rule.valuePattern);
+      const matching = pattern ? samples.filter(sample => pattern.test(sample)).length : 0;
+      if (matching > 0) {
+        contributions.push([rule.weight * (matching / samples.length), `${matching} of ${samples.length} samples match`]);
+      }
+    }
+
+    contributions.forEach(([score, reason]) => {
+      const entry = scores[rule.type] || (scores[rule.type] = { miss: 1, reasons: [] });
+      entry.miss *= 1 - Math.min(Math.max(score, 0), 1);
+      entry.reasons.push(reason);
+    });
+  });
+
+  return Object.entries(scores)
+    .map(([type, { miss, reasons }]) => ({ type, confidence: 1 - miss, reasons }))
+    .filter(suggestion => suggestion.confidence > 0)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit);
+};
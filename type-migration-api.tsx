@@ -0,0 +1,47 @@
+import { ApiResponse, get, post } from '../../../api/api-client';
+import { ConstraintValues } from './constraint-schema';
+
+/**
+ * A template column whose type is unknown to the registry or deprecated.
+ */
+export interface TemplateColumnTypeUsage {
+  templateId: string;
+  templateName: string;
+  columnId: string;
+  columnName: string;
+  type: string;
+  constraints: ConstraintValues;
+}
+
+export interface TemplateColumnTypeChange {
+  templateId: string;
+  columnId: string;
+  fromType: string;
+  type: string;
+  constraints: ConstraintValues;
+}
+
+export interface TypeMigrationResult {
+  updatedTemplates: number;
+  updatedColumns: number;
+}
+
+/**
+ * Get every template column that uses an unknown or deprecated type.
+ */
+export async function getTemplateTypeIssues(
+  signal?: AbortSignal
+): Promise<ApiResponse<TemplateColumnTypeUsage[]>> {
+  return get<TemplateColumnTypeUsage[]>('/templates/type-issues', undefined, { signal });
+}
+
+/**
+ * Change the type and constraints of the given columns. The changes are
+ * applied in one transaction: if a column has been edited since it was
+ * listed, nothing is saved.
+ */
+export async function applyTemplateTypeMigration(
+  changes: TemplateColumnTypeChange[]
+): Promise<ApiResponse<TypeMigrationResult>> {
+  return post<TypeMigrationResult>('/templates/type-migrations', { changes });
+}
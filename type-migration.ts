@@ -0,0 +1,145 @@
+import { DataTypeMetadata } from './DataTypesContext';
+import {
+  ConstraintValues,
+  getConstraintSchema,
+  getDefaultConstraintValues,
+  validateConstraints
+} from './constraint-schema';
+import { fuzzyMatch } from './fuzzy-match';
+import { TypeSuggestion } from './type-inference';
+
+export type DataTypeIssueKind = 'UNKNOWN' | 'DEPRECATED';
+
+export interface DataTypeIssue {
+  kind: DataTypeIssueKind;
+  type: string;
+  message: string;
+  replacedBy?: string;
+}
+
+export interface ReplacementSuggestion {
+  type: string;
+  reason: string;
+}
+
+export interface ConstraintMappingResult {
+  constraints: ConstraintValues;
+  carried: string[];
+  dropped: string[];
+}
+
+/**
+ * Describe what is wrong with a column's type, given its registry entry
+ * (null when the type is not registered). Returns null for healthy types.
+ */
+export const getDataTypeIssue = (type: string, dataType: DataTypeMetadata | null): DataTypeIssue | null => {
+  if (!type) return null;
+
+  if (!dataType) {
+    return { kind: 'UNKNOWN', type, message: `"${type}" is not a registered data type` };
+  }
+
+  if (dataType.deprecation) {
+    const { message, since, replacedBy } = dataType.deprecation;
+    return {
+      kind: 'DEPRECATED',
+      type,
+      message: message || `${dataType.displayName} is deprecated${since ? ` since ${since}` : ''}`,
+      replacedBy
+    };
+  }
+
+  return null;
+};
+
+/**
+ * Propose replacements for a broken type: the generator's declared
+ * successor first, then registered types with a similar key, then what the
+ * inference rules suggest for the names of the columns using it.
+ */
+export const suggestReplacementTypes = (
+  type: string,
+  dataTypes: DataTypeMetadata[],
+  columnNames: string[],
+  suggestDataTypes: (columnName: string) => TypeSuggestion[],
+  limit = 5
+): ReplacementSuggestion[] => {
+  const candidates = dataTypes.filter(dataType => dataType.type !== type && !dataType.deprecation);
+  const available = new Set(candidates.map(dataType => dataType.type));
+  const suggestions: ReplacementSuggestion[] = [];
+
+  const add = (candidate: string, reason: string) => {
+    if (available.has(candidate) && !suggestions.some(suggestion => suggestion.type === candidate)) {
+      suggestions.push({ type: candidate, reason });
+    }
+  };
+
+  const replacedBy = dataTypes.find(dataType => dataType.type === type)?.deprecation?.replacedBy;
+  if (replacedBy) {
+    add(replacedBy, 'Recommended replacement');
+  }
+
+  // Renamed types usually keep most of their key, in either direction
+  candidates
+    .map(dataType => {
+      const match = fuzzyMatch(type, dataType.type) || fuzzyMatch(dataType.type, type);
+      return { type: dataType.type, score: match ? match.score : 0 };
+    })
+    .filter(candidate => candidate.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 2)
+    .forEach(candidate => add(candidate.type, 'Similar name'));
+
+  columnNames.forEach(columnName => {
+    suggestDataTypes(columnName).forEach(suggestion =>
+      add(suggestion.type, `Matches column "${columnName}"`)
+    );
+  });
+
+  return suggestions.slice(0, limit);
+};
+
+/**
+ * Carry a column's constraints over to a new generator. Constraints are
+ * renamed through `mapping`, kept when the target accepts them and dropped
+ * otherwise; anything not carried starts from the target's defaults.
+ */
+export const mapConstraints = (
+  constraints: ConstraintValues,
+  target: DataTypeMetadata,
+  mapping: Record<string, string> = {}
+): ConstraintMappingResult => {
+  const schema = getConstraintSchema(target);
+  const defaults = getDefaultConstraintValues(schema);
+  const targetNames = new Set(schema.map(definition => definition.name));
+  const mapped: ConstraintValues = { ...defaults };
+  const sources: Record<string, string> = {};
+  const dropped: string[] = [];
+
+  Object.entries(constraints).forEach(([name, value]) => {
+    if (value === undefined || value === '') return;
+
+    const targetName = mapping[name] || name;
+    if (targetNames.has(targetName)) {
+      mapped[targetName] = value;
+      sources[targetName] = name;
+    } else {
+      dropped.push(name);
+    }
+  });
+
+  // Values the new generator rejects fall back to its defaults
+  Object.keys(validateConstraints(schema, mapped)).forEach(targetName => {
+    if (!sources[targetName]) return;
+
+    dropped.push(sources[targetName]);
+    delete sources[targetName];
+    if (defaults[targetName] === undefined) {
+      delete mapped[targetName];
+    } else {
+      mapped[targetName] = defaults[targetName];
+    }
+  });
+
+  return { constraints: mapped, carried: Object.values(sources), dropped };
+};
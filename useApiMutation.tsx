@@ -0,0 +1,66 @@
+import { useState, useCallback, useRef } from 'react';
+import { ApiResponse } from '../../../api/api-client';
+import { QueryKey, invalidateQueries } from './query-cache';
+
+interface UseApiMutationOptions {
+  invalidates?: QueryKey[];
+}
+
+interface UseApiMutationResult<T, A extends unknown[]> {
+  data: ApiResponse<T> | undefined;
+  error: string | null;
+  isLoading: boolean;
+  execute: (...args: A) => Promise<ApiResponse<T>>;
+  reset: () => void;
+}
+
+/**
+ * Run a mutating API call and, when it succeeds, invalidate the queries
+ * whose data it changed.
+ */
+const useApiMutation = <T, A extends unknown[]>(
+  mutation: (...args: A) => Promise<ApiResponse<T>>,
+  { invalidates = [] }: UseApiMutationOptions = {}
+): UseApiMutationResult<T, A> => {
+  const [data, setData] = useState<ApiResponse<T> | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const mutationRef = useRef(mutation);
+  mutationRef.current = mutation;
+  const invalidatesRef = useRef(invalidates);
+  invalidatesRef.current = invalidates;
+
+  const execute = useCallback(async (...args: A): Promise<ApiResponse<T>> => {
+    setIsLoading(true);
+    setError(null);
+
+    let response: ApiResponse<T>;
+    try {
+      response = await mutationRef.current(...args);
+    } catch (err) {
+      response = { error: err instanceof Error ? err.message : 'Request failed', status: 0 };
+    }
+
+    setIsLoading(false);
+    setData(response);
+
+    if (response.error) {
+      setError(response.error);
+    } else {
+      invalidatesRef.current.forEach(key => invalidateQueries(key));
+    }
+
+    return response;
+  }, []);
+
+  const reset = useCallback(() => {
+    setData(undefined);
+    setError(null);
+    setIsLoading(false);
+  }, []);
+
+  return { data, error, isLoading, execute, reset };
+};
+
+export default useApiMutation;
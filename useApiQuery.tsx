@@ -0,0 +1,82 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { ApiResponse } from '../../../api/api-client';
+import {
+  QueryKey,
+  QueryFetcher,
+  hashQueryKey,
+  getQueryState,
+  fetchQuery,
+  subscribeQuery
+} from './query-cache';
+
+interface UseApiQueryOptions {
+  enabled?: boolean;
+  staleTime?: number;
+  debounceMs?: number;
+}
+
+interface UseApiQueryResult<T> {
+  data: ApiResponse<T> | undefined;
+  error: string | null;
+  isLoading: boolean;
+  isFetching: boolean;
+  refetch: () => Promise<ApiResponse<T>>;
+}
+
+/**
+ * Read an API query through the shared cache. Cached data is returned
+ * straight away and refreshed in the background once it is older than
+ * `staleTime`. With `debounceMs`, the key has to settle before it is fetched.
+ */
+const useApiQuery = <T,>(
+  key: QueryKey,
+  fetcher: QueryFetcher<T>,
+  { enabled = true, staleTime = 30000, debounceMs = 0 }: UseApiQueryOptions = {}
+): UseApiQueryResult<T> => {
+  const hash = hashQueryKey(key);
+  const [activeHash, setActiveHash] = useState(hash);
+  const activeKey = JSON.parse(activeHash) as QueryKey;
+  const [state, setState] = useState(() => getQueryState<T>(activeKey));
+
+  // Keep the latest fetcher without treating it as part of the key
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  useEffect(() => {
+    if (debounceMs <= 0) {
+      setActiveHash(hash);
+      return;
+    }
+
+    const timer = setTimeout(() => setActiveHash(hash), debounceMs);
+    return () => clearTimeout(timer);
+  }, [hash, debounceMs]);
+
+  useEffect(() => {
+    const queryKey = JSON.parse(activeHash) as QueryKey;
+    const unsubscribe = subscribeQuery(queryKey, () => setState(getQueryState<T>(queryKey)));
+    const current = getQueryState<T>(queryKey);
+    setState(current);
+
+    if (enabled && (current.updatedAt === 0 || Date.now() - current.updatedAt > staleTime)) {
+      fetchQuery(queryKey, signal => fetcherRef.current(signal));
+    }
+
+    return unsubscribe;
+  }, [activeHash, enabled, staleTime]);
+
+  const refetch = useCallback(
+    () => fetchQuery(JSON.parse(activeHash) as QueryKey, signal => fetcherRef.current(signal)),
+    [activeHash]
+  );
+
+  return {
+    data: state.response,
+    error: state.error,
+    isLoading: state.isFetching && !state.response,
+    isFetching: state.isFetching,
+    refetch
+  };
+};
+
+export default useApiQuery;
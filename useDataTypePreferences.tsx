@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback } from 'react';
+
+export interface DataTypePreferences {
+  favorites: string[];
+  recents: string[];
+}
+
+const STORAGE_KEY_PREFIX = 'tdg.dataTypePreferences';
+const MAX_RECENTS = 5;
+
+// Keeps every selector on the page in sync when one of them changes
+const listeners = new Set<() => void>();
+
+// Without a user, everyone using the browser shares one set
+const getStorageKey = (userId?: string) => `${STORAGE_KEY_PREFIX}.${userId || 'default'}`;
+
+const readPreferences = (userId?: string): DataTypePreferences => {
+  try {
+    const stored = window.localStorage.getItem(getStorageKey(userId));
+    const parsed = stored ? JSON.parse(stored) : {};
+    return {
+      favorites: Array.isArray(parsed.favorites) ? parsed.favorites : [],
+      recents: Array.isArray(parsed.recents) ? parsed.recents : []
+    };
+  } catch (err) {
+    return { favorites: [], recents: [] };
+  }
+};
+
+const writePreferences = (userId: string | undefined, preferences: DataTypePreferences) => {
+  try {
+    window.localStorage.setItem(getStorageKey(userId), JSON.stringify(preferences));
+  } catch (err) {
+    // Storage is full or disabled; the change is dropped
+  }
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * Favorite and recently used data types of a user. They are kept in local
+ * storage, so they stay in the browser they were made in.
+ */
+const useDataTypePreferences = (userId?: string) => {
+  const [preferences, setPreferences] = useState<DataTypePreferences>(() => readPreferences(userId));
+
+  useEffect(() => {
+    const sync = () => setPreferences(readPreferences(userId));
+    sync();
+
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === getStorageKey(userId)) sync();
+    };
+
+    listeners.add(sync);
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      listeners.delete(sync);
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [userId]);
+
+  const toggleFavorite = useCallback((type: string) => {
+    const current = readPreferences(userId);
+    writePreferences(userId, {
+      ...current,
+      favorites: current.favorites.includes(type)
+        ? current.favorites.filter(favorite => favorite !== type)
+        : [...current.favorites, type]
+    });
+  }, [userId]);
+
+  const recordRecent = useCallback((type: string) => {
+    const current = readPreferences(userId);
+    writePreferences(userId, {
+      ...current,
+      recents: [type, ...current.recents.filter(recent => recent !== type)].slice(0, MAX_RECENTS)
+    });
+  }, [userId]);
+
+  return {
+    favorites: preferences.favorites,
+    recents: preferences.recents,
+    toggleFavorite,
+    recordRecent
+  };
+};
+
+export default useDataTypePreferences;
@@ -0,0 +1,166 @@
+import { useState, useEffect, useRef } from 'react';
+import {
+  ScheduleEvent,
+  getScheduleEventStreamUrl,
+  getScheduleEvents
+} from './schedule-event-api';
+
+export type ScheduleEventConnection = 'connecting' | 'stream' | 'polling';
+
+interface UseScheduleEventsOptions {
+  pollInterval?: number;
+  maxStreamFailures?: number;
+  reconnectDelay?: number;
+  maxReconnectDelay?: number;
+}
+
+interface UseScheduleEventsResult {
+  connection: ScheduleEventConnection;
+  error: string | null;
+}
+
+/**
+ * Subscribe to schedule lifecycle events. Listens on the event stream and
+ * falls back to polling when the browser or the server can't keep it open.
+ * While polling, the stream is tried again with a growing delay. Events
+ * missed while disconnected are fetched on fallback and on every reconnect.
+ */
+const useScheduleEvents = (
+  onEvent: (event: ScheduleEvent) => void,
+  {
+    pollInterval = 15000,
+    maxStreamFailures = 3,
+    reconnectDelay = 30000,
+    maxReconnectDelay = 5 * 60 * 1000
+  }: UseScheduleEventsOptions = {}
+): UseScheduleEventsResult => {
+  const [connection, setConnection] = useState<ScheduleEventConnection>('connecting');
+  const [error, setError] = useState<string | null>(null);
+
+  // Keep the latest handler without resubscribing on every render
+  const onEventRef = useRef(onEvent);
+  useEffect(() => {
+    onEventRef.current = onEvent;
+  }, [onEvent]);
+
+  useEffect(() => {
+    let source: EventSource | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let streamFailures = 0;
+    let reconnectAttempts = 0;
+    let lastEventId: string | null = null;
+    let since = new Date().toISOString();
+    let isClosed = false;
+
+    const dispatch = (event: ScheduleEvent) => {
+      if (event.id === lastEventId) return;
+
+      lastEventId = event.id;
+      since = event.timestamp;
+      onEventRef.current(event);
+    };
+
+    const poll = async () => {
+      try {
+        const response = await getScheduleEvents(since);
+        if (isClosed) return;
+
+        if (response.error) {
+          setError(response.error);
+        } else {
+          setError(null);
+          response.data?.forEach(dispatch);
+        }
+      } catch (err) {
+        if (!isClosed) {
+          setError(err instanceof Error ? err.message : 'Failed to check for schedule updates');
+        }
+      }
+    };
+
+    const stopPolling = () => {
+      if (pollTimer) {
+        clearInterval(pollTimer);
+        pollTimer = null;
+      }
+    };
+
+    const startPolling = () => {
+      setConnection('polling');
+      if (!pollTimer) {
+        poll();
+        pollTimer = setInterval(poll, pollInterval);
+      }
+    };
+
+    const openStream = () => {
+      streamFailures = 0;
+      source = new EventSource(getScheduleEventStreamUrl(), { withCredentials: true });
+
+      source.onopen = () => {
+        streamFailures = 0;
+        reconnectAttempts = 0;
+        stopPolling();
+        setError(null);
+        setConnection('stream');
+
+        // Catch up on whatever happened while the stream was down
+        poll();
+      };
+
+      source.onmessage = (message: MessageEvent) => {
+        try {
+          dispatch(JSON.parse(message.data));
+        } catch (err) {
+          // Not an event, e.g. a keep-alive; skip it
+        }
+      };
+
+      // EventSource retries on its own; give up on it after repeated failures
+      source.onerror = () => {
+        streamFailures += 1;
+        if (source?.readyState === EventSource.CLOSED || streamFailures >= maxStreamFailures) {
+          fallBackToPolling();
+        } else if (!pollTimer) {
+          setConnection('connecting');
+        }
+      };
+    };
+
+    // Poll until the stream can be opened again
+    const fallBackToPolling = () => {
+      source?.close();
+      source = null;
+      startPolling();
+
+      const delay = Math.min(reconnectDelay * 2 ** reconnectAttempts, maxReconnectDelay);
+      reconnectAttempts += 1;
+      reconnectTimer = setTimeout(() => {
+        reconnectTimer = null;
+        if (!isClosed) {
+          openStream();
+        }
+      }, delay);
+    };
+
+    if (typeof EventSource === 'undefined') {
+      startPolling();
+    } else {
+      openStream();
+    }
+
+    return () => {
+      isClosed = true;
+      source?.close();
+      stopPolling();
+      if (reconnectTimer) {
+        clearTimeout(reconnectTimer);
+      }
+    };
+  }, [pollInterval, maxStreamFailures, reconnectDelay, maxReconnectDelay]);
+
+  return { connection, error };
+};
+
+export default useScheduleEvents;
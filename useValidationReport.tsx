@@ -0,0 +1,28 @@
+import { useEffect, useRef } from 'react';
+
+/**
+ * Pass an editor's validation errors up to its parent whenever they change.
+ * Errors are compared by content and the callback is read through a ref, so
+ * new objects or inline callbacks on every render don't report again.
+ */
+const useValidationReport = (
+  errors: Record<string, string>,
+  onValidationChange?: (errors: Record<string, string>) => void
+) => {
+  const onValidationChangeRef = useRef(onValidationChange);
+  onValidationChangeRef.current = onValidationChange;
+
+  const key = JSON.stringify(errors);
+  const reportedKeyRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (reportedKeyRef.current === key) return;
+
+    reportedKeyRef.current = key;
+    if (onValidationChangeRef.current) {
+      onValidationChangeRef.current(errors);
+    }
+  });
+};
+
+export default useValidationReport;
@@ -0,0 +1,130 @@
+import {
+  ColumnDistribution,
+  buildHistogram,
+  createDistribution,
+  sampleDistribution,
+  validateDistribution
+} from './value-distribution';
+
+describe('validateDistribution', () => {
+  it('accepts the starting settings of every kind', () => {
+    (['UNIFORM', 'NORMAL', 'SKEWED', 'CATEGORICAL', 'DATE_CLUSTER'] as const).forEach(kind => {
+      const distribution = createDistribution(kind);
+      if (distribution.kind === 'CATEGORICAL') distribution.values[0].value = 'A';
+      expect(validateDistribution(distribution)).toEqual({});
+    });
+  });
+
+  it('checks ranges and parameters of numbers', () => {
+    expect(validateDistribution({ kind: 'NORMAL', min: 10, max: 5, decimals: 11, mean: 7, standardDeviation: 0 })).toEqual({
+      max: 'Max must not be less than Min',
+      decimals: 'Decimals must be between 0 and 10',
+      standardDeviation: 'Standard deviation must be greater than 0'
+    });
+    expect(validateDistribution({ kind: 'NORMAL', min: 0, max: 10, decimals: 0, mean: 11, standardDeviation: 1 }).mean)
+      .toBe('Mean must be between Min and Max');
+    expect(validateDistribution({ kind: 'SKEWED', min: 0, max: 10, decimals: 0, skew: 1.5 }).skew)
+      .toBe('Skew must be between -1 and 1');
+  });
+
+  it('checks weighted values', () => {
+    const check = (values: { value: string; weight: number }[]) =>
+      validateDistribution({ kind: 'CATEGORICAL', values }).values;
+    expect(check([{ value: 'A', weight: 0 }])).toBe('At least one value needs a weight above 0');
+    expect(check([{ value: 'A', weight: 1 }, { value: 'A', weight: 2 }])).toBe('Values must be unique');
+    expect(check([{ value: 'A', weight: -1 }])).toBe('Weights must be 0 or more');
+  });
+
+  it('checks date ranges', () => {
+    expect(validateDistribution({
+      kind: 'DATE_CLUSTER',
+      start: '2030-06-01',
+      end: '2030-01-01',
+      anchor: 'MONTH_END',
+      windowDays: 16,
+      strength: 0.5
+    })).toEqual({
+      end: 'End must not be before Start',
+      windowDays: 'Window must be between 1 and 15 days'
+    });
+  });
+});
+
+describe('sampleDistribution', () => {
+  it('draws the same values for the same seed', () => {
+    const distribution = createDistribution('NORMAL');
+    expect(sampleDistribution(distribution, 20, 42)).toEqual(sampleDistribution(distribution, 20, 42));
+    expect(sampleDistribution(distribution, 20, 42)).not.toEqual(sampleDistribution(distribution, 20, 43));
+  });
+
+  it('keeps numbers within range and rounded', () => {
+    (['UNIFORM', 'NORMAL', 'SKEWED'] as const).forEach(kind => {
+      const distribution = { ...createDistribution(kind), min: 10, max: 20, decimals: 1 } as ColumnDistribution;
+      sampleDistribution(distribution, 500, 7).forEach(sample => {
+        expect(sample).toBeGreaterThanOrEqual(10);
+        expect(sample).toBeLessThanOrEqual(20);
+        expect(Number(sample) * 10).toBeCloseTo(Math.round(Number(sample) * 10));
+      });
+    });
+  });
+
+  it('bunches skewed values towards the chosen end', () => {
+    const mean = (skew: number) => {
+      const samples = sampleDistribution({ kind: 'SKEWED', min: 0, max: 100, decimals: 2, skew }, 1000, 1) as number[];
+      return samples.reduce((sum, sample) => sum + sample, 0) / samples.length;
+    };
+    expect(mean(1)).toBeLessThan(30);
+    expect(mean(-1)).toBeGreaterThan(70);
+  });
+
+  it('never draws values without weight', () => {
+    const samples = sampleDistribution({
+      kind: 'CATEGORICAL',
+      values: [{ value: 'A', weight: 0 }, { value: 'B', weight: 1 }]
+    }, 200, 3);
+    expect(new Set(samples)).toEqual(new Set(['B']));
+  });
+
+  it('clusters dates around the anchor within the range', () => {
+    const samples = sampleDistribution({
+      kind: 'DATE_CLUSTER',
+      start: '2030-01-10',
+      end: '2030-03-20',
+      anchor: 'MONTH_END',
+      windowDays: 3,
+      strength: 1
+    }, 300, 5) as string[];
+    samples.forEach(sample => {
+      expect(sample >= '2030-01-10' && sample <= '2030-03-20').toBe(true);
+    });
+    // March's end is out of range, so those draws fall back to any day
+    const monthEnds = samples.filter(sample => ['29', '30', '31', '26', '27', '28'].includes(sample.slice(8)));
+    expect(monthEnds.length).toBeGreaterThan(samples.length / 2);
+  });
+
+  it('draws nulls with the given probability', () => {
+    const distribution = createDistribution('UNIFORM');
+    expect(sampleDistribution(distribution, 50, 1, 1).every(sample => sample === null)).toBe(true);
+    expect(sampleDistribution(distribution, 50, 1, 0).some(sample => sample === null)).toBe(false);
+  });
+});
+
+describe('buildHistogram', () => {
+  it('counts numbers in equal ranges and nulls on their own', () => {
+    const distribution: ColumnDistribution = { kind: 'UNIFORM', min: 0, max: 10, decimals: 0 };
+    const bins = buildHistogram(distribution, [0, 1, 5, 10, null], 2);
+    expect(bins).toEqual([
+      { label: '0', count: 2 },
+      { label: '5', count: 2 },
+      { label: 'null', count: 1 }
+    ]);
+  });
+
+  it('counts dates per day of the month', () => {
+    const distribution = createDistribution('DATE_CLUSTER');
+    const bins = buildHistogram(distribution, ['2030-01-31', '2030-03-31', '2030-02-01']);
+    expect(bins).toHaveLength(31);
+    expect(bins[0].count).toBe(1);
+    expect(bins[30].count).toBe(2);
+  });
+});
@@ -0,0 +1,314 @@
+import { WeightedValue } from './custom-type-api';
+
+export type DistributionKind = 'UNIFORM' | 'NORMAL' | 'SKEWED' | 'CATEGORICAL' | 'DATE_CLUSTER';
+
+export type DateClusterAnchor = 'MONTH_START' | 'MID_MONTH' | 'MONTH_END';
+
+/**
+ * Numbers between `min` and `max`. NORMAL centres on `mean` with
+ * `standardDeviation`, redrawing values that fall outside the range. SKEWED
+ * bunches values towards `min` for a positive `skew` (long tail to the
+ * right) and towards `max` for a negative one; `skew` runs from -1 to 1.
+ */
+export interface NumericDistribution {
+  kind: 'UNIFORM' | 'NORMAL' | 'SKEWED';
+  min: number;
+  max: number;
+  decimals: number;
+  mean?: number;
+  standardDeviation?: number;
+  skew?: number;
+}
+
+export interface CategoricalDistribution {
+  kind: 'CATEGORICAL';
+  values: WeightedValue[];
+}
+
+/**
+ * Dates between `start` and `end` (yyyy-MM-dd). A `strength` share of the
+ * values falls within `windowDays` of the anchor day of a month, e.g. the
+ * last business days for month-end heavy statement dates.
+ */
+export interface DateClusterDistribution {
+  kind: 'DATE_CLUSTER';
+  start: string;
+  end: string;
+  anchor: DateClusterAnchor;
+  windowDays: number;
+  strength: number;
+}
+
+export type ColumnDistribution = NumericDistribution | CategoricalDistribution | DateClusterDistribution;
+
+export interface HistogramBin {
+  label: string;
+  count: number;
+}
+
+export const DISTRIBUTION_KIND_LABELS: Record<DistributionKind, string> = {
+  UNIFORM: 'Uniform range',
+  NORMAL: 'Normal (bell curve)',
+  SKEWED: 'Skewed range',
+  CATEGORICAL: 'Weighted values',
+  DATE_CLUSTER: 'Clustered dates'
+};
+
+export const DATE_CLUSTER_ANCHOR_LABELS: Record<DateClusterAnchor, string> = {
+  MONTH_START: 'Start of month',
+  MID_MONTH: 'Middle of month',
+  MONTH_END: 'End of month'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Starting settings for a newly chosen kind.
+ */
+export const createDistribution = (kind: DistributionKind): ColumnDistribution => {
+  switch (kind) {
+    case 'CATEGORICAL':
+      return { kind, values: [{ value: '', weight: 1 }] };
+    case 'DATE_CLUSTER': {
+      const today = new Date().toISOString().slice(0, 10);
+      return { kind, start: `${today.slice(0, 4)}-01-01`, end: today, anchor: 'MONTH_END', windowDays: 3, strength: 0.6 };
+    }
+    case 'NORMAL':
+      return { kind, min: 0, max: 1000, decimals: 2, mean: 500, standardDeviation: 150 };
+    case 'SKEWED':
+      return { kind, min: 0, max: 1000, decimals: 2, skew: 0.5 };
+    default:
+      return { kind: 'UNIFORM', min: 0, max: 1000, decimals: 2 };
+  }
+};
+
+/**
+ * Check distribution settings. Errors are keyed by field name.
+ */
+export const validateDistribution = (distribution: ColumnDistribution): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  switch (distribution.kind) {
+    case 'CATEGORICAL': {
+      const { values } = distribution;
+      if (values.length === 0 || values.some(item => !item.value)) {
+        errors.values = 'Every row needs a value';
+      } else if (values.some(item => isNaN(item.weight) || item.weight < 0)) {
+        errors.values = 'Weights must be 0 or more';
+      } else if (!values.some(item => item.weight > 0)) {
+        errors.values = 'At least one value needs a weight above 0';
+      } else if (new Set(values.map(item => item.value)).size !== values.length) {
+        errors.values = 'Values must be unique';
+      }
+      break;
+    }
+    case 'DATE_CLUSTER': {
+      const { start, end, windowDays, strength } = distribution;
+      if (!ISO_DATE_PATTERN.test(start) || isNaN(Date.parse(start))) {
+        errors.start = 'Start must be a date (yyyy-MM-dd)';
+      }
+      if (!ISO_DATE_PATTERN.test(end) || isNaN(Date.parse(end))) {
+        errors.end = 'End must be a date (yyyy-MM-dd)';
+      } else if (!errors.start && end < start) {
+        errors.end = 'End must not be before Start';
+      }
+      if (isNaN(windowDays) || windowDays < 1 || windowDays > 15) {
+        errors.windowDays = 'Window must be between 1 and 15 days';
+      }
+      if (isNaN(strength) || strength < 0 || strength > 1) {
+        errors.strength = 'Strength must be between 0 and 1';
+      }
+      break;
+    }
+    default: {
+      const { min, max, decimals, mean, standardDeviation, skew } = distribution;
+      if (isNaN(min)) errors.min = 'Min must be a number';
+      if (isNaN(max)) {
+        errors.max = 'Max must be a number';
+      } else if (!errors.min && max < min) {
+        errors.max = 'Max must not be less than Min';
+      }
+      if (isNaN(decimals) || decimals < 0 || decimals > 10) {
+        errors.decimals = 'Decimals must be between 0 and 10';
+      }
+      if (distribution.kind === 'NORMAL') {
+        if (mean === undefined || isNaN(mean)) {
+          errors.mean = 'Mean must be a number';
+        } else if (!errors.min && !errors.max && (mean < min || mean > max)) {
+          errors.mean = 'Mean must be between Min and Max';
+        }
+        if (standardDeviation === undefined || isNaN(standardDeviation) || standardDeviation <= 0) {
+          errors.standardDeviation = 'Standard deviation must be greater than 0';
+        }
+      }
+      if (distribution.kind === 'SKEWED' && (skew === undefined || isNaN(skew) || skew < -1 || skew > 1)) {
+        errors.skew = 'Skew must be between -1 and 1';
+      }
+      break;
+    }
+  }
+
+  return errors;
+};
+
+/**
+ * Small seeded generator (mulberry32) so a preview stays put between renders.
+ */
+const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const roundTo = (value: number, decimals: number) => {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+};
+
+const toUtcDate = (value: string) => new Date(`${value}T00:00:00Z`);
+
+const anchorDay = (year: number, month: number, anchor: DateClusterAnchor): Date => {
+  switch (anchor) {
+    case 'MONTH_START':
+      return new Date(Date.UTC(year, month, 1));
+    case 'MID_MONTH':
+      return new Date(Date.UTC(year, month, 15));
+    default:
+      return new Date(Date.UTC(year, month + 1, 0));
+  }
+};
+
+const sampleNumber = (distribution: NumericDistribution, random: () => number): number => {
+  const { min, max } = distribution;
+
+  if (distribution.kind === 'NORMAL') {
+    const mean = distribution.mean ?? (min + max) / 2;
+    const deviation = distribution.standardDeviation ?? (max - min) / 6;
+    for (let attempt = 0; attempt < 10; attempt++) {
+      // Box-Muller
+      const value = mean + deviation * Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+      if (value >= min && value <= max) return value;
+    }
+    return Math.min(Math.max(mean, min), max);
+  }
+
+  if (distribution.kind === 'SKEWED') {
+    const skew = distribution.skew ?? 0;
+    const shaped = Math.pow(random(), 1 + 4 * Math.abs(skew));
+    return min + (max - min) * (skew >= 0 ? shaped : 1 - shaped);
+  }
+
+  return min + (max - min) * random();
+};
+
+const sampleDate = (distribution: DateClusterDistribution, random: () => number): string => {
+  const start = toUtcDate(distribution.start).getTime();
+  const end = toUtcDate(distribution.end).getTime();
+  const days = Math.round((end - start) / DAY_MS);
+
+  if (random() < distribution.strength) {
+    // Pick a month in range, then a day in the window around its anchor
+    const first = new Date(start);
+    const months = (new Date(end).getUTCFullYear() - first.getUTCFullYear()) * 12 +
+      new Date(end).getUTCMonth() - first.getUTCMonth();
+    const month = Math.floor(random() * (months + 1));
+    const anchor = anchorDay(first.getUTCFullYear(), first.getUTCMonth() + month, distribution.anchor);
+    const offset = Math.floor(random() * distribution.windowDays);
+    const direction = distribution.anchor === 'MONTH_START' ? 1 : distribution.anchor === 'MONTH_END' ? -1 : random() < 0.5 ? -1 : 1;
+    const date = anchor.getTime() + direction * offset * DAY_MS;
+    if (date >= start && date <= end) {
+      return new Date(date).toISOString().slice(0, 10);
+    }
+  }
+
+  return new Date(start + Math.floor(random() * (days + 1)) * DAY_MS).toISOString().slice(0, 10);
+};
+
+/**
+ * Draw values the way the generator will, for previews. Nulls are drawn
+ * with `nullProbability` and returned as null.
+ */
+export const sampleDistribution = (
+  distribution: ColumnDistribution,
+  count: number,
+  seed: number,
+  nullProbability = 0
+): (string | number | null)[] => {
+  const random = createRandom(seed);
+  const samples: (string | number | null)[] = [];
+
+  const categorical = distribution.kind === 'CATEGORICAL'
+    ? distribution.values.filter(item => item.weight > 0)
+    : [];
+  const totalWeight = categorical.reduce((sum, item) => sum + item.weight, 0);
+
+  for (let index = 0; index < count; index++) {
+    if (random() < nullProbability) {
+      samples.push(null);
+      continue;
+    }
+
+    switch (distribution.kind) {
+      case 'CATEGORICAL': {
+        let target = random() * totalWeight;
+        const picked = categorical.find(item => (target -= item.weight) < 0) || categorical[categorical.length - 1];
+        samples.push(picked ? picked.value : null);
+        break;
+      }
+      case 'DATE_CLUSTER':
+        samples.push(sampleDate(distribution, random));
+        break;
+      default:
+        samples.push(roundTo(sampleNumber(distribution, random), distribution.decimals));
+        break;
+    }
+  }
+
+  return samples;
+};
+
+/**
+ * Count samples for a histogram: per value for weighted values, per day of
+ * the month for dates and in `binCount` equal ranges for numbers. Nulls get
+ * a bin of their own when there are any.
+ */
+export const buildHistogram = (
+  distribution: ColumnDistribution,
+  samples: (string | number | null)[],
+  binCount = 12
+): HistogramBin[] => {
+  const present = samples.filter((sample): sample is string | number => sample !== null);
+  const nullCount = samples.length - present.length;
+  let bins: HistogramBin[];
+
+  if (distribution.kind === 'CATEGORICAL') {
+    bins = distribution.values.map(item => ({
+      label: item.value,
+      count: present.filter(sample => sample === item.value).length
+    }));
+  } else if (distribution.kind === 'DATE_CLUSTER') {
+    bins = Array.from({ length: 31 }, (_, index) => ({ label: String(index + 1), count: 0 }));
+    present.forEach(sample => {
+      bins[parseInt(String(sample).slice(8, 10), 10) - 1].count++;
+    });
+  } else {
+    const { min, max } = distribution;
+    const width = (max - min) / binCount || 1;
+    bins = Array.from({ length: binCount }, (_, index) => ({
+      label: roundTo(min + index * width, distribution.decimals).toLocaleString(),
+      count: 0
+    }));
+    present.forEach(sample => {
+      const index = Math.min(Math.floor((Number(sample) - min) / width), binCount - 1);
+      bins[Math.max(index, 0)].count++;
+    });
+  }
+
+  return nullCount > 0 ? [...bins, { label: 'null', count: nullCount }] : bins;
+};